@@ -1,28 +1,102 @@
 "use client";
 
-import NextImage from "next/image";
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { BatchQueue } from "../components/batch-queue";
+import { type CompareMode, CompareView } from "../components/compare-view";
+import { CropEditor } from "../components/crop-editor";
+import { ExportDialog } from "../components/export-dialog";
+import { FaceControls } from "../components/face-controls";
+import { HistoryPanel } from "../components/history-panel";
+import { LiveControls } from "../components/live-controls";
+import { LightingControls } from "../components/lighting-controls";
+import { LocalToneControls } from "../components/local-tone-controls";
+import { MaterialPicker } from "../components/material-picker";
+import { OutputFormatPicker } from "../components/output-format-picker";
+import { PedestalControls } from "../components/pedestal-controls";
+import { PresetLibrary } from "../components/preset-library";
+import { RecipeBanner } from "../components/recipe-banner";
+import { SessionManager } from "../components/session-manager";
 import { SliderControl } from "../components/slider-control";
+import { SmoothingControls } from "../components/smoothing-controls";
+import { SubjectMaskControls } from "../components/subject-mask-controls";
+import { StageList } from "../components/stage-list";
+import { TextureControls } from "../components/texture-controls";
+import { TimelineEditor } from "../components/timeline-editor";
+import { ToneCurveEditor } from "../components/tone-curve-editor";
+import { useBatchQueue } from "../hooks/use-batch-queue";
+import { useEditHistory } from "../hooks/use-edit-history";
+import { type LiveSourceKind, useLiveInput } from "../hooks/use-live-input";
+import { ANIMATION_CANCELLED, type AnimationProgress } from "../utils/animation";
+import { type AnimationFormat, getAnimationFormat } from "../utils/animation-encoding";
+import { downloadBlob } from "../utils/download";
+import { type EditHistory, createHistory, restoreHistory } from "../utils/edit-history";
+import { DEFAULT_PIPELINE } from "../utils/effect-stages";
+import { autoFraming } from "../utils/face";
+import type { DetectedFace } from "../utils/face-detection";
 import {
-  type EffectSettings,
-  OUTPUT_HEIGHT,
-  OUTPUT_WIDTH,
-  extractDataUrl,
-  renderPlasterEffect
-} from "../utils/plaster-effect";
-
-const defaultSettings: EffectSettings = {
-  depth: 62,
-  luminosity: 8,
-  sheen: 68,
-  matte: 40,
-  smoothness: 32,
-  microDetail: 48,
-  backgroundLift: 72,
-  macroZoom: 18,
-  standHeight: 24,
-  vignette: 36
-};
+  DEFAULT_EXPORT_OPTIONS,
+  type ExportOptions,
+  formatFilename,
+  getExportFileType
+} from "../utils/export-encoding";
+import { applyMetadata } from "../utils/image-metadata";
+import {
+  decodeImage,
+  ingestImage,
+  isImageFile,
+  releaseIngestedImage
+} from "../utils/ingest";
+import {
+  DEFAULT_OUTPUT_FORMAT,
+  type OutputFormat,
+  animationSize,
+  draftSize,
+  liveSize,
+  previewSize
+} from "../utils/output-format";
+import type { EffectSettings } from "../utils/plaster-effect";
+import {
+  type PlasterRenderClient,
+  type RenderedFrame,
+  createPlasterRenderClient
+} from "../utils/plaster-worker-client";
+import {
+  BUILT_IN_PRESETS,
+  type EffectPreset,
+  createPresetId,
+  loadStoredPresets,
+  parsePresetFile,
+  serializePresets,
+  storePresets
+} from "../utils/presets";
+import {
+  APP_SOFTWARE,
+  type EffectRecipe,
+  decodeLookFragment,
+  encodeLookFragment,
+  readImageRecipe,
+  serializeRecipe
+} from "../utils/recipe";
+import type { MaskRefinement } from "../utils/segmentation";
+import type { RendererBackend } from "../utils/renderer";
+import {
+  type EditSession,
+  type EditSnapshot,
+  type SessionSummary,
+  createSessionId,
+  deleteSession,
+  listSessions,
+  loadSession,
+  saveSession,
+  toStoredHistory
+} from "../utils/session-store";
+import { type NumericSettingKey, SETTING_RANGES } from "../utils/settings-schema";
+import {
+  DEFAULT_TIMELINE,
+  type Timeline,
+  frameCount,
+  validateTimeline
+} from "../utils/timeline";
 
 interface StatusMessage {
   tone: "idle" | "processing" | "ready" | "error";
@@ -36,125 +110,779 @@ const statusPalette: Record<StatusMessage["tone"], string> = {
   error: "text-rose-500"
 };
 
-const createImageElement = (file: File) =>
-  new Promise<HTMLImageElement>((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onload = () => {
-      const url = reader.result as string;
-      const image = new Image();
-      image.onload = () => resolve(image);
-      image.onerror = () => reject(new Error("Unable to parse image"));
-      image.src = url;
-    };
-    reader.onerror = () => reject(new Error("Unable to load file"));
-    reader.readAsDataURL(file);
+const backendLabels: Record<RendererBackend, string> = {
+  canvas2d: "CPU · Canvas 2D",
+  webgl2: "GPU · WebGL2"
+};
+
+type ActiveSession = Pick<EditSession, "id" | "name" | "createdAt">;
+
+interface SavedState {
+  history: EditHistory<EditSnapshot>;
+  outputFormat: OutputFormat;
+  refinement: MaskRefinement | null;
+}
+
+const AUTOSAVE_DELAY_MS = 800;
+// Edits closer together than this count as one drag and render as drafts.
+const PREVIEW_IDLE_MS = 180;
+const THUMBNAIL_LONG_EDGE = 160;
+
+const createThumbnail = (source: HTMLCanvasElement) =>
+  new Promise<Blob | null>((resolve) => {
+    const scale = THUMBNAIL_LONG_EDGE / Math.max(source.width, source.height, 1);
+    const thumbnail = document.createElement("canvas");
+    thumbnail.width = Math.max(1, Math.round(source.width * scale));
+    thumbnail.height = Math.max(1, Math.round(source.height * scale));
+    const context = thumbnail.getContext("2d");
+    if (!context || source.width === 0) {
+      resolve(null);
+      return;
+    }
+    context.drawImage(source, 0, 0, thumbnail.width, thumbnail.height);
+    thumbnail.toBlob(resolve, "image/jpeg", 0.8);
   });
 
 export default function Page() {
-  const [settings, setSettings] = useState(defaultSettings);
+  const [presets, setPresets] = useState<readonly EffectPreset[]>(BUILT_IN_PRESETS);
+  const [presetsLoaded, setPresetsLoaded] = useState(false);
+  const [activePresetId, setActivePresetId] = useState(BUILT_IN_PRESETS[0].id);
+  const { present, history, canUndo, canRedo, commit, undo, redo, jumpTo, replace } =
+    useEditHistory<EditSnapshot>({
+      settings: BUILT_IN_PRESETS[0].settings,
+      pipeline: DEFAULT_PIPELINE
+    });
+  const { settings, pipeline } = present;
+  const [outputFormat, setOutputFormat] = useState<OutputFormat>(DEFAULT_OUTPUT_FORMAT);
+  const [refinement, setRefinement] = useState<MaskRefinement | null>(null);
+  const [compareMode, setCompareMode] = useState<CompareMode>("off");
+  const [exportOptions, setExportOptions] = useState<ExportOptions>(DEFAULT_EXPORT_OPTIONS);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [pendingRecipe, setPendingRecipe] = useState<EffectRecipe | null>(null);
+  const [timeline, setTimeline] = useState<Timeline>(DEFAULT_TIMELINE);
+  const [clipFormat, setClipFormat] = useState<AnimationFormat>("webm");
+  const [clipProgress, setClipProgress] = useState<AnimationProgress | null>(null);
   const [status, setStatus] = useState<StatusMessage>({
     tone: "idle",
     text: "Upload a portrait bust to begin"
   });
   const [sourceImage, setSourceImage] = useState<HTMLImageElement | null>(null);
-  const [processedPreview, setProcessedPreview] = useState<string | null>(null);
+  const [sourceFile, setSourceFile] = useState<Blob | null>(null);
+  const [sessions, setSessions] = useState<readonly SessionSummary[]>([]);
+  const [activeSession, setActiveSession] = useState<ActiveSession | null>(null);
+  const [loadedSource, setLoadedSource] = useState<HTMLImageElement | null>(null);
+  // Bumped for every frame drawn to the canvas, 0 while there is none.
+  const [previewFrame, setPreviewFrame] = useState(0);
+  const [histogram, setHistogram] = useState<Uint32Array | null>(null);
+  // The face the last preview render found, so the crop editor can show the
+  // automatic framing and hand it over when the user takes control.
+  const [detectedFace, setDetectedFace] = useState<DetectedFace | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
+  const [backend, setBackend] = useState<RendererBackend | null>(null);
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
   const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const rendererRef = useRef<PlasterRenderClient | null>(null);
+  const savedStateRef = useRef<SavedState | null>(null);
+  const liveRef = useRef<ReturnType<typeof useLiveInput> | null>(null);
 
   useEffect(() => {
-    const canvas = canvasRef.current;
-    if (!canvas) return;
-    if (canvas.width !== OUTPUT_WIDTH || canvas.height !== OUTPUT_HEIGHT) {
-      canvas.width = OUTPUT_WIDTH;
-      canvas.height = OUTPUT_HEIGHT;
-    }
+    setPresets([...BUILT_IN_PRESETS, ...loadStoredPresets()]);
+    setPresetsLoaded(true);
   }, []);
 
-  const handleProcess = useCallback(
-    (image: HTMLImageElement | null, currentSettings: EffectSettings) => {
-      const canvas = canvasRef.current;
-      if (!canvas || !image) {
-        setProcessedPreview(null);
-        return;
-      }
-
-      const context = canvas.getContext("2d");
-      if (!context) {
-        setStatus({ tone: "error", text: "Canvas rendering not supported" });
-        return;
-      }
+  useEffect(() => {
+    if (presetsLoaded) storePresets(presets);
+  }, [presets, presetsLoaded]);
 
+  // Shared look links hydrate the page as one undoable step, then drop the
+  // fragment so a reload does not re-apply it over later edits.
+  useEffect(() => {
+    const hydrate = () => {
       try {
-        setIsProcessing(true);
-        renderPlasterEffect({
-          source: image,
-          context,
-          settings: currentSettings
-        });
-        const url = extractDataUrl(canvas);
-        setProcessedPreview(url);
-        setStatus({
-          tone: "ready",
-          text: "Macro plaster interpretation ready"
-        });
+        const look = decodeLookFragment(window.location.hash);
+        if (!look) return;
+        commit((prev) => ({ ...prev, settings: look.settings }), "Open shared look");
+        if (look.outputFormat) setOutputFormat(look.outputFormat);
+        window.history.replaceState(null, "", window.location.pathname + window.location.search);
+        setStatus({ tone: "ready", text: "Shared look applied" });
       } catch (error) {
         console.error(error);
         setStatus({
           tone: "error",
-          text: "Processing failed — try another photo"
+          text: error instanceof Error ? error.message : "Unable to read the shared look"
         });
-      } finally {
-        setIsProcessing(false);
       }
-    },
+    };
+    hydrate();
+    window.addEventListener("hashchange", hydrate);
+    return () => window.removeEventListener("hashchange", hydrate);
+  }, [commit]);
+
+  const refreshSessions = useCallback(
+    () =>
+      listSessions()
+        .then(setSessions)
+        .catch((error) => console.error(error)),
     []
   );
 
   useEffect(() => {
-    handleProcess(sourceImage, settings);
-  }, [handleProcess, sourceImage, settings]);
+    refreshSessions();
+  }, [refreshSessions]);
+
+  const updateSettings = useCallback(
+    (patch: Partial<EffectSettings>, label: string, coalesceKey?: string) =>
+      commit((prev) => ({ ...prev, settings: { ...prev.settings, ...patch } }), label, {
+        coalesceKey
+      }),
+    [commit]
+  );
+
+  const presentRender = useCallback(({ bitmap, histogram, face }: RenderedFrame) => {
+    if (liveRef.current?.isStreaming()) {
+      liveRef.current.presentFrame(bitmap);
+      return;
+    }
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext("2d");
+    if (!canvas || !context) {
+      bitmap.close();
+      setStatus({ tone: "error", text: "Canvas rendering not supported" });
+      return;
+    }
+
+    if (canvas.width !== bitmap.width || canvas.height !== bitmap.height) {
+      canvas.width = bitmap.width;
+      canvas.height = bitmap.height;
+    }
+    context.clearRect(0, 0, canvas.width, canvas.height);
+    context.drawImage(bitmap, 0, 0);
+    bitmap.close();
+    setPreviewFrame((frame) => frame + 1);
+    setHistogram(histogram);
+    setDetectedFace(face);
+    setStatus({
+      tone: "ready",
+      text: "Macro plaster interpretation ready"
+    });
+  }, []);
+
+  useEffect(() => {
+    const renderer = createPlasterRenderClient({
+      onRendered: presentRender,
+      onError: (message) => {
+        console.error(message);
+        setStatus({
+          tone: "error",
+          text: "Processing failed — try another photo"
+        });
+      },
+      onBusyChange: (busy) => {
+        setIsProcessing(busy);
+        if (!busy) liveRef.current?.releaseFrame();
+      },
+      onBackend: setBackend
+    });
+    rendererRef.current = renderer;
+    return () => {
+      renderer.dispose();
+      rendererRef.current = null;
+    };
+  }, [presentRender]);
+
+  useEffect(() => {
+    const renderer = rendererRef.current;
+    setDetectedFace(null);
+    if (!renderer || !sourceImage) {
+      renderer?.cancel();
+      setLoadedSource(null);
+      setPreviewFrame(0);
+      return;
+    }
+
+    let cancelled = false;
+    createImageBitmap(sourceImage)
+      .then((bitmap) => {
+        if (cancelled) {
+          bitmap.close();
+          return;
+        }
+        renderer.setSource(bitmap);
+        setLoadedSource(sourceImage);
+      })
+      .catch((error) => {
+        console.error(error);
+        setStatus({ tone: "error", text: "Unable to read the selected image" });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [sourceImage]);
+
+  // Each working copy holds an object URL until the next one replaces it.
+  useEffect(
+    () => () => {
+      if (sourceImage) releaseIngestedImage(sourceImage);
+    },
+    [sourceImage]
+  );
+
+  const framing = useMemo(() => {
+    const { face, macroZoom, focusX, focusY } = settings;
+    if (face.mode !== "auto" || face.framing !== "auto" || !detectedFace || !sourceImage) {
+      return { macroZoom, focusX, focusY };
+    }
+    return autoFraming(
+      detectedFace,
+      sourceImage.naturalWidth,
+      sourceImage.naturalHeight,
+      outputFormat.width / outputFormat.height,
+      face.framingSize
+    );
+  }, [settings, detectedFace, sourceImage, outputFormat]);
+
+  // The live preview is capped in size; downloads render at the full format.
+  const previewDimensions = useMemo(() => previewSize(outputFormat), [outputFormat]);
+  const draftDimensions = useMemo(() => draftSize(outputFormat), [outputFormat]);
+  const lastEditRef = useRef(0);
+
+  // A lone edit renders the full preview straight away. Edits in quick
+  // succession, as from a slider or crop drag, render drafts instead, and
+  // the full preview follows once they pause.
+  useEffect(() => {
+    const renderer = rendererRef.current;
+    if (!loadedSource || !renderer) return;
+    const job = { settings, pipeline, refinement };
+    const now = performance.now();
+    const dragging = now - lastEditRef.current < PREVIEW_IDLE_MS;
+    lastEditRef.current = now;
+    if (!dragging) {
+      renderer.render({ ...job, ...previewDimensions });
+      return;
+    }
+
+    renderer.render({ ...job, ...draftDimensions });
+    const refine = window.setTimeout(
+      () => renderer.render({ ...job, ...previewDimensions }),
+      PREVIEW_IDLE_MS
+    );
+    return () => window.clearTimeout(refine);
+  }, [loadedSource, settings, pipeline, refinement, previewDimensions, draftDimensions]);
+
+  const liveDimensions = useMemo(() => liveSize(outputFormat), [outputFormat]);
+  const live = useLiveInput({
+    renderer: rendererRef,
+    job: { settings, pipeline, ...liveDimensions }
+  });
+  liveRef.current = live;
+
+  const batch = useBatchQueue({
+    renderer: rendererRef,
+    settings,
+    pipeline,
+    format: outputFormat
+  });
+  const { addFiles: addBatchFiles } = batch;
+
+  const openImage = useCallback(
+    async (file: File) => {
+      const image = await ingestImage(file);
+      if (liveRef.current?.isActive) liveRef.current.stop();
+      setSourceImage(image);
+      setSourceFile(file);
+      setPendingRecipe(
+        await readImageRecipe(file).catch((error) => {
+          console.error(error);
+          return null;
+        })
+      );
+      setRefinement(null);
+      setActiveSession(null);
+      // A new photo starts a new timeline that keeps the current look.
+      replace((prev) => {
+        const { settings: current, pipeline: stages } = prev.entries[prev.index].value;
+        return createHistory(
+          {
+            settings: {
+              ...current,
+              focusX: 50,
+              focusY: 50,
+              face: { ...current.face, framing: "auto" }
+            },
+            pipeline: stages
+          },
+          "Open photo"
+        );
+      });
+    },
+    [replace]
+  );
 
   const handleFileSelection = useCallback(
     async (files: FileList | null) => {
       if (!files || files.length === 0) return;
       const [file] = files;
-      if (!file.type.startsWith("image/")) {
+      if (!isImageFile(file)) {
         setStatus({ tone: "error", text: "Please choose a valid image file" });
         return;
       }
 
+      if (files.length > 1) {
+        const queued = addBatchFiles(files);
+        setStatus({
+          tone: "ready",
+          text: `Queued ${queued} portraits for batch processing`
+        });
+      }
+
       try {
-        setStatus({ tone: "processing", text: "Analyzing sculpture proportions" });
-        const image = await createImageElement(file);
-        setSourceImage(image);
+        if (files.length === 1) {
+          setStatus({ tone: "processing", text: "Analyzing sculpture proportions" });
+        }
+        await openImage(file);
       } catch (error) {
         console.error(error);
-        setStatus({ tone: "error", text: "Unable to read the selected image" });
+        setStatus({
+          tone: "error",
+          text: error instanceof Error ? error.message : "Unable to read the selected image"
+        });
       }
     },
-    []
+    [addBatchFiles, openImage]
+  );
+
+  const finishRecording = useCallback(async () => {
+    const recording = await live.stopRecording();
+    if (recording) downloadBlob(recording, "plaster-live.webm");
+  }, [live]);
+
+  const stopLive = useCallback(async () => {
+    if (live.isRecording) await finishRecording();
+    live.stop();
+    setStatus({ tone: "idle", text: "Upload a portrait bust to begin" });
+  }, [live, finishRecording]);
+
+  const startLive = useCallback(
+    async (kind: LiveSourceKind, file?: File) => {
+      setSourceImage(null);
+      setSourceFile(null);
+      setPendingRecipe(null);
+      setActiveSession(null);
+      try {
+        setStatus({ tone: "processing", text: "Starting live input" });
+        await live.start(kind, file);
+        setStatus({ tone: "ready", text: "Live plaster preview" });
+      } catch (error) {
+        console.error(error);
+        live.stop();
+        setStatus({
+          tone: "error",
+          text: error instanceof Error ? error.message : "Unable to start live input"
+        });
+      }
+    },
+    [live]
   );
 
+  // Freezes the current frame into the still workflow, where it can be
+  // framed, refined and exported at full size.
+  const captureLiveStill = useCallback(async () => {
+    try {
+      const still = await live.captureStill();
+      await stopLive();
+      await openImage(new File([still], "live-capture.png", { type: "image/png" }));
+      setStatus({ tone: "processing", text: "Rendering captured still" });
+    } catch (error) {
+      console.error(error);
+      setStatus({
+        tone: "error",
+        text: error instanceof Error ? error.message : "Unable to capture still"
+      });
+    }
+  }, [live, stopLive, openImage]);
+
+  const toggleRecording = useCallback(async () => {
+    try {
+      if (live.isRecording) {
+        await finishRecording();
+        setStatus({ tone: "ready", text: "Live recording saved" });
+      } else {
+        live.startRecording();
+        setStatus({ tone: "processing", text: "Recording live plaster preview" });
+      }
+    } catch (error) {
+      console.error(error);
+      setStatus({
+        tone: "error",
+        text: error instanceof Error ? error.message : "Recording failed"
+      });
+    }
+  }, [live, finishRecording]);
+
+  const activePreset = useMemo(
+    () => presets.find((preset) => preset.id === activePresetId) ?? BUILT_IN_PRESETS[0],
+    [presets, activePresetId]
+  );
+
+  // Presets carry a look, not a framing: keep the focal point chosen for
+  // the current photo.
+  const applyPreset = useCallback(
+    (preset: EffectPreset) => {
+      setActivePresetId(preset.id);
+      commit(
+        (prev) => ({
+          ...prev,
+          settings: {
+            ...preset.settings,
+            focusX: prev.settings.focusX,
+            focusY: prev.settings.focusY,
+            face: { ...preset.settings.face, framing: prev.settings.face.framing }
+          }
+        }),
+        `Apply “${preset.name}”`
+      );
+    },
+    [commit]
+  );
+
+  // Slider drags commit on every tick; the coalesce key folds each drag
+  // into a single history step.
+  const adjustSetting = useCallback(
+    (key: NumericSettingKey, label: string) => (value: number) =>
+      commit(
+        (prev) => ({ ...prev, settings: { ...prev.settings, [key]: value } }),
+        label,
+        { coalesceKey: key }
+      ),
+    [commit]
+  );
+
+  // Like presets, a restored recipe keeps the framing of the current photo.
+  const restoreRecipe = useCallback(() => {
+    if (!pendingRecipe) return;
+    commit(
+      (prev) => ({
+        ...prev,
+        settings: {
+          ...pendingRecipe.settings,
+          focusX: prev.settings.focusX,
+          focusY: prev.settings.focusY,
+          face: { ...pendingRecipe.settings.face, framing: prev.settings.face.framing }
+        }
+      }),
+      "Restore recipe"
+    );
+    setPendingRecipe(null);
+    setStatus({ tone: "ready", text: "Recipe restored from image metadata" });
+  }, [pendingRecipe, commit]);
+
+  // Any manual framing edit takes over from the automatic framing, starting
+  // from where it had put the crop.
+  const reframe = useCallback(
+    (patch: Partial<EffectSettings>, label = "Reframe", coalesceKey = "framing") =>
+      commit(
+        (prev) => ({
+          ...prev,
+          settings: {
+            ...prev.settings,
+            ...framing,
+            ...patch,
+            face: { ...prev.settings.face, framing: "manual" }
+          }
+        }),
+        label,
+        { coalesceKey }
+      ),
+    [commit, framing]
+  );
+
+  const adjustMask = useCallback(
+    (patch: Partial<EffectSettings>) => updateSettings(patch, "Subject mask", "mask"),
+    [updateSettings]
+  );
+
+  const savePreset = useCallback(
+    (name: string) => {
+      const preset: EffectPreset = { id: createPresetId(), name, settings };
+      setPresets((prev) => [...prev, preset]);
+      setActivePresetId(preset.id);
+      setStatus({ tone: "ready", text: `Saved preset “${name}”` });
+    },
+    [settings]
+  );
+
+  const deletePreset = useCallback((preset: EffectPreset) => {
+    setPresets((prev) => prev.filter((item) => item.id !== preset.id));
+    setActivePresetId(BUILT_IN_PRESETS[0].id);
+  }, []);
+
+  const importPresets = useCallback(async (file: File) => {
+    try {
+      const imported = parsePresetFile(await file.text()).map((preset) => ({
+        ...preset,
+        id: createPresetId()
+      }));
+      setPresets((prev) => [...prev, ...imported]);
+      setStatus({
+        tone: "ready",
+        text: `Imported ${imported.length} preset${imported.length === 1 ? "" : "s"}`
+      });
+    } catch (error) {
+      console.error(error);
+      setStatus({
+        tone: "error",
+        text: error instanceof Error ? error.message : "Unable to import presets"
+      });
+    }
+  }, []);
+
+  const exportPresets = useCallback(() => {
+    const blob = new Blob([serializePresets(presets.filter((preset) => !preset.builtIn))], {
+      type: "application/json"
+    });
+    downloadBlob(blob, "plaster-presets.json");
+  }, [presets]);
+
   const reset = useCallback(() => {
     setSourceImage(null);
-    setProcessedPreview(null);
-    setSettings(defaultSettings);
+    setSourceFile(null);
+    setActiveSession(null);
+    setPendingRecipe(null);
+    setPreviewFrame(0);
+    // Resetting is itself a step, so the previous look stays one undo away.
+    commit(() => ({ settings: activePreset.settings, pipeline: DEFAULT_PIPELINE }), "Reset");
+    setRefinement(null);
     setStatus({ tone: "idle", text: "Upload a portrait bust to begin" });
     if (fileInputRef.current) {
       fileInputRef.current.value = "";
     }
-  }, []);
+  }, [activePreset, commit]);
+
+  const filenameValues = useMemo(
+    () => ({
+      name:
+        sourceFile instanceof File
+          ? sourceFile.name.replace(/\.[^.]+$/, "")
+          : activeSession?.name ?? "portrait",
+      preset: activePreset.name,
+      material: settings.material,
+      width: String(outputFormat.width),
+      height: String(outputFormat.height),
+      date: new Date().toISOString().slice(0, 10)
+    }),
+    [sourceFile, activeSession, activePreset, settings.material, outputFormat]
+  );
+
+  const download = useCallback(async (options: ExportOptions) => {
+    const renderer = rendererRef.current;
+    if (!renderer || !loadedSource || !sourceFile) return;
+    setIsExportOpen(false);
+    setExportOptions(options);
+    const fileType = getExportFileType(options.encoding.type);
+
+    setStatus({
+      tone: "processing",
+      text: `Rendering ${outputFormat.width}×${outputFormat.height} still`
+    });
+    try {
+      // The preview runs on a downscaled copy; exports decode the original.
+      const bitmap = await decodeImage(sourceFile);
+      const rendered = await renderer.renderToBlob(
+        bitmap,
+        {
+          settings,
+          pipeline,
+          width: outputFormat.width,
+          height: outputFormat.height,
+          refinement
+        },
+        options.encoding
+      );
+      const tagged = await applyMetadata(rendered, {
+        dpi: outputFormat.dpi,
+        software: APP_SOFTWARE,
+        recipe: options.embedRecipe ? serializeRecipe(settings) : undefined
+      });
+      downloadBlob(
+        tagged,
+        formatFilename(options.filenameTemplate, filenameValues, fileType.extension)
+      );
+      setStatus({ tone: "ready", text: `Macro still exported as ${fileType.label}` });
+    } catch (error) {
+      console.error(error);
+      setStatus({
+        tone: "error",
+        text: error instanceof Error ? error.message : "Export failed"
+      });
+    }
+  }, [loadedSource, sourceFile, settings, pipeline, refinement, outputFormat, filenameValues]);
+
+  const renderClip = useCallback(async () => {
+    const renderer = rendererRef.current;
+    if (!renderer || !loadedSource) return;
+    const problem = validateTimeline(timeline);
+    if (problem) {
+      setStatus({ tone: "error", text: problem });
+      return;
+    }
+    const format = getAnimationFormat(clipFormat);
+    const size = animationSize(outputFormat);
+
+    setClipProgress({ frame: 0, frames: frameCount(timeline) });
+    try {
+      const bitmap = await createImageBitmap(loadedSource);
+      const clip = await renderer.renderAnimation(
+        bitmap,
+        { timeline, pipeline, ...size, refinement, format: format.id },
+        setClipProgress
+      );
+      downloadBlob(
+        clip,
+        formatFilename(
+          exportOptions.filenameTemplate,
+          { ...filenameValues, width: String(size.width), height: String(size.height) },
+          format.extension
+        )
+      );
+      setStatus({ tone: "ready", text: `Clip exported as ${format.label}` });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Clip export failed";
+      if (message === ANIMATION_CANCELLED) {
+        setStatus({ tone: "idle", text: "Clip cancelled" });
+      } else {
+        console.error(error);
+        setStatus({ tone: "error", text: message });
+      }
+    } finally {
+      setClipProgress(null);
+    }
+  }, [
+    loadedSource,
+    timeline,
+    clipFormat,
+    outputFormat,
+    pipeline,
+    refinement,
+    exportOptions.filenameTemplate,
+    filenameValues
+  ]);
+
+  const persistSession = useCallback(
+    async (target: ActiveSession) => {
+      if (!sourceFile) return;
+      const thumbnail = canvasRef.current ? await createThumbnail(canvasRef.current) : null;
+      await saveSession({
+        ...target,
+        image: sourceFile,
+        thumbnail,
+        history: toStoredHistory(history),
+        historyIndex: history.index,
+        outputFormat,
+        refinement,
+        updatedAt: Date.now()
+      });
+      savedStateRef.current = { history, outputFormat, refinement };
+    },
+    [sourceFile, history, outputFormat, refinement]
+  );
+
+  // The open session follows every edit; the delay folds a burst of
+  // changes into one write.
+  useEffect(() => {
+    if (!activeSession) return;
+    const saved = savedStateRef.current;
+    if (
+      saved &&
+      saved.history === history &&
+      saved.outputFormat === outputFormat &&
+      saved.refinement === refinement
+    ) {
+      return;
+    }
+    const timer = window.setTimeout(() => {
+      persistSession(activeSession)
+        .then(refreshSessions)
+        .catch((error) => console.error(error));
+    }, AUTOSAVE_DELAY_MS);
+    return () => window.clearTimeout(timer);
+  }, [activeSession, history, outputFormat, refinement, persistSession, refreshSessions]);
+
+  const saveNewSession = useCallback(
+    async (name: string) => {
+      const target: ActiveSession = { id: createSessionId(), name, createdAt: Date.now() };
+      try {
+        await persistSession(target);
+        setActiveSession(target);
+        await refreshSessions();
+        setStatus({ tone: "ready", text: `Saved session “${name}”` });
+      } catch (error) {
+        console.error(error);
+        setStatus({
+          tone: "error",
+          text: error instanceof Error ? error.message : "Unable to save session"
+        });
+      }
+    },
+    [persistSession, refreshSessions]
+  );
+
+  const openSession = useCallback(
+    async (id: string) => {
+      try {
+        setStatus({ tone: "processing", text: "Restoring session" });
+        const session = await loadSession(id);
+        const image = await ingestImage(session.image);
+        const restored = restoreHistory(session.history, session.historyIndex);
+        savedStateRef.current = {
+          history: restored,
+          outputFormat: session.outputFormat,
+          refinement: session.refinement
+        };
+        replace(restored);
+        setSourceImage(image);
+        setSourceFile(session.image);
+        setOutputFormat(session.outputFormat);
+        setRefinement(session.refinement);
+        setActiveSession({ id: session.id, name: session.name, createdAt: session.createdAt });
+      } catch (error) {
+        console.error(error);
+        setStatus({
+          tone: "error",
+          text: error instanceof Error ? error.message : "Unable to open session"
+        });
+      }
+    },
+    [replace]
+  );
+
+  const removeSession = useCallback(
+    async (id: string) => {
+      try {
+        await deleteSession(id);
+        if (activeSession?.id === id) setActiveSession(null);
+        await refreshSessions();
+      } catch (error) {
+        console.error(error);
+        setStatus({ tone: "error", text: "Unable to delete session" });
+      }
+    },
+    [activeSession, refreshSessions]
+  );
 
-  const download = useCallback(() => {
-    if (!processedPreview) return;
-    const anchor = document.createElement("a");
-    anchor.href = processedPreview;
-    anchor.download = "plaster-bust-macro.png";
-    document.body.appendChild(anchor);
-    anchor.click();
-    document.body.removeChild(anchor);
-  }, [processedPreview]);
+  const copyLookLink = useCallback(async () => {
+    const { origin, pathname, search } = window.location;
+    const url = `${origin}${pathname}${search}#${encodeLookFragment(settings, outputFormat)}`;
+    try {
+      await navigator.clipboard.writeText(url);
+      setStatus({ tone: "ready", text: "Look link copied to clipboard" });
+    } catch (error) {
+      console.error(error);
+      setStatus({ tone: "error", text: "Unable to copy the look link" });
+    }
+  }, [settings, outputFormat]);
+
+  const closeExport = useCallback(() => setIsExportOpen(false), []);
 
   const statusClass = useMemo(() => statusPalette[status.tone], [status]);
 
@@ -177,18 +905,37 @@ export default function Page() {
         <section className="grid gap-6 lg:grid-cols-[2fr_1fr]">
           <div className="panel relative overflow-hidden">
             <div className="absolute inset-0 bg-gradient-to-br from-white/70 via-white/30 to-neutral-200/20" />
-            <div className="relative flex aspect-[3/4] items-center justify-center bg-neutral-100">
-              {processedPreview ? (
-                <NextImage
-                  src={processedPreview}
-                  alt="Plaster macro reinterpretation"
-                  fill
-                  unoptimized
-                  priority
-                  sizes="(max-width: 1024px) 90vw, 50vw"
-                  className="object-cover"
+            {live.isActive ? (
+              <div
+                className="relative bg-neutral-100"
+                style={{ aspectRatio: `${liveDimensions.width} / ${liveDimensions.height}` }}
+              >
+                <canvas ref={live.canvasRef} className="h-full w-full" />
+                {live.isRecording && (
+                  <span className="absolute left-3 top-3 flex items-center gap-2 rounded-full bg-neutral-900/60 px-3 py-1 text-[0.6rem] uppercase tracking-[0.3em] text-white">
+                    <span className="h-2 w-2 animate-pulse rounded-full bg-rose-500" />
+                    Recording
+                  </span>
+                )}
+              </div>
+            ) : previewFrame > 0 && loadedSource ? (
+              <div className="relative bg-neutral-100">
+                <CompareView
+                  mode={compareMode}
+                  original={loadedSource}
+                  processed={canvasRef}
+                  frame={previewFrame}
+                  width={previewDimensions.width}
+                  height={previewDimensions.height}
+                  framing={framing}
+                  onModeChange={setCompareMode}
                 />
-              ) : (
+              </div>
+            ) : (
+              <div
+                className="relative flex items-center justify-center bg-neutral-100"
+                style={{ aspectRatio: `${outputFormat.width} / ${outputFormat.height}` }}
+              >
                 <div className="flex h-full w-full flex-col items-center justify-center gap-4 px-6 text-center text-neutral-500">
                   <span className="text-sm uppercase tracking-[0.4em]">Awaiting Portrait</span>
                   <p className="max-w-sm text-sm">
@@ -197,15 +944,15 @@ export default function Page() {
                     smooth plaster texture, and sculptural lighting.
                   </p>
                 </div>
-              )}
-            </div>
+              </div>
+            )}
           </div>
 
           <aside className="panel flex flex-col gap-6 p-6">
             <div className="flex flex-col gap-4">
               <div className="flex items-center justify-between">
                 <span className="control-label">Input Photo</span>
-                {processedPreview && (
+                {previewFrame > 0 && (
                   <button
                     className="text-xs font-semibold uppercase tracking-[0.3em] text-neutral-500 transition-colors hover:text-neutral-800"
                     onClick={reset}
@@ -228,7 +975,8 @@ export default function Page() {
                 <input
                   ref={fileInputRef}
                   type="file"
-                  accept="image/*"
+                  accept="image/*,.heic,.heif"
+                  multiple
                   className="hidden"
                   onChange={(event) => handleFileSelection(event.target.files)}
                 />
@@ -239,97 +987,269 @@ export default function Page() {
                   High-resolution, front-facing busts work best
                 </span>
               </label>
+              {pendingRecipe && (
+                <RecipeBanner
+                  recipe={pendingRecipe}
+                  onRestore={restoreRecipe}
+                  onDismiss={() => setPendingRecipe(null)}
+                />
+              )}
+              {sourceImage && (
+                <CropEditor
+                  src={sourceImage.src}
+                  sourceWidth={sourceImage.naturalWidth}
+                  sourceHeight={sourceImage.naturalHeight}
+                  aspectRatio={outputFormat.width / outputFormat.height}
+                  framing={framing}
+                  onChange={reframe}
+                />
+              )}
             </div>
 
             <div className="flex flex-col gap-3">
               <span className={`text-xs font-semibold uppercase tracking-[0.3em] ${statusClass}`}>
-                {isProcessing ? "Rendering macro sculpt" : status.text}
+                {clipProgress
+                  ? `Rendering clip · ${clipProgress.frame} / ${clipProgress.frames} frames`
+                  : isProcessing && !live.isActive
+                    ? "Rendering macro sculpt"
+                    : status.text}
               </span>
-              {processedPreview && (
+              {clipProgress && (
+                <div className="flex items-center gap-3">
+                  <div className="h-1.5 flex-1 overflow-hidden rounded-full bg-neutral-200">
+                    <div
+                      className="h-full rounded-full bg-neutral-800 transition-[width]"
+                      style={{
+                        width: `${(clipProgress.frame / clipProgress.frames) * 100}%`
+                      }}
+                    />
+                  </div>
+                  <button
+                    onClick={() => rendererRef.current?.cancelAnimation()}
+                    className="text-xs font-semibold uppercase tracking-[0.3em] text-neutral-500 transition-colors hover:text-neutral-800"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              )}
+              {backend && (
+                <span className="text-[0.65rem] uppercase tracking-[0.3em] text-neutral-400">
+                  {backendLabels[backend]}
+                </span>
+              )}
+              {previewFrame > 0 && (
                 <button
-                  onClick={download}
+                  onClick={() => setIsExportOpen(true)}
                   className="rounded-full bg-neutral-900 px-5 py-2 text-sm font-medium text-white shadow-lg shadow-neutral-900/20 transition hover:bg-neutral-700"
                 >
                   Download Macro Still
                 </button>
               )}
+              <button
+                onClick={copyLookLink}
+                className="text-xs font-semibold uppercase tracking-[0.3em] text-neutral-500 transition-colors hover:text-neutral-800"
+              >
+                Copy Look Link
+              </button>
             </div>
 
+            <LiveControls
+              source={live.source}
+              isRecording={live.isRecording}
+              onStart={startLive}
+              onStop={stopLive}
+              onCapture={captureLiveStill}
+              onToggleRecording={toggleRecording}
+            />
+
+            <OutputFormatPicker format={outputFormat} onChange={setOutputFormat} />
+
+            <HistoryPanel
+              history={history}
+              canUndo={canUndo}
+              canRedo={canRedo}
+              onUndo={undo}
+              onRedo={redo}
+              onJump={jumpTo}
+            />
+
+            <SessionManager
+              sessions={sessions}
+              activeSessionId={activeSession?.id ?? null}
+              canSave={sourceFile !== null}
+              onSave={saveNewSession}
+              onOpen={openSession}
+              onDelete={removeSession}
+            />
+
+            <PresetLibrary
+              presets={presets}
+              activePresetId={activePresetId}
+              onSelect={applyPreset}
+              onSave={savePreset}
+              onDelete={deletePreset}
+              onImport={importPresets}
+              onExport={exportPresets}
+            />
+
+            <MaterialPicker
+              value={settings.material}
+              onChange={(material) => updateSettings({ material }, "Material")}
+            />
+
+            <TextureControls
+              texture={settings.texture}
+              onChange={(texture, label, coalesceKey) =>
+                updateSettings({ texture }, label, coalesceKey)
+              }
+            />
+
+            <LightingControls
+              mode={settings.lighting}
+              lights={settings.lights}
+              onModeChange={(lighting) => updateSettings({ lighting }, "Lighting mode")}
+              onLightsChange={(lights) => updateSettings({ lights }, "Move lights", "lights")}
+            />
+
+            <PedestalControls
+              pedestal={settings.pedestal}
+              onChange={(pedestal, label, coalesceKey) =>
+                updateSettings({ pedestal }, label, coalesceKey)
+              }
+            />
+
+            <SubjectMaskControls
+              src={sourceImage?.src ?? null}
+              sourceWidth={sourceImage?.naturalWidth ?? 1}
+              sourceHeight={sourceImage?.naturalHeight ?? 1}
+              mask={settings}
+              refinement={refinement}
+              onMaskChange={adjustMask}
+              onRefinementChange={setRefinement}
+            />
+
             <div className="grid grid-cols-1 gap-4">
               <SliderControl
                 label="Macro Depth"
-                min={0}
-                max={100}
+                {...SETTING_RANGES.depth}
                 value={settings.depth}
-                onChange={(value) => setSettings((prev) => ({ ...prev, depth: value }))}
+                onChange={adjustSetting("depth", "Macro Depth")}
               />
               <SliderControl
                 label="Luminosity Bias"
-                min={-50}
-                max={50}
+                {...SETTING_RANGES.luminosity}
                 value={settings.luminosity}
-                onChange={(value) => setSettings((prev) => ({ ...prev, luminosity: value }))}
+                onChange={adjustSetting("luminosity", "Luminosity Bias")}
               />
               <SliderControl
                 label="Sculpted Highlights"
-                min={0}
-                max={100}
+                {...SETTING_RANGES.sheen}
                 value={settings.sheen}
-                onChange={(value) => setSettings((prev) => ({ ...prev, sheen: value }))}
+                onChange={adjustSetting("sheen", "Sculpted Highlights")}
               />
               <SliderControl
                 label="Matte Shadows"
-                min={0}
-                max={100}
+                {...SETTING_RANGES.matte}
                 value={settings.matte}
-                onChange={(value) => setSettings((prev) => ({ ...prev, matte: value }))}
+                onChange={adjustSetting("matte", "Matte Shadows")}
               />
-              <SliderControl
-                label="Surface Smoothness"
-                min={0}
-                max={100}
-                value={settings.smoothness}
-                onChange={(value) => setSettings((prev) => ({ ...prev, smoothness: value }))}
+              <SmoothingControls
+                smoothing={settings.smoothing}
+                onChange={(smoothing, label, coalesceKey) =>
+                  updateSettings({ smoothing }, label, coalesceKey)
+                }
               />
               <SliderControl
                 label="Micro Detail"
-                min={0}
-                max={100}
+                {...SETTING_RANGES.microDetail}
                 value={settings.microDetail}
-                onChange={(value) => setSettings((prev) => ({ ...prev, microDetail: value }))}
+                onChange={adjustSetting("microDetail", "Micro Detail")}
               />
               <SliderControl
                 label="Background Lift"
-                min={0}
-                max={100}
+                {...SETTING_RANGES.backgroundLift}
                 value={settings.backgroundLift}
-                onChange={(value) => setSettings((prev) => ({ ...prev, backgroundLift: value }))}
+                onChange={adjustSetting("backgroundLift", "Background Lift")}
               />
               <SliderControl
                 label="Macro Zoom"
-                min={0}
-                max={40}
-                value={settings.macroZoom}
-                onChange={(value) => setSettings((prev) => ({ ...prev, macroZoom: value }))}
-              />
-              <SliderControl
-                label="Stand Elevation"
-                min={10}
-                max={40}
-                value={settings.standHeight}
-                onChange={(value) => setSettings((prev) => ({ ...prev, standHeight: value }))}
+                {...SETTING_RANGES.macroZoom}
+                value={framing.macroZoom}
+                onChange={(macroZoom) => reframe({ macroZoom }, "Macro Zoom", "macroZoom")}
               />
               <SliderControl
                 label="Vignette Ease"
-                min={0}
-                max={60}
+                {...SETTING_RANGES.vignette}
                 value={settings.vignette}
-                onChange={(value) => setSettings((prev) => ({ ...prev, vignette: value }))}
+                onChange={adjustSetting("vignette", "Vignette Ease")}
               />
             </div>
+
+            <ToneCurveEditor
+              curve={settings.toneCurve}
+              histogram={histogram}
+              onChange={(toneCurve, label, coalesceKey) =>
+                updateSettings({ toneCurve }, label, coalesceKey)
+              }
+            />
+
+            <FaceControls
+              face={settings.face}
+              detected={settings.face.mode === "auto" ? detectedFace : null}
+              onChange={(face, label, coalesceKey) =>
+                updateSettings({ face }, label, coalesceKey)
+              }
+            />
+
+            <LocalToneControls
+              localTone={settings.localTone}
+              onChange={(localTone, label, coalesceKey) =>
+                updateSettings({ localTone }, label, coalesceKey)
+              }
+            />
+
+            <StageList
+              pipeline={pipeline}
+              onChange={(next) => commit((prev) => ({ ...prev, pipeline: next }), "Edit stages")}
+            />
+
+            {loadedSource && (
+              <TimelineEditor
+                timeline={timeline}
+                settings={settings}
+                format={clipFormat}
+                rendering={clipProgress !== null}
+                onChange={setTimeline}
+                onFormatChange={setClipFormat}
+                onRender={renderClip}
+              />
+            )}
           </aside>
         </section>
+
+        <BatchQueue
+          items={batch.items}
+          isRunning={batch.isRunning}
+          isLookCurrent={batch.isLookCurrent}
+          onAdd={batch.addFiles}
+          onRemove={batch.removeItem}
+          onAdoptLook={batch.adoptCurrentLook}
+          onPinOverrides={batch.pinOverrides}
+          onClearOverrides={batch.clearOverrides}
+          onProcess={batch.process}
+          onDownloadAll={batch.downloadAll}
+          onClear={batch.clear}
+        />
       </div>
+      {isExportOpen && (
+        <ExportDialog
+          options={exportOptions}
+          format={outputFormat}
+          filenameValues={filenameValues}
+          onCancel={closeExport}
+          onExport={download}
+        />
+      )}
       <canvas ref={canvasRef} className="hidden" />
     </main>
   );
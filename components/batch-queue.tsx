@@ -0,0 +1,166 @@
+"use client";
+
+import { useRef } from "react";
+import type { BatchItem, BatchStatus } from "../hooks/use-batch-queue";
+
+interface BatchQueueProps {
+  items: readonly BatchItem[];
+  isRunning: boolean;
+  isLookCurrent: boolean;
+  onAdd: (files: FileList) => void;
+  onRemove: (id: string) => void;
+  onAdoptLook: () => void;
+  onPinOverrides: (id: string) => void;
+  onClearOverrides: (id: string) => void;
+  onProcess: () => void;
+  onDownloadAll: () => void;
+  onClear: () => void;
+}
+
+const statusLabels: Record<BatchStatus, string> = {
+  queued: "Queued",
+  processing: "Sculpting",
+  done: "Ready",
+  error: "Failed"
+};
+
+const statusClasses: Record<BatchStatus, string> = {
+  queued: "bg-white/80 text-neutral-500",
+  processing: "bg-neutral-900 text-white",
+  done: "bg-emerald-600 text-white",
+  error: "bg-rose-500 text-white"
+};
+
+const linkButtonClass =
+  "text-xs font-semibold uppercase tracking-[0.3em] text-neutral-500 transition-colors hover:text-neutral-800 disabled:opacity-40";
+
+export function BatchQueue({
+  items,
+  isRunning,
+  isLookCurrent,
+  onAdd,
+  onRemove,
+  onAdoptLook,
+  onPinOverrides,
+  onClearOverrides,
+  onProcess,
+  onDownloadAll,
+  onClear
+}: BatchQueueProps) {
+  const inputRef = useRef<HTMLInputElement | null>(null);
+  const finished = items.filter((item) => item.status === "done").length;
+
+  return (
+    <section className="panel flex flex-col gap-6 p-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex flex-col gap-1">
+          <span className="control-label">Batch Queue</span>
+          <span className="text-xs text-neutral-500">
+            {items.length === 0
+              ? "Drop several portraits to sculpt a whole shoot with the current look"
+              : `${finished} of ${items.length} rendered${
+                  isLookCurrent ? "" : " · the sliders differ from the batch look"
+                }`}
+          </span>
+        </div>
+        <div className="flex flex-wrap items-center gap-4">
+          <button className={linkButtonClass} onClick={() => inputRef.current?.click()}>
+            Add Images
+          </button>
+          <button
+            className={linkButtonClass}
+            disabled={isRunning || isLookCurrent || items.length === 0}
+            title="Make the current sliders the look for the whole queue"
+            onClick={onAdoptLook}
+          >
+            Use Current Look
+          </button>
+          <button
+            className={linkButtonClass}
+            disabled={isRunning || items.length === 0}
+            onClick={onClear}
+          >
+            Clear
+          </button>
+          <button
+            className="rounded-full bg-neutral-900 px-5 py-2 text-sm font-medium text-white shadow-lg shadow-neutral-900/20 transition hover:bg-neutral-700 disabled:opacity-40"
+            disabled={isRunning || items.length === 0}
+            onClick={onProcess}
+          >
+            {isRunning ? "Processing…" : "Process Queue"}
+          </button>
+          <button
+            className="rounded-full border border-neutral-300 px-5 py-2 text-sm font-medium text-neutral-700 transition hover:border-neutral-500 disabled:opacity-40"
+            disabled={isRunning || finished === 0}
+            onClick={onDownloadAll}
+          >
+            Download All (.zip)
+          </button>
+        </div>
+        <input
+          ref={inputRef}
+          type="file"
+          accept="image/*,.heic,.heif"
+          multiple
+          className="hidden"
+          onChange={(event) => {
+            if (event.target.files) onAdd(event.target.files);
+            event.target.value = "";
+          }}
+        />
+      </div>
+
+      {items.length > 0 && (
+        <ul className="grid grid-cols-2 gap-4 sm:grid-cols-4 lg:grid-cols-6">
+          {items.map((item) => (
+            <li key={item.id} className="flex flex-col gap-2">
+              <div className="relative aspect-[3/4] overflow-hidden rounded-2xl bg-neutral-100">
+                {/* eslint-disable-next-line @next/next/no-img-element */}
+                <img
+                  src={item.resultUrl ?? item.thumbnailUrl}
+                  alt={item.file.name}
+                  className={`h-full w-full object-cover ${
+                    item.status === "processing" ? "animate-pulse opacity-60" : ""
+                  }`}
+                />
+                <span
+                  className={`absolute left-2 top-2 rounded-full px-2 py-0.5 text-[0.6rem] font-semibold uppercase tracking-[0.2em] ${statusClasses[item.status]}`}
+                >
+                  {statusLabels[item.status]}
+                </span>
+                {item.overrides && (
+                  <span className="absolute right-2 top-2 rounded-full bg-white/80 px-2 py-0.5 text-[0.6rem] font-semibold uppercase tracking-[0.2em] text-neutral-600">
+                    Pinned
+                  </span>
+                )}
+              </div>
+              <span className="truncate text-xs text-neutral-600" title={item.file.name}>
+                {item.file.name}
+              </span>
+              {item.error && <span className="text-xs text-rose-500">{item.error}</span>}
+              <div className="flex gap-3">
+                <button
+                  className="text-[0.65rem] uppercase tracking-[0.2em] text-neutral-500 hover:text-neutral-800 disabled:opacity-40"
+                  disabled={isRunning || (!item.overrides && isLookCurrent)}
+                  title="Render this image with the sliders that differ from the batch look"
+                  onClick={() =>
+                    item.overrides ? onClearOverrides(item.id) : onPinOverrides(item.id)
+                  }
+                >
+                  {item.overrides ? "Use Shared" : "Pin Look"}
+                </button>
+                <button
+                  className="text-[0.65rem] uppercase tracking-[0.2em] text-neutral-500 hover:text-rose-500 disabled:opacity-40"
+                  disabled={isRunning}
+                  onClick={() => onRemove(item.id)}
+                >
+                  Remove
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
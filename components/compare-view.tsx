@@ -0,0 +1,241 @@
+"use client";
+
+import { type ReactNode, type RefObject, useEffect, useRef, useState } from "react";
+import { cropToAspect } from "../utils/crop";
+import { clamp } from "../utils/image-filters";
+import type { EffectSettings } from "../utils/plaster-effect";
+
+export type CompareMode = "off" | "wipe" | "split" | "hold";
+
+export const COMPARE_MODES: readonly CompareMode[] = ["off", "wipe", "split", "hold"];
+
+type FramingSettings = Pick<EffectSettings, "macroZoom" | "focusX" | "focusY">;
+
+interface CompareViewProps {
+  mode: CompareMode;
+  original: HTMLImageElement;
+  processed: RefObject<HTMLCanvasElement | null>; // holds the latest rendered frame
+  frame: number; // changes whenever a new frame is drawn there
+  width: number;
+  height: number;
+  framing: FramingSettings;
+  onModeChange: (mode: CompareMode) => void;
+}
+
+const modeLabels: Record<CompareMode, string> = {
+  off: "Result",
+  wipe: "Wipe",
+  split: "Side by Side",
+  hold: "Hold"
+};
+
+const badgeClass =
+  "pointer-events-none absolute bottom-3 rounded-full bg-neutral-900/60 px-3 py-1 text-[0.6rem] uppercase tracking-[0.3em] text-white";
+
+// Draws the source through the same crop the pipeline's crop stage uses,
+// at the preview's size, so both sides line up pixel for pixel.
+function CroppedOriginal({
+  original,
+  width,
+  height,
+  framing,
+  className
+}: Pick<CompareViewProps, "original" | "width" | "height" | "framing"> & {
+  className?: string;
+}) {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const { macroZoom, focusX, focusY } = framing;
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext("2d");
+    if (!canvas || !context) return;
+    canvas.width = width;
+    canvas.height = height;
+    const { offsetX, offsetY, cropWidth, cropHeight } = cropToAspect(
+      original.naturalWidth,
+      original.naturalHeight,
+      width / height,
+      macroZoom,
+      focusX / 100,
+      focusY / 100
+    );
+    context.imageSmoothingEnabled = true;
+    context.imageSmoothingQuality = "high";
+    context.drawImage(original, offsetX, offsetY, cropWidth, cropHeight, 0, 0, width, height);
+  }, [original, width, height, macroZoom, focusX, focusY]);
+
+  return <canvas ref={canvasRef} className={`h-full w-full ${className ?? ""}`} />;
+}
+
+interface FrameProps {
+  width: number;
+  height: number;
+  children: ReactNode;
+}
+
+function Frame({ width, height, children }: FrameProps) {
+  return (
+    <div
+      className="relative w-full overflow-hidden"
+      style={{ aspectRatio: `${width} / ${height}` }}
+    >
+      {children}
+    </div>
+  );
+}
+
+// Copies the rendered frame onto a visible canvas, stretched to fill, so a
+// draft shows at the preview's size until the full render replaces it.
+function Processed({ processed, frame }: Pick<CompareViewProps, "processed" | "frame">) {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+
+  useEffect(() => {
+    const source = processed.current;
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext("2d");
+    if (!source || !canvas || !context) return;
+    if (canvas.width !== source.width || canvas.height !== source.height) {
+      canvas.width = source.width;
+      canvas.height = source.height;
+    }
+    context.clearRect(0, 0, canvas.width, canvas.height);
+    context.drawImage(source, 0, 0);
+  }, [processed, frame]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      role="img"
+      aria-label="Plaster macro reinterpretation"
+      className="absolute inset-0 h-full w-full"
+    />
+  );
+}
+
+export function CompareView({
+  mode,
+  original,
+  processed,
+  frame,
+  width,
+  height,
+  framing,
+  onModeChange
+}: CompareViewProps) {
+  const [wipe, setWipe] = useState(50);
+  const [holding, setHolding] = useState(false);
+  const wiping = useRef(false);
+  const originalProps = { original, width, height, framing };
+  const processedProps = { processed, frame };
+
+  const moveWipe = (element: HTMLElement, clientX: number) => {
+    const bounds = element.getBoundingClientRect();
+    setWipe(clamp(((clientX - bounds.left) / bounds.width) * 100, 0, 100));
+  };
+
+  let view: ReactNode;
+  if (mode === "split") {
+    view = (
+      <div className="grid grid-cols-2 gap-1 bg-neutral-100">
+        <Frame width={width} height={height}>
+          <CroppedOriginal {...originalProps} />
+          <span className={`${badgeClass} left-3`}>Original</span>
+        </Frame>
+        <Frame width={width} height={height}>
+          <Processed {...processedProps} />
+          <span className={`${badgeClass} right-3`}>Plaster</span>
+        </Frame>
+      </div>
+    );
+  } else if (mode === "wipe") {
+    view = (
+      <div
+        className="cursor-ew-resize touch-none select-none"
+        onPointerDown={(event) => {
+          wiping.current = true;
+          event.currentTarget.setPointerCapture(event.pointerId);
+          moveWipe(event.currentTarget, event.clientX);
+        }}
+        onPointerMove={(event) => {
+          if (wiping.current) moveWipe(event.currentTarget, event.clientX);
+        }}
+        onPointerUp={() => {
+          wiping.current = false;
+        }}
+        onPointerCancel={() => {
+          wiping.current = false;
+        }}
+      >
+        <Frame width={width} height={height}>
+          <Processed {...processedProps} />
+          {/* Clipping rather than resizing keeps the original's pixels in place. */}
+          <div
+            className="pointer-events-none absolute inset-0"
+            style={{ clipPath: `inset(0 ${100 - wipe}% 0 0)` }}
+          >
+            <CroppedOriginal {...originalProps} />
+          </div>
+          <div
+            role="slider"
+            tabIndex={0}
+            aria-label="Comparison position"
+            aria-valuemin={0}
+            aria-valuemax={100}
+            aria-valuenow={Math.round(wipe)}
+            className="absolute inset-y-0 w-0.5 -translate-x-1/2 bg-white shadow-[0_0_0_1px_rgba(23,23,23,0.3)] outline-none"
+            style={{ left: `${wipe}%` }}
+            onKeyDown={(event) => {
+              if (event.key === "ArrowLeft") setWipe((prev) => clamp(prev - 2, 0, 100));
+              if (event.key === "ArrowRight") setWipe((prev) => clamp(prev + 2, 0, 100));
+            }}
+          >
+            <span className="absolute left-1/2 top-1/2 h-8 w-8 -translate-x-1/2 -translate-y-1/2 rounded-full border-2 border-white bg-neutral-900/50" />
+          </div>
+          <span className={`${badgeClass} left-3`}>Original</span>
+          <span className={`${badgeClass} right-3`}>Plaster</span>
+        </Frame>
+      </div>
+    );
+  } else {
+    const showOriginal = mode === "hold" && holding;
+    view = (
+      <div
+        className={mode === "hold" ? "cursor-pointer touch-none select-none" : undefined}
+        onPointerDown={() => setHolding(true)}
+        onPointerUp={() => setHolding(false)}
+        onPointerLeave={() => setHolding(false)}
+        onPointerCancel={() => setHolding(false)}
+      >
+        <Frame width={width} height={height}>
+          <Processed {...processedProps} />
+          {showOriginal && <CroppedOriginal {...originalProps} className="absolute inset-0" />}
+          {mode === "hold" && (
+            <span className={`${badgeClass} left-3`}>
+              {showOriginal ? "Original" : "Hold to compare"}
+            </span>
+          )}
+        </Frame>
+      </div>
+    );
+  }
+
+  return (
+    <div className="relative flex flex-col">
+      {view}
+      <div className="absolute right-3 top-3 flex gap-1 rounded-full bg-white/80 p-1 shadow-sm backdrop-blur">
+        {COMPARE_MODES.map((option) => (
+          <button
+            key={option}
+            className={`rounded-full px-3 py-1 text-[0.6rem] font-semibold uppercase tracking-[0.2em] transition-colors ${
+              mode === option ? "bg-neutral-900 text-white" : "text-neutral-500 hover:text-neutral-800"
+            }`}
+            onClick={() => onModeChange(option)}
+          >
+            {modeLabels[option]}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,185 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import { cropToAspect } from "../utils/crop";
+import { clamp } from "../utils/image-filters";
+import type { EffectSettings } from "../utils/plaster-effect";
+import { SETTING_RANGES } from "../utils/settings-schema";
+
+type FramingSettings = Pick<EffectSettings, "macroZoom" | "focusX" | "focusY">;
+
+interface CropEditorProps {
+  src: string;
+  sourceWidth: number;
+  sourceHeight: number;
+  aspectRatio: number;
+  framing: FramingSettings;
+  onChange: (patch: Partial<FramingSettings>) => void;
+}
+
+interface Gesture {
+  pointerX: number;
+  pointerY: number;
+  focusX: number;
+  focusY: number;
+  zoom: number;
+  spread: number;
+  moved: boolean;
+}
+
+// Pointer travel below this many pixels counts as a tap (set focal point).
+const TAP_SLOP = 4;
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+const clampZoom = (macroZoom: number) =>
+  Math.round(clamp(macroZoom, SETTING_RANGES.macroZoom.min, SETTING_RANGES.macroZoom.max));
+
+export function CropEditor({
+  src,
+  sourceWidth,
+  sourceHeight,
+  aspectRatio,
+  framing,
+  onChange
+}: CropEditorProps) {
+  const frameRef = useRef<HTMLDivElement | null>(null);
+  const pointers = useRef(new Map<number, { x: number; y: number }>());
+  const gesture = useRef<Gesture | null>(null);
+  const framingRef = useRef(framing);
+  framingRef.current = framing;
+
+  const crop = cropToAspect(
+    sourceWidth,
+    sourceHeight,
+    aspectRatio,
+    framing.macroZoom,
+    framing.focusX / 100,
+    framing.focusY / 100
+  );
+
+  const pointerSpread = () => {
+    const [a, b] = Array.from(pointers.current.values());
+    return a && b ? Math.hypot(a.x - b.x, a.y - b.y) : 0;
+  };
+
+  const startGesture = (x: number, y: number) => {
+    const { macroZoom } = framingRef.current;
+    // Start from where the crop actually sits, so a focal point pinned
+    // against an edge does not make the first part of a drag feel dead.
+    gesture.current = {
+      pointerX: x,
+      pointerY: y,
+      focusX: ((crop.offsetX + crop.cropWidth / 2) / sourceWidth) * 100,
+      focusY: ((crop.offsetY + crop.cropHeight / 2) / sourceHeight) * 100,
+      zoom: 1 + macroZoom / 100,
+      spread: pointerSpread(),
+      moved: false
+    };
+  };
+
+  // React registers wheel listeners as passive, which would stop us from
+  // keeping the page still while zooming.
+  useEffect(() => {
+    const frame = frameRef.current;
+    if (!frame) return;
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      const { macroZoom } = framingRef.current;
+      onChange({ macroZoom: clampZoom(macroZoom - event.deltaY / 40) });
+    };
+    frame.addEventListener("wheel", handleWheel, { passive: false });
+    return () => frame.removeEventListener("wheel", handleWheel);
+  }, [onChange]);
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div
+        ref={frameRef}
+        className="relative w-full cursor-move touch-none select-none overflow-hidden rounded-2xl bg-neutral-200"
+        style={{ aspectRatio: `${sourceWidth} / ${sourceHeight}` }}
+        onPointerDown={(event) => {
+          event.currentTarget.setPointerCapture(event.pointerId);
+          pointers.current.set(event.pointerId, { x: event.clientX, y: event.clientY });
+          startGesture(event.clientX, event.clientY);
+        }}
+        onPointerMove={(event) => {
+          const current = gesture.current;
+          if (!current || !pointers.current.has(event.pointerId)) return;
+          pointers.current.set(event.pointerId, { x: event.clientX, y: event.clientY });
+          const bounds = event.currentTarget.getBoundingClientRect();
+
+          if (pointers.current.size >= 2) {
+            current.moved = true;
+            if (current.spread > 0) {
+              const zoom = current.zoom * (pointerSpread() / current.spread);
+              onChange({ macroZoom: clampZoom((zoom - 1) * 100) });
+            }
+            return;
+          }
+
+          const dx = event.clientX - current.pointerX;
+          const dy = event.clientY - current.pointerY;
+          if (!current.moved && Math.hypot(dx, dy) < TAP_SLOP) return;
+          current.moved = true;
+          onChange({
+            focusX: round(clamp(current.focusX + (dx / bounds.width) * 100, 0, 100)),
+            focusY: round(clamp(current.focusY + (dy / bounds.height) * 100, 0, 100))
+          });
+        }}
+        onPointerUp={(event) => {
+          const current = gesture.current;
+          pointers.current.delete(event.pointerId);
+          if (current && !current.moved && pointers.current.size === 0) {
+            const bounds = event.currentTarget.getBoundingClientRect();
+            onChange({
+              focusX: round(clamp(((event.clientX - bounds.left) / bounds.width) * 100, 0, 100)),
+              focusY: round(clamp(((event.clientY - bounds.top) / bounds.height) * 100, 0, 100))
+            });
+          }
+          const remaining = Array.from(pointers.current.values())[0];
+          if (remaining) {
+            startGesture(remaining.x, remaining.y);
+            gesture.current!.moved = true;
+          } else {
+            gesture.current = null;
+          }
+        }}
+        onPointerCancel={(event) => {
+          pointers.current.delete(event.pointerId);
+          if (pointers.current.size === 0) gesture.current = null;
+        }}
+      >
+        {/* eslint-disable-next-line @next/next/no-img-element */}
+        <img
+          src={src}
+          alt="Framing source"
+          draggable={false}
+          className="pointer-events-none h-full w-full object-fill"
+        />
+        <div
+          className="pointer-events-none absolute rounded-sm border border-white shadow-[0_0_0_9999px_rgba(23,23,23,0.45)]"
+          style={{
+            left: `${(crop.offsetX / sourceWidth) * 100}%`,
+            top: `${(crop.offsetY / sourceHeight) * 100}%`,
+            width: `${(crop.cropWidth / sourceWidth) * 100}%`,
+            height: `${(crop.cropHeight / sourceHeight) * 100}%`
+          }}
+        />
+        <span
+          className="pointer-events-none absolute h-3 w-3 -translate-x-1/2 -translate-y-1/2 rounded-full border-2 border-white bg-neutral-900/60"
+          style={{ left: `${framing.focusX}%`, top: `${framing.focusY}%` }}
+        />
+      </div>
+      <div className="flex items-center justify-between text-[0.65rem] uppercase tracking-[0.2em] text-neutral-500">
+        <span>Drag to pan · scroll or pinch to zoom · tap to set focus</span>
+        <button
+          className="font-semibold transition-colors hover:text-neutral-800"
+          onClick={() => onChange({ focusX: 50, focusY: 50 })}
+        >
+          Recenter
+        </button>
+      </div>
+    </div>
+  );
+}
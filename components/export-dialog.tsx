@@ -0,0 +1,151 @@
+"use client";
+
+import { useEffect, useId, useState } from "react";
+import {
+  EXPORT_FILE_TYPES,
+  type ExportFileType,
+  type ExportOptions,
+  FILENAME_TOKENS,
+  type FilenameToken,
+  formatFilename,
+  getExportFileType
+} from "../utils/export-encoding";
+import type { OutputFormat } from "../utils/output-format";
+import { SliderControl } from "./slider-control";
+
+interface ExportDialogProps {
+  options: ExportOptions;
+  format: OutputFormat;
+  filenameValues: Record<FilenameToken, string>;
+  onCancel: () => void;
+  onExport: (options: ExportOptions) => void;
+}
+
+const inputClass =
+  "rounded-xl border border-neutral-200 bg-white/70 px-3 py-2 text-sm text-neutral-700";
+
+export function ExportDialog({
+  options,
+  format,
+  filenameValues,
+  onCancel,
+  onExport
+}: ExportDialogProps) {
+  const id = useId();
+  const [draft, setDraft] = useState(options);
+  const fileType = getExportFileType(draft.encoding.type);
+
+  useEffect(() => {
+    const handleKey = (event: KeyboardEvent) => {
+      if (event.key === "Escape") onCancel();
+    };
+    window.addEventListener("keydown", handleKey);
+    return () => window.removeEventListener("keydown", handleKey);
+  }, [onCancel]);
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-neutral-900/40 px-4"
+      onClick={onCancel}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby={`${id}-title`}
+        className="panel flex w-full max-w-md flex-col gap-5 p-6"
+        onClick={(event) => event.stopPropagation()}
+      >
+        <div className="flex flex-col gap-1">
+          <h2 id={`${id}-title`} className="font-display text-xl font-semibold text-neutral-900">
+            Export Still
+          </h2>
+          <span className="text-xs text-neutral-500">
+            {format.width}×{format.height} px at {format.dpi} dpi
+          </span>
+        </div>
+
+        <div className="flex flex-col gap-2">
+          <label className="control-label" htmlFor={`${id}-type`}>
+            File Type
+          </label>
+          <select
+            id={`${id}-type`}
+            className={inputClass}
+            value={draft.encoding.type}
+            onChange={(event) =>
+              setDraft((prev) => ({
+                ...prev,
+                encoding: { ...prev.encoding, type: event.target.value as ExportFileType }
+              }))
+            }
+          >
+            {EXPORT_FILE_TYPES.map((type) => (
+              <option key={type.id} value={type.id}>
+                {type.label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {fileType.lossy && (
+          <SliderControl
+            label="Quality"
+            min={40}
+            max={100}
+            value={draft.encoding.quality}
+            onChange={(quality) =>
+              setDraft((prev) => ({ ...prev, encoding: { ...prev.encoding, quality } }))
+            }
+          />
+        )}
+
+        <div className="flex flex-col gap-2">
+          <label className="control-label" htmlFor={`${id}-name`}>
+            Filename
+          </label>
+          <input
+            id={`${id}-name`}
+            className={inputClass}
+            value={draft.filenameTemplate}
+            onChange={(event) =>
+              setDraft((prev) => ({ ...prev, filenameTemplate: event.target.value }))
+            }
+          />
+          <span className="text-[0.65rem] text-neutral-500">
+            Tokens: {FILENAME_TOKENS.map((token) => `{${token}}`).join(" ")}
+          </span>
+          <span className="truncate text-xs text-neutral-700">
+            {formatFilename(draft.filenameTemplate, filenameValues, fileType.extension)}
+          </span>
+        </div>
+
+        <label className="flex items-center gap-3 text-sm text-neutral-700">
+          <input
+            type="checkbox"
+            className="accent-neutral-800"
+            checked={draft.embedRecipe}
+            onChange={(event) =>
+              setDraft((prev) => ({ ...prev, embedRecipe: event.target.checked }))
+            }
+          />
+          Embed the recipe so the look can be restored from the file
+        </label>
+
+        <div className="flex justify-end gap-3">
+          <button
+            className="text-xs font-semibold uppercase tracking-[0.3em] text-neutral-500 transition-colors hover:text-neutral-800"
+            onClick={onCancel}
+          >
+            Cancel
+          </button>
+          <button
+            className="rounded-full bg-neutral-900 px-5 py-2 text-sm font-medium text-white shadow-lg shadow-neutral-900/20 transition hover:bg-neutral-700"
+            onClick={() => onExport(draft)}
+          >
+            Export
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
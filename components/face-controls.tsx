@@ -0,0 +1,125 @@
+"use client";
+
+import type { DetectedFace } from "../utils/face-detection";
+import {
+  FACE_FRAMINGS,
+  FACE_MODES,
+  type FaceSettings,
+  VIGNETTE_ANCHORS
+} from "../utils/face";
+import { FACE_SCHEMA } from "../utils/settings-schema";
+import { SliderControl } from "./slider-control";
+
+interface FaceControlsProps {
+  face: FaceSettings;
+  detected: DetectedFace | null;
+  onChange: (face: FaceSettings, label: string, coalesceKey?: string) => void;
+}
+
+type RegionKey = Exclude<keyof FaceSettings, "mode" | "framing" | "vignette" | "framingSize">;
+
+const regionSliders: { key: RegionKey; label: string }[] = [
+  { key: "featureDetail", label: "Feature Detail" },
+  { key: "featureSmoothing", label: "Feature Smoothing" },
+  { key: "skinDetail", label: "Skin Detail" },
+  { key: "skinSmoothing", label: "Skin Smoothing" },
+  { key: "hairDetail", label: "Hair Detail" },
+  { key: "hairSmoothing", label: "Hair Smoothing" }
+];
+
+const choiceLabels: Record<string, string> = {
+  off: "Off",
+  auto: "Auto",
+  manual: "Manual",
+  face: "Face",
+  fixed: "Fixed"
+};
+
+function ChoiceRow<T extends string>({
+  label,
+  options,
+  value,
+  onSelect
+}: {
+  label: string;
+  options: readonly T[];
+  value: T;
+  onSelect: (value: T) => void;
+}) {
+  return (
+    <div className="flex items-center justify-between">
+      <span className="control-label">{label}</span>
+      <div className="flex gap-3">
+        {options.map((option) => (
+          <button
+            key={option}
+            className={`text-xs font-semibold uppercase tracking-[0.2em] transition-colors ${
+              value === option ? "text-neutral-900" : "text-neutral-400 hover:text-neutral-700"
+            }`}
+            onClick={() => onSelect(option)}
+          >
+            {choiceLabels[option]}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export function FaceControls({ face, detected, onChange }: FaceControlsProps) {
+  const { ranges } = FACE_SCHEMA;
+  const update = (patch: Partial<FaceSettings>, label: string, coalesceKey?: string) =>
+    onChange({ ...face, ...patch }, label, coalesceKey);
+
+  return (
+    <div className="flex flex-col gap-3">
+      <ChoiceRow
+        label="Face Detection"
+        options={FACE_MODES}
+        value={face.mode}
+        onSelect={(mode) => update({ mode }, "Face detection")}
+      />
+
+      {face.mode === "auto" && (
+        <>
+          <span className="text-[0.65rem] uppercase tracking-[0.3em] text-neutral-400">
+            {detected
+              ? `Face found · ${Math.round(detected.confidence * 100)}% confidence`
+              : "No face found · manual framing and fixed vignette apply"}
+          </span>
+          <ChoiceRow
+            label="Framing"
+            options={FACE_FRAMINGS}
+            value={face.framing}
+            onSelect={(framing) => update({ framing }, "Face framing")}
+          />
+          {face.framing === "auto" && (
+            <SliderControl
+              label="Face Size"
+              {...ranges.framingSize}
+              value={face.framingSize}
+              onChange={(framingSize) =>
+                update({ framingSize }, "Face Size", "face.framingSize")
+              }
+            />
+          )}
+          <ChoiceRow
+            label="Vignette Centre"
+            options={VIGNETTE_ANCHORS}
+            value={face.vignette}
+            onSelect={(vignette) => update({ vignette }, "Vignette centre")}
+          />
+          {regionSliders.map(({ key, label }) => (
+            <SliderControl
+              key={key}
+              label={label}
+              {...ranges[key]}
+              value={face[key]}
+              onChange={(value) => update({ [key]: value }, label, `face.${key}`)}
+            />
+          ))}
+        </>
+      )}
+    </div>
+  );
+}
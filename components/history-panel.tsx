@@ -0,0 +1,72 @@
+"use client";
+
+import type { EditHistory } from "../utils/edit-history";
+
+interface HistoryPanelProps<T> {
+  history: EditHistory<T>;
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  onJump: (index: number) => void;
+}
+
+const linkButtonClass =
+  "text-xs font-semibold uppercase tracking-[0.3em] text-neutral-500 transition-colors hover:text-neutral-800 disabled:opacity-40";
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+
+export function HistoryPanel<T>({
+  history,
+  canUndo,
+  canRedo,
+  onUndo,
+  onRedo,
+  onJump
+}: HistoryPanelProps<T>) {
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex items-center justify-between">
+        <span className="control-label">History</span>
+        <div className="flex gap-3">
+          <button
+            className={linkButtonClass}
+            disabled={!canUndo}
+            title="Undo (Ctrl+Z)"
+            onClick={onUndo}
+          >
+            Undo
+          </button>
+          <button
+            className={linkButtonClass}
+            disabled={!canRedo}
+            title="Redo (Ctrl+Shift+Z)"
+            onClick={onRedo}
+          >
+            Redo
+          </button>
+        </div>
+      </div>
+      <ol className="flex max-h-48 flex-col gap-1 overflow-y-auto rounded-xl border border-neutral-200 bg-white/60 p-2">
+        {history.entries.map((entry, index) => (
+          <li key={entry.id}>
+            <button
+              className={`flex w-full items-center justify-between rounded-lg px-2 py-1 text-left text-xs transition ${
+                index === history.index
+                  ? "bg-neutral-900 text-white"
+                  : index > history.index
+                    ? "text-neutral-400 hover:bg-neutral-100"
+                    : "text-neutral-700 hover:bg-neutral-100"
+              }`}
+              onClick={() => onJump(index)}
+            >
+              <span className="truncate">{entry.label}</span>
+              <span className="shrink-0 pl-2 opacity-60">{formatTime(entry.timestamp)}</span>
+            </button>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
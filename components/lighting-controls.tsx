@@ -0,0 +1,155 @@
+"use client";
+
+import { useRef, useState } from "react";
+import {
+  LIGHTING_MODES,
+  LIGHT_ROLES,
+  type LightRig,
+  type LightRole,
+  type LightingMode,
+  lightVector
+} from "../utils/lighting";
+import { LIGHT_RANGES } from "../utils/settings-schema";
+import { SliderControl } from "./slider-control";
+
+interface LightingControlsProps {
+  mode: LightingMode;
+  lights: LightRig;
+  onModeChange: (mode: LightingMode) => void;
+  onLightsChange: (lights: LightRig) => void;
+}
+
+const modeLabels: Record<LightingMode, string> = {
+  contour: "Contour",
+  directional: "Directional"
+};
+
+const roleLabels: Record<LightRole, string> = {
+  key: "Key",
+  fill: "Fill",
+  rim: "Rim"
+};
+
+const roleColors: Record<LightRole, string> = {
+  key: "bg-amber-300",
+  fill: "bg-sky-300",
+  rim: "bg-rose-300"
+};
+
+export function LightingControls({
+  mode,
+  lights,
+  onModeChange,
+  onLightsChange
+}: LightingControlsProps) {
+  const [role, setRole] = useState<LightRole>("key");
+  const dragging = useRef(false);
+  const selected = lights[role];
+  const [keyX, keyY] = lightVector(lights.key);
+
+  const updateLight = (patch: Partial<LightRig[LightRole]>) =>
+    onLightsChange({ ...lights, [role]: { ...selected, ...patch } });
+
+  // Maps a point on the sphere's visible hemisphere back to a direction:
+  // the centre faces the viewer, the rim grazes the image plane.
+  const aimAt = (element: HTMLElement, clientX: number, clientY: number) => {
+    const bounds = element.getBoundingClientRect();
+    const dx = ((clientX - bounds.left) / bounds.width) * 2 - 1;
+    const dy = ((clientY - bounds.top) / bounds.height) * 2 - 1;
+    const radius = Math.min(1, Math.hypot(dx, dy));
+    const azimuth = ((Math.atan2(dx, -dy) * 180) / Math.PI + 360) % 360;
+    updateLight({
+      azimuth: Math.round(azimuth),
+      elevation: Math.round((Math.acos(radius) * 180) / Math.PI)
+    });
+  };
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex items-center justify-between">
+        <span className="control-label">Lighting</span>
+        <div className="flex gap-3">
+          {LIGHTING_MODES.map((option) => (
+            <button
+              key={option}
+              className={`text-xs font-semibold uppercase tracking-[0.3em] transition-colors ${
+                mode === option ? "text-neutral-900" : "text-neutral-400 hover:text-neutral-700"
+              }`}
+              onClick={() => onModeChange(option)}
+            >
+              {modeLabels[option]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {mode === "directional" && (
+        <>
+          <div className="flex items-center gap-4">
+            <div
+              className="relative h-28 w-28 shrink-0 cursor-crosshair touch-none select-none rounded-full shadow-inner"
+              style={{
+                background: `radial-gradient(circle at ${50 + keyX * 45}% ${
+                  50 + keyY * 45
+                }%, #ffffff, #d4d4d0 55%, #6b6b66)`
+              }}
+              onPointerDown={(event) => {
+                dragging.current = true;
+                event.currentTarget.setPointerCapture(event.pointerId);
+                aimAt(event.currentTarget, event.clientX, event.clientY);
+              }}
+              onPointerMove={(event) => {
+                if (dragging.current) aimAt(event.currentTarget, event.clientX, event.clientY);
+              }}
+              onPointerUp={() => {
+                dragging.current = false;
+              }}
+              onPointerCancel={() => {
+                dragging.current = false;
+              }}
+            >
+              {LIGHT_ROLES.map((item) => {
+                const [x, y] = lightVector(lights[item]);
+                return (
+                  <span
+                    key={item}
+                    className={`pointer-events-none absolute h-3 w-3 -translate-x-1/2 -translate-y-1/2 rounded-full border-2 ${
+                      item === role ? "border-neutral-900" : "border-white"
+                    } ${roleColors[item]}`}
+                    style={{ left: `${50 + x * 50}%`, top: `${50 + y * 50}%` }}
+                  />
+                );
+              })}
+            </div>
+            <div className="flex flex-col gap-2">
+              {LIGHT_ROLES.map((item) => (
+                <button
+                  key={item}
+                  className={`flex items-center gap-2 text-xs uppercase tracking-[0.2em] transition-colors ${
+                    item === role ? "text-neutral-900" : "text-neutral-400 hover:text-neutral-700"
+                  }`}
+                  onClick={() => setRole(item)}
+                >
+                  <span className={`h-2 w-2 rounded-full ${roleColors[item]}`} />
+                  {roleLabels[item]} · {lights[item].azimuth}° / {lights[item].elevation}°
+                </button>
+              ))}
+            </div>
+          </div>
+          <SliderControl
+            label={`${roleLabels[role]} Intensity`}
+            {...LIGHT_RANGES.intensity}
+            value={selected.intensity}
+            onChange={(intensity) => updateLight({ intensity })}
+          />
+          <SliderControl
+            label={`${roleLabels[role]} Softness`}
+            {...LIGHT_RANGES.softness}
+            value={selected.softness}
+            onChange={(softness) => updateLight({ softness })}
+          />
+        </>
+      )}
+    </div>
+  );
+}
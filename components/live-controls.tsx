@@ -0,0 +1,105 @@
+"use client";
+
+import { useRef } from "react";
+import type { LiveSourceKind } from "../hooks/use-live-input";
+
+interface LiveControlsProps {
+  source: LiveSourceKind | null;
+  isRecording: boolean;
+  onStart: (kind: LiveSourceKind, file?: File) => void;
+  onStop: () => void;
+  onCapture: () => void;
+  onToggleRecording: () => void;
+}
+
+const sourceLabels: Record<LiveSourceKind, string> = {
+  camera: "Webcam",
+  video: "Video File",
+  "test-pattern": "Test Pattern"
+};
+
+const linkButtonClass =
+  "text-xs font-semibold uppercase tracking-[0.3em] transition-colors";
+
+export function LiveControls({
+  source,
+  isRecording,
+  onStart,
+  onStop,
+  onCapture,
+  onToggleRecording
+}: LiveControlsProps) {
+  const videoInputRef = useRef<HTMLInputElement | null>(null);
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex items-center justify-between">
+        <span className="control-label">Live Input</span>
+        {source && (
+          <button
+            className={`${linkButtonClass} text-neutral-500 hover:text-neutral-800`}
+            onClick={onStop}
+          >
+            Stop
+          </button>
+        )}
+      </div>
+
+      {source ? (
+        <div className="flex flex-wrap items-center gap-3">
+          <span className="text-xs uppercase tracking-[0.2em] text-neutral-500">
+            {sourceLabels[source]}
+          </span>
+          <button
+            className="rounded-full bg-neutral-900 px-4 py-2 text-xs font-medium uppercase tracking-[0.2em] text-white transition hover:bg-neutral-700"
+            onClick={onCapture}
+          >
+            Capture Still
+          </button>
+          <button
+            className={`rounded-full border px-4 py-2 text-xs font-medium uppercase tracking-[0.2em] transition ${
+              isRecording
+                ? "border-rose-500 text-rose-500 hover:bg-rose-50"
+                : "border-neutral-300 text-neutral-700 hover:border-neutral-500"
+            }`}
+            onClick={onToggleRecording}
+          >
+            {isRecording ? "Stop Recording" : "Record WebM"}
+          </button>
+        </div>
+      ) : (
+        <div className="flex gap-4">
+          <button
+            className={`${linkButtonClass} text-neutral-700 hover:text-neutral-900`}
+            onClick={() => onStart("camera")}
+          >
+            {sourceLabels.camera}
+          </button>
+          <button
+            className={`${linkButtonClass} text-neutral-700 hover:text-neutral-900`}
+            onClick={() => videoInputRef.current?.click()}
+          >
+            {sourceLabels.video}
+          </button>
+          <button
+            className={`${linkButtonClass} text-neutral-500 hover:text-neutral-800`}
+            onClick={() => onStart("test-pattern")}
+          >
+            {sourceLabels["test-pattern"]}
+          </button>
+          <input
+            ref={videoInputRef}
+            type="file"
+            accept="video/*"
+            className="hidden"
+            onChange={(event) => {
+              const file = event.target.files?.[0];
+              if (file) onStart("video", file);
+              event.target.value = "";
+            }}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+"use client";
+
+import {
+  LOCAL_TONE_MODES,
+  type LocalToneMode,
+  type LocalToneSettings
+} from "../utils/local-tone";
+import { LOCAL_TONE_SCHEMA } from "../utils/settings-schema";
+import { SliderControl } from "./slider-control";
+
+interface LocalToneControlsProps {
+  localTone: LocalToneSettings;
+  onChange: (localTone: LocalToneSettings, label: string, coalesceKey?: string) => void;
+}
+
+const modeLabels: Record<LocalToneMode, string> = {
+  off: "Off",
+  clahe: "CLAHE",
+  multiscale: "Multi-scale"
+};
+
+export function LocalToneControls({ localTone, onChange }: LocalToneControlsProps) {
+  const { ranges } = LOCAL_TONE_SCHEMA;
+  const update = (patch: Partial<LocalToneSettings>, label: string, coalesceKey?: string) =>
+    onChange({ ...localTone, ...patch }, label, coalesceKey);
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex items-center justify-between">
+        <span className="control-label">Local Contrast</span>
+        <div className="flex gap-3">
+          {LOCAL_TONE_MODES.map((mode) => (
+            <button
+              key={mode}
+              className={`text-xs font-semibold uppercase tracking-[0.2em] transition-colors ${
+                localTone.mode === mode
+                  ? "text-neutral-900"
+                  : "text-neutral-400 hover:text-neutral-700"
+              }`}
+              onClick={() => update({ mode }, "Local contrast mode")}
+            >
+              {modeLabels[mode]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {localTone.mode !== "off" && (
+        <>
+          <SliderControl
+            label="Local Strength"
+            {...ranges.strength}
+            value={localTone.strength}
+            onChange={(strength) => update({ strength }, "Local Strength", "localTone.strength")}
+          />
+          <SliderControl
+            label={localTone.mode === "clahe" ? "Tile Size" : "Base Radius"}
+            {...ranges.scale}
+            value={localTone.scale}
+            onChange={(scale) => update({ scale }, "Local Scale", "localTone.scale")}
+          />
+          {localTone.mode === "clahe" && (
+            <SliderControl
+              label="Clip Limit"
+              {...ranges.clipLimit}
+              value={localTone.clipLimit}
+              onChange={(clipLimit) => update({ clipLimit }, "Clip Limit", "localTone.clipLimit")}
+            />
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+"use client";
+
+import { MATERIALS, type Material, type MaterialId } from "../utils/materials";
+
+interface MaterialPickerProps {
+  label?: string;
+  value: MaterialId;
+  onChange: (material: MaterialId) => void;
+}
+
+const swatchGradient = ({ ramp }: Material) => {
+  if (ramp.length === 0) return "linear-gradient(135deg, #3a3a3a, #b4b4b4, #fafafa)";
+  const stops = ramp.map(
+    ({ at, color }) => `rgb(${color.join(",")}) ${Math.round((at / 255) * 100)}%`
+  );
+  return `linear-gradient(135deg, ${stops.join(", ")})`;
+};
+
+export function MaterialPicker({ label = "Material", value, onChange }: MaterialPickerProps) {
+  return (
+    <div className="flex flex-col gap-3">
+      <span className="control-label">{label}</span>
+      <div className="grid grid-cols-5 gap-2" role="radiogroup" aria-label={label}>
+        {MATERIALS.map((material) => {
+          const selected = material.id === value;
+          return (
+            <button
+              key={material.id}
+              role="radio"
+              aria-checked={selected}
+              title={material.label}
+              className={`flex flex-col items-center gap-1 rounded-xl p-1 transition ${
+                selected ? "ring-2 ring-neutral-800" : "hover:ring-1 hover:ring-neutral-300"
+              }`}
+              onClick={() => onChange(material.id)}
+            >
+              <span
+                className="aspect-square w-full rounded-lg shadow-inner"
+                style={{ background: swatchGradient(material) }}
+              />
+              <span className="text-[0.6rem] uppercase leading-tight tracking-[0.1em] text-neutral-600">
+                {material.label.split(" ").pop()}
+              </span>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,111 @@
+"use client";
+
+import { useId, useState } from "react";
+import {
+  OUTPUT_FORMATS,
+  type OutputFormat,
+  validateOutputFormat
+} from "../utils/output-format";
+
+interface OutputFormatPickerProps {
+  format: OutputFormat;
+  onChange: (format: OutputFormat) => void;
+}
+
+const CUSTOM_ID = "custom";
+
+const inputClass =
+  "min-w-0 rounded-xl border border-neutral-200 bg-white/70 px-3 py-2 text-sm text-neutral-700";
+
+export function OutputFormatPicker({ format, onChange }: OutputFormatPickerProps) {
+  const id = useId();
+  const [draft, setDraft] = useState({
+    width: String(format.width),
+    height: String(format.height),
+    dpi: String(format.dpi)
+  });
+  const [error, setError] = useState<string | null>(null);
+  const isCustom = format.id === CUSTOM_ID;
+
+  const applyCustom = () => {
+    const custom: OutputFormat = {
+      id: CUSTOM_ID,
+      label: "Custom",
+      width: Number(draft.width),
+      height: Number(draft.height),
+      dpi: Number(draft.dpi)
+    };
+    const problem = validateOutputFormat(custom);
+    setError(problem);
+    if (!problem) onChange(custom);
+  };
+
+  return (
+    <div className="flex flex-col gap-3">
+      <label className="control-label" htmlFor={id}>
+        Output Format
+      </label>
+      <select
+        id={id}
+        className="rounded-xl border border-neutral-200 bg-white/70 px-3 py-2 text-sm text-neutral-700"
+        value={format.id}
+        onChange={(event) => {
+          const preset = OUTPUT_FORMATS.find((item) => item.id === event.target.value);
+          setError(null);
+          if (preset) {
+            onChange(preset);
+          } else {
+            onChange({ ...format, id: CUSTOM_ID, label: "Custom" });
+            setDraft({
+              width: String(format.width),
+              height: String(format.height),
+              dpi: String(format.dpi)
+            });
+          }
+        }}
+      >
+        {OUTPUT_FORMATS.map((item) => (
+          <option key={item.id} value={item.id}>
+            {item.label} · {item.width}×{item.height}
+            {item.dpi !== 72 ? ` @ ${item.dpi} dpi` : ""}
+          </option>
+        ))}
+        <option value={CUSTOM_ID}>Custom size…</option>
+      </select>
+
+      {isCustom && (
+        <form
+          className="grid grid-cols-[1fr_1fr_1fr_auto] items-end gap-2"
+          onSubmit={(event) => {
+            event.preventDefault();
+            applyCustom();
+          }}
+        >
+          {(["width", "height", "dpi"] as const).map((key) => (
+            <label key={key} className="flex flex-col gap-1">
+              <span className="text-[0.65rem] uppercase tracking-[0.2em] text-neutral-500">
+                {key === "dpi" ? "DPI" : key}
+              </span>
+              <input
+                className={inputClass}
+                inputMode="numeric"
+                value={draft[key]}
+                onChange={(event) =>
+                  setDraft((prev) => ({ ...prev, [key]: event.target.value }))
+                }
+              />
+            </label>
+          ))}
+          <button
+            type="submit"
+            className="rounded-full bg-neutral-900 px-4 py-2 text-xs font-medium uppercase tracking-[0.2em] text-white transition hover:bg-neutral-700"
+          >
+            Apply
+          </button>
+        </form>
+      )}
+
+      {error && <span className="text-xs text-rose-500">{error}</span>}
+    </div>
+  );
+}
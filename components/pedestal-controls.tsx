@@ -0,0 +1,82 @@
+"use client";
+
+import { PEDESTAL_SHAPES, type PedestalSettings, type PedestalShape } from "../utils/pedestal";
+import { PEDESTAL_SCHEMA } from "../utils/settings-schema";
+import { MaterialPicker } from "./material-picker";
+import { SliderControl } from "./slider-control";
+
+interface PedestalControlsProps {
+  pedestal: PedestalSettings;
+  onChange: (pedestal: PedestalSettings, label: string, coalesceKey?: string) => void;
+}
+
+const shapeLabels: Record<PedestalShape, string> = {
+  none: "None",
+  slab: "Slab",
+  cube: "Cube",
+  cylinder: "Cylinder",
+  plinth: "Plinth",
+  column: "Column"
+};
+
+export function PedestalControls({ pedestal, onChange }: PedestalControlsProps) {
+  const update = (patch: Partial<PedestalSettings>, label: string, coalesceKey?: string) =>
+    onChange({ ...pedestal, ...patch }, label, coalesceKey);
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex items-center justify-between">
+        <span className="control-label">Pedestal</span>
+        <div className="flex flex-wrap justify-end gap-3">
+          {PEDESTAL_SHAPES.map((shape) => (
+            <button
+              key={shape}
+              className={`text-xs font-semibold uppercase tracking-[0.2em] transition-colors ${
+                pedestal.shape === shape
+                  ? "text-neutral-900"
+                  : "text-neutral-400 hover:text-neutral-700"
+              }`}
+              onClick={() => update({ shape }, "Pedestal shape")}
+            >
+              {shapeLabels[shape]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {pedestal.shape !== "none" && (
+        <>
+          <SliderControl
+            label="Pedestal Height"
+            {...PEDESTAL_SCHEMA.ranges.height}
+            value={pedestal.height}
+            onChange={(height) => update({ height }, "Pedestal Height", "pedestal.height")}
+          />
+          <SliderControl
+            label="Pedestal Width"
+            {...PEDESTAL_SCHEMA.ranges.width}
+            value={pedestal.width}
+            onChange={(width) => update({ width }, "Pedestal Width", "pedestal.width")}
+          />
+          {pedestal.shape !== "slab" && (
+            <>
+              <SliderControl
+                label="Contact Shadow"
+                {...PEDESTAL_SCHEMA.ranges.contactShadow}
+                value={pedestal.contactShadow}
+                onChange={(contactShadow) =>
+                  update({ contactShadow }, "Contact Shadow", "pedestal.contactShadow")
+                }
+              />
+              <MaterialPicker
+                label="Pedestal Material"
+                value={pedestal.material}
+                onChange={(material) => update({ material }, "Pedestal material")}
+              />
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
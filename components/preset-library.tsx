@@ -0,0 +1,121 @@
+"use client";
+
+import { useId, useRef, useState } from "react";
+import type { EffectPreset } from "../utils/presets";
+
+interface PresetLibraryProps {
+  presets: readonly EffectPreset[];
+  activePresetId: string | null;
+  onSelect: (preset: EffectPreset) => void;
+  onSave: (name: string) => void;
+  onDelete: (preset: EffectPreset) => void;
+  onImport: (file: File) => void;
+  onExport: () => void;
+}
+
+const linkButtonClass =
+  "text-xs font-semibold uppercase tracking-[0.3em] text-neutral-500 transition-colors hover:text-neutral-800 disabled:opacity-40";
+
+export function PresetLibrary({
+  presets,
+  activePresetId,
+  onSelect,
+  onSave,
+  onDelete,
+  onImport,
+  onExport
+}: PresetLibraryProps) {
+  const id = useId();
+  const [name, setName] = useState("");
+  const importRef = useRef<HTMLInputElement | null>(null);
+  const active = presets.find((preset) => preset.id === activePresetId) ?? null;
+  const builtIn = presets.filter((preset) => preset.builtIn);
+  const saved = presets.filter((preset) => !preset.builtIn);
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex items-center justify-between">
+        <label className="control-label" htmlFor={id}>
+          Presets
+        </label>
+        <div className="flex gap-3">
+          <button className={linkButtonClass} onClick={() => importRef.current?.click()}>
+            Import
+          </button>
+          <button className={linkButtonClass} disabled={saved.length === 0} onClick={onExport}>
+            Export
+          </button>
+        </div>
+        <input
+          ref={importRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={(event) => {
+            const file = event.target.files?.[0];
+            if (file) onImport(file);
+            event.target.value = "";
+          }}
+        />
+      </div>
+
+      <select
+        id={id}
+        className="rounded-xl border border-neutral-200 bg-white/70 px-3 py-2 text-sm text-neutral-700"
+        value={activePresetId ?? ""}
+        onChange={(event) => {
+          const preset = presets.find((item) => item.id === event.target.value);
+          if (preset) onSelect(preset);
+        }}
+      >
+        {!active && <option value="">Custom look</option>}
+        <optgroup label="Studio">
+          {builtIn.map((preset) => (
+            <option key={preset.id} value={preset.id}>
+              {preset.name}
+            </option>
+          ))}
+        </optgroup>
+        {saved.length > 0 && (
+          <optgroup label="Saved">
+            {saved.map((preset) => (
+              <option key={preset.id} value={preset.id}>
+                {preset.name}
+              </option>
+            ))}
+          </optgroup>
+        )}
+      </select>
+
+      <form
+        className="flex gap-2"
+        onSubmit={(event) => {
+          event.preventDefault();
+          if (!name.trim()) return;
+          onSave(name.trim());
+          setName("");
+        }}
+      >
+        <input
+          className="min-w-0 flex-1 rounded-xl border border-neutral-200 bg-white/70 px-3 py-2 text-sm text-neutral-700 placeholder:text-neutral-400"
+          placeholder="Name the current look"
+          value={name}
+          onChange={(event) => setName(event.target.value)}
+        />
+        <button
+          type="submit"
+          className="rounded-full bg-neutral-900 px-4 py-2 text-xs font-medium uppercase tracking-[0.2em] text-white transition hover:bg-neutral-700 disabled:opacity-40"
+          disabled={!name.trim()}
+        >
+          Save
+        </button>
+      </form>
+
+      {active && !active.builtIn && (
+        <button className={`${linkButtonClass} self-start`} onClick={() => onDelete(active)}>
+          Delete “{active.name}”
+        </button>
+      )}
+    </div>
+  );
+}
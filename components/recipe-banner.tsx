@@ -0,0 +1,36 @@
+"use client";
+
+import type { EffectRecipe } from "../utils/recipe";
+
+interface RecipeBannerProps {
+  recipe: EffectRecipe;
+  onRestore: () => void;
+  onDismiss: () => void;
+}
+
+const linkButtonClass =
+  "text-xs font-semibold uppercase tracking-[0.3em] transition-colors";
+
+export function RecipeBanner({ recipe, onRestore, onDismiss }: RecipeBannerProps) {
+  return (
+    <div className="flex flex-col gap-2 rounded-2xl border border-neutral-200 bg-white/70 p-4">
+      <span className="text-sm text-neutral-700">
+        This image carries a plaster recipe (studio {recipe.version}). Restore its look?
+      </span>
+      <div className="flex gap-4">
+        <button
+          className={`${linkButtonClass} text-neutral-900 hover:text-neutral-600`}
+          onClick={onRestore}
+        >
+          Restore
+        </button>
+        <button
+          className={`${linkButtonClass} text-neutral-500 hover:text-neutral-800`}
+          onClick={onDismiss}
+        >
+          Dismiss
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,107 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { SessionSummary } from "../utils/session-store";
+
+interface SessionManagerProps {
+  sessions: readonly SessionSummary[];
+  activeSessionId: string | null;
+  canSave: boolean;
+  onSave: (name: string) => void;
+  onOpen: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const linkButtonClass =
+  "text-[0.65rem] uppercase tracking-[0.2em] text-neutral-500 transition-colors hover:text-neutral-800";
+
+function SessionThumbnail({ blob }: { blob: Blob | null }) {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!blob) return;
+    const objectUrl = URL.createObjectURL(blob);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [blob]);
+
+  return (
+    <span className="h-10 w-8 shrink-0 overflow-hidden rounded-md bg-neutral-200">
+      {url && (
+        // eslint-disable-next-line @next/next/no-img-element
+        <img src={url} alt="" className="h-full w-full object-cover" />
+      )}
+    </span>
+  );
+}
+
+export function SessionManager({
+  sessions,
+  activeSessionId,
+  canSave,
+  onSave,
+  onOpen,
+  onDelete
+}: SessionManagerProps) {
+  const [name, setName] = useState("");
+
+  return (
+    <div className="flex flex-col gap-3">
+      <span className="control-label">Sessions</span>
+      <form
+        className="flex gap-2"
+        onSubmit={(event) => {
+          event.preventDefault();
+          if (!name.trim() || !canSave) return;
+          onSave(name.trim());
+          setName("");
+        }}
+      >
+        <input
+          className="min-w-0 flex-1 rounded-xl border border-neutral-200 bg-white/70 px-3 py-2 text-sm text-neutral-700 placeholder:text-neutral-400"
+          placeholder={canSave ? "Name this session" : "Load a portrait to save a session"}
+          disabled={!canSave}
+          value={name}
+          onChange={(event) => setName(event.target.value)}
+        />
+        <button
+          type="submit"
+          className="rounded-full bg-neutral-900 px-4 py-2 text-xs font-medium uppercase tracking-[0.2em] text-white transition hover:bg-neutral-700 disabled:opacity-40"
+          disabled={!canSave || !name.trim()}
+        >
+          Save
+        </button>
+      </form>
+      {sessions.length > 0 && (
+        <ul className="flex flex-col gap-2">
+          {sessions.map((session) => (
+            <li key={session.id} className="flex items-center gap-3">
+              <SessionThumbnail blob={session.thumbnail} />
+              <div className="flex min-w-0 flex-1 flex-col">
+                <span
+                  className={`truncate text-sm ${
+                    session.id === activeSessionId ? "font-semibold text-neutral-900" : "text-neutral-700"
+                  }`}
+                >
+                  {session.name}
+                </span>
+                <span className="text-[0.65rem] text-neutral-400">
+                  {new Date(session.updatedAt).toLocaleString()}
+                </span>
+              </div>
+              <button className={linkButtonClass} onClick={() => onOpen(session.id)}>
+                Open
+              </button>
+              <button
+                className={`${linkButtonClass} hover:text-rose-500`}
+                onClick={() => onDelete(session.id)}
+              >
+                Delete
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
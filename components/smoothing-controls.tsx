@@ -0,0 +1,68 @@
+"use client";
+
+import { SMOOTHING_SCHEMA } from "../utils/settings-schema";
+import {
+  EDGE_KEYS,
+  SMOOTHING_MODES,
+  STRENGTH_KEYS,
+  type SmoothingMode,
+  type SmoothingSettings
+} from "../utils/smoothing";
+import { SliderControl } from "./slider-control";
+
+interface SmoothingControlsProps {
+  smoothing: SmoothingSettings;
+  onChange: (smoothing: SmoothingSettings, label: string, coalesceKey?: string) => void;
+}
+
+const modeLabels: Record<SmoothingMode, string> = {
+  gaussian: "Gaussian",
+  bilateral: "Bilateral",
+  guided: "Guided",
+  domain: "Domain"
+};
+
+export function SmoothingControls({ smoothing, onChange }: SmoothingControlsProps) {
+  const { mode } = smoothing;
+  const strengthKey = STRENGTH_KEYS[mode];
+  const edgeKey = mode === "gaussian" ? null : EDGE_KEYS[mode];
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex items-center justify-between">
+        <span className="control-label">Smoothing</span>
+        <div className="flex flex-wrap justify-end gap-3">
+          {SMOOTHING_MODES.map((option) => (
+            <button
+              key={option}
+              className={`text-xs font-semibold uppercase tracking-[0.2em] transition-colors ${
+                mode === option ? "text-neutral-900" : "text-neutral-400 hover:text-neutral-700"
+              }`}
+              onClick={() => onChange({ ...smoothing, mode: option }, "Smoothing mode")}
+            >
+              {modeLabels[option]}
+            </button>
+          ))}
+        </div>
+      </div>
+      <SliderControl
+        label="Surface Smoothness"
+        {...SMOOTHING_SCHEMA.ranges[strengthKey]}
+        value={smoothing[strengthKey]}
+        onChange={(value) =>
+          onChange({ ...smoothing, [strengthKey]: value }, "Surface Smoothness", strengthKey)
+        }
+      />
+      {edgeKey && (
+        <SliderControl
+          label="Edge Sensitivity"
+          {...SMOOTHING_SCHEMA.ranges[edgeKey]}
+          value={smoothing[edgeKey]}
+          onChange={(value) =>
+            onChange({ ...smoothing, [edgeKey]: value }, "Edge Sensitivity", edgeKey)
+          }
+        />
+      )}
+    </div>
+  );
+}
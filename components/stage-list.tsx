@@ -0,0 +1,78 @@
+"use client";
+
+import { type PipelineEntry, getStage } from "../utils/pipeline";
+
+interface StageListProps {
+  pipeline: readonly PipelineEntry[];
+  onChange: (pipeline: PipelineEntry[]) => void;
+}
+
+const moveEntry = (
+  pipeline: readonly PipelineEntry[],
+  index: number,
+  offset: number
+) => {
+  const target = index + offset;
+  if (target < 0 || target >= pipeline.length) return [...pipeline];
+  const next = [...pipeline];
+  [next[index], next[target]] = [next[target], next[index]];
+  return next;
+};
+
+export function StageList({ pipeline, onChange }: StageListProps) {
+  return (
+    <div className="flex flex-col gap-3">
+      <span className="control-label">Effect Stages</span>
+      <ol className="flex flex-col gap-1.5">
+        {pipeline.map((entry, index) => {
+          const stage = getStage(entry.id);
+          return (
+            <li
+              key={entry.id}
+              className="flex items-center gap-3 rounded-xl bg-white/50 px-3 py-2 text-xs text-neutral-600"
+            >
+              <input
+                type="checkbox"
+                className="accent-neutral-800"
+                checked={entry.enabled}
+                aria-label={`Toggle ${stage?.label ?? entry.id}`}
+                onChange={(event) =>
+                  onChange(
+                    pipeline.map((item) =>
+                      item.id === entry.id
+                        ? { ...item, enabled: event.target.checked }
+                        : item
+                    )
+                  )
+                }
+              />
+              <span
+                className={`flex-1 uppercase tracking-[0.2em] ${
+                  entry.enabled ? "text-neutral-700" : "text-neutral-400 line-through"
+                }`}
+              >
+                {stage?.label ?? entry.id}
+              </span>
+              <button
+                className="px-1 text-neutral-400 transition-colors hover:text-neutral-800 disabled:opacity-30"
+                disabled={index === 0}
+                aria-label="Move stage earlier"
+                onClick={() => onChange(moveEntry(pipeline, index, -1))}
+              >
+                ↑
+              </button>
+              <button
+                className="px-1 text-neutral-400 transition-colors hover:text-neutral-800 disabled:opacity-30"
+                disabled={index === pipeline.length - 1}
+                aria-label="Move stage later"
+                onClick={() => onChange(moveEntry(pipeline, index, 1))}
+              >
+                ↓
+              </button>
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+}
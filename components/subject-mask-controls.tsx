@@ -0,0 +1,182 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import type { EffectSettings } from "../utils/plaster-effect";
+import {
+  type MaskRefinement,
+  REFINE_AUTO,
+  REFINE_KEEP,
+  REFINE_REMOVE,
+  createRefinement,
+  paintRefinement
+} from "../utils/segmentation";
+import { SETTING_RANGES } from "../utils/settings-schema";
+import { SliderControl } from "./slider-control";
+
+type MaskSettings = Pick<EffectSettings, "subjectMask" | "maskTolerance" | "maskFeather">;
+
+interface SubjectMaskControlsProps {
+  src: string | null;
+  sourceWidth: number;
+  sourceHeight: number;
+  mask: MaskSettings;
+  refinement: MaskRefinement | null;
+  onMaskChange: (patch: Partial<MaskSettings>) => void;
+  onRefinementChange: (refinement: MaskRefinement | null) => void;
+}
+
+type BrushMode = "keep" | "remove" | "erase";
+
+const brushValues: Record<BrushMode, number> = {
+  keep: REFINE_KEEP,
+  remove: REFINE_REMOVE,
+  erase: REFINE_AUTO
+};
+
+const brushLabels: Record<BrushMode, string> = {
+  keep: "Keep",
+  remove: "Remove",
+  erase: "Erase"
+};
+
+const linkButtonClass =
+  "text-xs font-semibold uppercase tracking-[0.3em] transition-colors disabled:opacity-40";
+
+export function SubjectMaskControls({
+  src,
+  sourceWidth,
+  sourceHeight,
+  mask,
+  refinement,
+  onMaskChange,
+  onRefinementChange
+}: SubjectMaskControlsProps) {
+  const [brush, setBrush] = useState<BrushMode>("keep");
+  const [brushSize, setBrushSize] = useState(16);
+  const overlayRef = useRef<HTMLCanvasElement | null>(null);
+  const painting = useRef(false);
+  const enabled = mask.subjectMask === "auto";
+
+  useEffect(() => {
+    const canvas = overlayRef.current;
+    const context = canvas?.getContext("2d");
+    if (!canvas || !context) return;
+    if (!refinement) {
+      context.clearRect(0, 0, canvas.width, canvas.height);
+      return;
+    }
+
+    canvas.width = refinement.width;
+    canvas.height = refinement.height;
+    const overlay = context.createImageData(refinement.width, refinement.height);
+    refinement.data.forEach((value, index) => {
+      if (value === REFINE_KEEP) overlay.data.set([16, 185, 129, 140], index * 4);
+      if (value === REFINE_REMOVE) overlay.data.set([244, 63, 94, 140], index * 4);
+    });
+    context.putImageData(overlay, 0, 0);
+  }, [refinement]);
+
+  const paint = (element: HTMLElement, clientX: number, clientY: number) => {
+    const bounds = element.getBoundingClientRect();
+    const target = refinement ?? createRefinement(sourceWidth, sourceHeight);
+    const x = ((clientX - bounds.left) / bounds.width) * target.width;
+    const y = ((clientY - bounds.top) / bounds.height) * target.height;
+    paintRefinement(target, x, y, (brushSize / bounds.width) * target.width, brushValues[brush]);
+    onRefinementChange({ ...target });
+  };
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex items-center justify-between">
+        <span className="control-label">Subject Mask</span>
+        <button
+          className={`${linkButtonClass} ${enabled ? "text-neutral-900" : "text-neutral-400 hover:text-neutral-700"}`}
+          onClick={() => onMaskChange({ subjectMask: enabled ? "off" : "auto" })}
+        >
+          {enabled ? "On" : "Off"}
+        </button>
+      </div>
+
+      {enabled && (
+        <>
+          <SliderControl
+            label="Backdrop Tolerance"
+            {...SETTING_RANGES.maskTolerance}
+            value={mask.maskTolerance}
+            onChange={(maskTolerance) => onMaskChange({ maskTolerance })}
+          />
+          <SliderControl
+            label="Edge Feather"
+            {...SETTING_RANGES.maskFeather}
+            value={mask.maskFeather}
+            onChange={(maskFeather) => onMaskChange({ maskFeather })}
+          />
+
+          {src && (
+            <>
+              <div className="flex items-center justify-between">
+                <div className="flex gap-3">
+                  {(Object.keys(brushLabels) as BrushMode[]).map((mode) => (
+                    <button
+                      key={mode}
+                      className={`${linkButtonClass} ${
+                        brush === mode ? "text-neutral-900" : "text-neutral-400 hover:text-neutral-700"
+                      }`}
+                      onClick={() => setBrush(mode)}
+                    >
+                      {brushLabels[mode]}
+                    </button>
+                  ))}
+                </div>
+                <button
+                  className={`${linkButtonClass} text-neutral-500 hover:text-neutral-800`}
+                  disabled={!refinement}
+                  onClick={() => onRefinementChange(null)}
+                >
+                  Clear
+                </button>
+              </div>
+              <div
+                className="relative w-full cursor-crosshair touch-none select-none overflow-hidden rounded-2xl bg-neutral-200"
+                style={{ aspectRatio: `${sourceWidth} / ${sourceHeight}` }}
+                onPointerDown={(event) => {
+                  painting.current = true;
+                  event.currentTarget.setPointerCapture(event.pointerId);
+                  paint(event.currentTarget, event.clientX, event.clientY);
+                }}
+                onPointerMove={(event) => {
+                  if (painting.current) paint(event.currentTarget, event.clientX, event.clientY);
+                }}
+                onPointerUp={() => {
+                  painting.current = false;
+                }}
+                onPointerCancel={() => {
+                  painting.current = false;
+                }}
+              >
+                {/* eslint-disable-next-line @next/next/no-img-element */}
+                <img
+                  src={src}
+                  alt="Mask source"
+                  draggable={false}
+                  className="pointer-events-none h-full w-full object-fill"
+                />
+                <canvas
+                  ref={overlayRef}
+                  className="pointer-events-none absolute inset-0 h-full w-full"
+                />
+              </div>
+              <SliderControl
+                label="Brush Size"
+                min={4}
+                max={48}
+                value={brushSize}
+                onChange={setBrushSize}
+              />
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
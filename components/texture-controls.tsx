@@ -0,0 +1,92 @@
+"use client";
+
+import { TEXTURE_SCHEMA } from "../utils/settings-schema";
+import { TEXTURE_PATTERNS, type TexturePattern, type TextureSettings } from "../utils/texture";
+import { SliderControl } from "./slider-control";
+
+interface TextureControlsProps {
+  texture: TextureSettings;
+  onChange: (texture: TextureSettings, label: string, coalesceKey?: string) => void;
+}
+
+const patternLabels: Record<TexturePattern, string> = {
+  off: "Off",
+  pore: "Pore",
+  stipple: "Stipple",
+  brushed: "Brushed",
+  rasp: "Rasp"
+};
+
+export function TextureControls({ texture, onChange }: TextureControlsProps) {
+  const { ranges } = TEXTURE_SCHEMA;
+  const update = (patch: Partial<TextureSettings>, label: string, coalesceKey?: string) =>
+    onChange({ ...texture, ...patch }, label, coalesceKey);
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex items-center justify-between">
+        <span className="control-label">Surface Texture</span>
+        <div className="flex flex-wrap justify-end gap-3">
+          {TEXTURE_PATTERNS.map((pattern) => (
+            <button
+              key={pattern}
+              className={`text-xs font-semibold uppercase tracking-[0.2em] transition-colors ${
+                texture.pattern === pattern
+                  ? "text-neutral-900"
+                  : "text-neutral-400 hover:text-neutral-700"
+              }`}
+              onClick={() => update({ pattern }, "Texture pattern")}
+            >
+              {patternLabels[pattern]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {texture.pattern !== "off" && (
+        <>
+          <SliderControl
+            label="Grain Scale"
+            {...ranges.scale}
+            value={texture.scale}
+            onChange={(scale) => update({ scale }, "Grain Scale", "texture.scale")}
+          />
+          <SliderControl
+            label="Grain Strength"
+            {...ranges.strength}
+            value={texture.strength}
+            onChange={(strength) => update({ strength }, "Grain Strength", "texture.strength")}
+          />
+          <SliderControl
+            label="Directionality"
+            {...ranges.directionality}
+            value={texture.directionality}
+            onChange={(directionality) =>
+              update({ directionality }, "Directionality", "texture.directionality")
+            }
+          />
+          <SliderControl
+            label="Stroke Angle"
+            {...ranges.angle}
+            value={texture.angle}
+            onChange={(angle) => update({ angle }, "Stroke Angle", "texture.angle")}
+          />
+          <div className="flex items-center justify-between text-xs uppercase tracking-[0.2em] text-neutral-500">
+            <span>Seed {texture.seed}</span>
+            <button
+              className="font-semibold text-neutral-700 transition-colors hover:text-neutral-900"
+              onClick={() =>
+                update(
+                  { seed: Math.floor(Math.random() * (ranges.seed.max + 1)) },
+                  "Reseed texture"
+                )
+              }
+            >
+              Reseed
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,185 @@
+"use client";
+
+import { ANIMATION_FORMATS, type AnimationFormat } from "../utils/animation-encoding";
+import type { EffectSettings } from "../utils/plaster-effect";
+import {
+  EASINGS,
+  type Easing,
+  type Keyframe,
+  TIMELINE_RANGES,
+  type Timeline,
+  lightSweepTimeline,
+  revealTimeline
+} from "../utils/timeline";
+import { SliderControl } from "./slider-control";
+
+interface TimelineEditorProps {
+  timeline: Timeline;
+  settings: EffectSettings;
+  format: AnimationFormat;
+  rendering: boolean;
+  onChange: (timeline: Timeline) => void;
+  onFormatChange: (format: AnimationFormat) => void;
+  onRender: () => void;
+}
+
+const easingLabels: Record<Easing, string> = {
+  linear: "Linear",
+  easeIn: "In",
+  easeOut: "Out",
+  easeInOut: "In-Out"
+};
+
+const linkButton =
+  "text-xs font-semibold uppercase tracking-[0.3em] text-neutral-500 transition-colors hover:text-neutral-800 disabled:opacity-40";
+
+const choiceButton = (active: boolean) =>
+  `text-xs font-semibold uppercase tracking-[0.2em] transition-colors ${
+    active ? "text-neutral-900" : "text-neutral-400 hover:text-neutral-700"
+  }`;
+
+// Keyframes are listed in the order they were added, so dragging one past
+// another does not reshuffle the cards mid-drag; rendering sorts by time.
+export function TimelineEditor({
+  timeline,
+  settings,
+  format,
+  rendering,
+  onChange,
+  onFormatChange,
+  onRender
+}: TimelineEditorProps) {
+  const { keyframes, duration } = timeline;
+
+  const updateKeyframe = (index: number, patch: Partial<Keyframe>) =>
+    onChange({
+      ...timeline,
+      keyframes: keyframes.map((keyframe, i) =>
+        i === index ? { ...keyframe, ...patch } : keyframe
+      )
+    });
+
+  const addKeyframe = () => {
+    const last = Math.max(-1, ...keyframes.map((keyframe) => keyframe.time));
+    onChange({
+      ...timeline,
+      keyframes: [
+        ...keyframes,
+        { time: Math.min(duration, last + 1), easing: "easeInOut", reveal: 100, settings }
+      ]
+    });
+  };
+
+  const setDuration = (next: number) =>
+    onChange({
+      ...timeline,
+      duration: next,
+      keyframes: keyframes.map((keyframe) => ({ ...keyframe, time: Math.min(keyframe.time, next) }))
+    });
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="flex flex-wrap gap-4">
+        <button className={linkButton} onClick={() => onChange(revealTimeline(settings, duration))}>
+          Reveal
+        </button>
+        <button
+          className={linkButton}
+          onClick={() => onChange(lightSweepTimeline(settings, duration))}
+        >
+          Light Sweep
+        </button>
+      </div>
+
+      <SliderControl
+        label="Duration (s)"
+        {...TIMELINE_RANGES.duration}
+        value={duration}
+        onChange={setDuration}
+      />
+      <SliderControl
+        label="Frame Rate"
+        {...TIMELINE_RANGES.fps}
+        value={timeline.fps}
+        onChange={(fps) => onChange({ ...timeline, fps })}
+      />
+
+      {keyframes.map((keyframe, index) => (
+        <div
+          key={index}
+          className="flex flex-col gap-3 rounded-2xl border border-neutral-200 bg-white/70 p-4"
+        >
+          <SliderControl
+            label="Time (s)"
+            min={0}
+            max={duration}
+            step={0.1}
+            value={keyframe.time}
+            onChange={(time) => updateKeyframe(index, { time })}
+          />
+          <SliderControl
+            label="Reveal"
+            min={0}
+            max={100}
+            value={keyframe.reveal}
+            onChange={(reveal) => updateKeyframe(index, { reveal })}
+          />
+          <div className="flex items-center justify-between">
+            <span className="control-label">Easing</span>
+            <div className="flex gap-3">
+              {EASINGS.map((easing) => (
+                <button
+                  key={easing}
+                  className={choiceButton(keyframe.easing === easing)}
+                  onClick={() => updateKeyframe(index, { easing })}
+                >
+                  {easingLabels[easing]}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="flex justify-between">
+            <button className={linkButton} onClick={() => updateKeyframe(index, { settings })}>
+              Use Current Look
+            </button>
+            <button
+              className={linkButton}
+              onClick={() =>
+                onChange({ ...timeline, keyframes: keyframes.filter((_, i) => i !== index) })
+              }
+            >
+              Remove
+            </button>
+          </div>
+        </div>
+      ))}
+
+      <button className={linkButton} onClick={addKeyframe}>
+        Add Keyframe
+      </button>
+
+      <div className="flex items-center justify-between">
+        <span className="control-label">Format</span>
+        <div className="flex gap-3">
+          {ANIMATION_FORMATS.map((item) => (
+            <button
+              key={item.id}
+              className={choiceButton(format === item.id)}
+              onClick={() => onFormatChange(item.id)}
+            >
+              {item.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <button
+        className="rounded-full bg-neutral-900 px-4 py-2 text-xs font-medium uppercase tracking-[0.2em] text-white transition hover:bg-neutral-700 disabled:opacity-40"
+        disabled={rendering || keyframes.length === 0}
+        onClick={onRender}
+      >
+        Render Clip
+      </button>
+    </div>
+  );
+}
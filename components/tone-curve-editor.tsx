@@ -0,0 +1,177 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { clamp } from "../utils/image-filters";
+import { TONE_CURVE_SCHEMA } from "../utils/settings-schema";
+import {
+  type CurvePoint,
+  DEFAULT_TONE_CURVE,
+  MAX_CURVE_POINTS,
+  type ToneCurveSettings,
+  toneCurveLut
+} from "../utils/tone-curve";
+import { SliderControl } from "./slider-control";
+
+interface ToneCurveEditorProps {
+  curve: ToneCurveSettings;
+  histogram: Uint32Array | null;
+  onChange: (curve: ToneCurveSettings, label: string, coalesceKey?: string) => void;
+}
+
+// Plot space matches tone values; y is flipped so output rises upwards.
+const SIZE = 255;
+const HIT_RADIUS = 10;
+
+const histogramPath = (histogram: Uint32Array) => {
+  // Square root keeps a dominant backdrop peak from flattening the rest.
+  const heights = Array.from(histogram, (count) => Math.sqrt(count));
+  const peak = Math.max(...heights) || 1;
+  const steps = heights.map((height, bin) => `L${bin} ${SIZE - (height / peak) * SIZE}`);
+  return `M0 ${SIZE} ${steps.join(" ")} L${SIZE} ${SIZE} Z`;
+};
+
+export function ToneCurveEditor({ curve, histogram, onChange }: ToneCurveEditorProps) {
+  const { ranges } = TONE_CURVE_SCHEMA;
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const svgRef = useRef<SVGSVGElement | null>(null);
+  const { points } = curve;
+  const lut = toneCurveLut(curve);
+  const curvePath = Array.from(lut, (value, input) => `${input} ${SIZE - value}`).join(" L");
+
+  const update = (patch: Partial<ToneCurveSettings>, label: string, coalesceKey?: string) =>
+    onChange({ ...curve, ...patch }, label, coalesceKey);
+
+  const toPlot = (clientX: number, clientY: number): CurvePoint => {
+    const bounds = svgRef.current!.getBoundingClientRect();
+    return [
+      Math.round(clamp(((clientX - bounds.left) / bounds.width) * SIZE, 0, SIZE)),
+      Math.round(clamp(SIZE - ((clientY - bounds.top) / bounds.height) * SIZE, 0, SIZE))
+    ];
+  };
+
+  // Points keep their order: a dragged point stays between its neighbours.
+  const movePoint = (index: number, [x, y]: CurvePoint) => {
+    const min = index === 0 ? 0 : points[index - 1][0] + 1;
+    const max = index === points.length - 1 ? SIZE : points[index + 1][0] - 1;
+    const next = points.map(
+      (point, i): CurvePoint => (i === index ? [clamp(x, min, max), y] : point)
+    );
+    update({ points: next }, "Edit tone curve", "toneCurve.points");
+  };
+
+  const nearestPoint = ([x, y]: CurvePoint) => {
+    const bounds = svgRef.current!.getBoundingClientRect();
+    const scale = SIZE / bounds.width;
+    const index = points.findIndex(
+      ([px, py]) => Math.hypot(px - x, py - y) <= HIT_RADIUS * scale
+    );
+    return index === -1 ? null : index;
+  };
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex items-center justify-between">
+        <span className="control-label">Tone Curve</span>
+        <button
+          className="text-xs font-semibold uppercase tracking-[0.2em] text-neutral-400 transition-colors hover:text-neutral-700"
+          onClick={() => onChange(DEFAULT_TONE_CURVE, "Reset tone curve")}
+        >
+          Reset
+        </button>
+      </div>
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${SIZE} ${SIZE}`}
+        className="aspect-square w-full cursor-crosshair touch-none select-none rounded-xl bg-neutral-50 shadow-inner"
+        aria-label="Tone curve"
+        onPointerDown={(event) => {
+          const plot = toPlot(event.clientX, event.clientY);
+          let index = nearestPoint(plot);
+          if (index === null) {
+            if (points.length >= MAX_CURVE_POINTS) return;
+            index = points.findIndex(([x]) => x > plot[0]);
+            if (index <= 0 || points.some(([x]) => x === plot[0])) return;
+            const next = [...points.slice(0, index), plot, ...points.slice(index)];
+            update({ points: next }, "Add curve point");
+          }
+          setDragIndex(index);
+          event.currentTarget.setPointerCapture(event.pointerId);
+        }}
+        onPointerMove={(event) => {
+          if (dragIndex !== null) movePoint(dragIndex, toPlot(event.clientX, event.clientY));
+        }}
+        onPointerUp={() => setDragIndex(null)}
+        onPointerCancel={() => setDragIndex(null)}
+        onDoubleClick={(event) => {
+          const index = nearestPoint(toPlot(event.clientX, event.clientY));
+          if (index === null || index === 0 || index === points.length - 1) return;
+          update({ points: points.filter((_, i) => i !== index) }, "Remove curve point");
+        }}
+      >
+        {histogram && <path d={histogramPath(histogram)} className="fill-neutral-200" />}
+        {[curve.shadowSplit, curve.highlightSplit].map((split, index) => (
+          <line
+            key={index}
+            x1={split}
+            x2={split}
+            y1={0}
+            y2={SIZE}
+            className="stroke-neutral-300"
+            strokeDasharray="4 4"
+          />
+        ))}
+        <line x1={0} y1={SIZE} x2={SIZE} y2={0} className="stroke-neutral-200" />
+        <path d={`M${curvePath}`} fill="none" className="stroke-neutral-800" strokeWidth={2} />
+        {points.map(([x, y], index) => (
+          <circle
+            key={index}
+            cx={x}
+            cy={SIZE - y}
+            r={5}
+            className={index === dragIndex ? "fill-neutral-900" : "fill-white stroke-neutral-800"}
+            strokeWidth={2}
+          />
+        ))}
+      </svg>
+      <p className="text-[0.65rem] text-neutral-500">
+        Click to add a point, drag to shape, double-click to remove.
+      </p>
+      <SliderControl
+        label="Shadows"
+        {...ranges.shadows}
+        value={curve.shadows}
+        onChange={(shadows) => update({ shadows }, "Shadows", "toneCurve.shadows")}
+      />
+      <SliderControl
+        label="Midtones"
+        {...ranges.midtones}
+        value={curve.midtones}
+        onChange={(midtones) => update({ midtones }, "Midtones", "toneCurve.midtones")}
+      />
+      <SliderControl
+        label="Highlights"
+        {...ranges.highlights}
+        value={curve.highlights}
+        onChange={(highlights) => update({ highlights }, "Highlights", "toneCurve.highlights")}
+      />
+      <SliderControl
+        label="Shadow Split"
+        {...ranges.shadowSplit}
+        max={Math.min(ranges.shadowSplit.max, curve.highlightSplit - 1)}
+        value={curve.shadowSplit}
+        onChange={(shadowSplit) =>
+          update({ shadowSplit }, "Shadow Split", "toneCurve.shadowSplit")
+        }
+      />
+      <SliderControl
+        label="Highlight Split"
+        {...ranges.highlightSplit}
+        min={Math.max(ranges.highlightSplit.min, curve.shadowSplit + 1)}
+        value={curve.highlightSplit}
+        onChange={(highlightSplit) =>
+          update({ highlightSplit }, "Highlight Split", "toneCurve.highlightSplit")
+        }
+      />
+    </div>
+  );
+}
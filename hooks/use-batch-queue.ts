@@ -0,0 +1,200 @@
+"use client";
+
+import { type RefObject, useCallback, useEffect, useRef, useState } from "react";
+import { downloadBlob } from "../utils/download";
+import { applyDpi } from "../utils/image-metadata";
+import { decodeImage, isImageFile } from "../utils/ingest";
+import type { OutputFormat } from "../utils/output-format";
+import type { EffectSettings } from "../utils/plaster-effect";
+import type { PipelineEntry } from "../utils/pipeline";
+import type { PlasterRenderClient } from "../utils/plaster-worker-client";
+import {
+  type SettingsOverrides,
+  applyOverrides,
+  diffSettings
+} from "../utils/settings-schema";
+import { createZip } from "../utils/zip";
+
+export type BatchStatus = "queued" | "processing" | "done" | "error";
+
+export interface BatchItem {
+  id: string;
+  file: File;
+  thumbnailUrl: string;
+  status: BatchStatus;
+  overrides: SettingsOverrides | null; // layered over the batch look at render time
+  resultUrl: string | null;
+  result: Blob | null;
+  renderedWith: string | null;
+  error: string | null;
+}
+
+interface BatchQueueOptions {
+  renderer: RefObject<PlasterRenderClient | null>;
+  settings: EffectSettings; // the editor's current sliders
+  pipeline: readonly PipelineEntry[];
+  format: OutputFormat;
+}
+
+let nextItemId = 0;
+
+const outputName = (file: File) =>
+  `${file.name.replace(/\.[^.]+$/, "") || "portrait"}-plaster.png`;
+
+const uniqueNames = (names: string[]) => {
+  const seen = new Map<string, number>();
+  return names.map((name) => {
+    const count = seen.get(name) ?? 0;
+    seen.set(name, count + 1);
+    return count === 0 ? name : name.replace(/\.png$/, `-${count + 1}.png`);
+  });
+};
+
+export const useBatchQueue = ({
+  renderer,
+  settings,
+  pipeline,
+  format
+}: BatchQueueOptions) => {
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  // The look shared by the whole queue. It is taken from the sliders when
+  // the queue starts and on request, so a pinned image's overrides stay a
+  // diff against it and later changes to it still reach that image.
+  const [look, setLook] = useState(settings);
+  const itemsRef = useRef(items);
+  itemsRef.current = items;
+
+  const updateItem = useCallback((id: string, patch: Partial<BatchItem>) => {
+    setItems((prev) => prev.map((item) => (item.id === id ? { ...item, ...patch } : item)));
+  }, []);
+
+  const releaseItem = (item: BatchItem) => {
+    URL.revokeObjectURL(item.thumbnailUrl);
+    if (item.resultUrl) URL.revokeObjectURL(item.resultUrl);
+  };
+
+  useEffect(() => () => itemsRef.current.forEach(releaseItem), []);
+
+  const addFiles = useCallback((files: Iterable<File>) => {
+    if (itemsRef.current.length === 0) setLook(settings);
+    const added = Array.from(files)
+      .filter(isImageFile)
+      .map<BatchItem>((file) => ({
+        id: `batch-${++nextItemId}`,
+        file,
+        thumbnailUrl: URL.createObjectURL(file),
+        status: "queued",
+        overrides: null,
+        resultUrl: null,
+        result: null,
+        renderedWith: null,
+        error: null
+      }));
+    setItems((prev) => [...prev, ...added]);
+    return added.length;
+  }, [settings]);
+
+  const removeItem = useCallback((id: string) => {
+    setItems((prev) => {
+      const item = prev.find((entry) => entry.id === id);
+      if (item) releaseItem(item);
+      return prev.filter((entry) => entry.id !== id);
+    });
+  }, []);
+
+  const clear = useCallback(() => {
+    setItems((prev) => {
+      prev.forEach(releaseItem);
+      return [];
+    });
+  }, []);
+
+  const adoptCurrentLook = useCallback(() => setLook(settings), [settings]);
+
+  // Keeps only where the sliders differ from the batch look.
+  const pinOverrides = useCallback(
+    (id: string) => {
+      const overrides = diffSettings(settings, look);
+      updateItem(id, { overrides: Object.keys(overrides).length > 0 ? overrides : null });
+    },
+    [settings, look, updateItem]
+  );
+
+  const clearOverrides = useCallback(
+    (id: string) => updateItem(id, { overrides: null }),
+    [updateItem]
+  );
+
+  const process = useCallback(async () => {
+    const client = renderer.current;
+    if (!client || isRunning) return;
+    setIsRunning(true);
+
+    for (const item of itemsRef.current) {
+      const current = itemsRef.current.find((entry) => entry.id === item.id);
+      if (!current) continue;
+
+      const effective = current.overrides ? applyOverrides(look, current.overrides) : look;
+      const renderKey = JSON.stringify({ effective, pipeline, format });
+      if (current.status === "done" && current.renderedWith === renderKey) continue;
+
+      updateItem(current.id, { status: "processing", error: null });
+      try {
+        const bitmap = await decodeImage(current.file);
+        const rendered = await client.renderToBlob(bitmap, {
+          settings: effective,
+          pipeline,
+          width: format.width,
+          height: format.height
+        });
+        const result = await applyDpi(rendered, format.dpi);
+        if (current.resultUrl) URL.revokeObjectURL(current.resultUrl);
+        updateItem(current.id, {
+          status: "done",
+          result,
+          resultUrl: URL.createObjectURL(result),
+          renderedWith: renderKey
+        });
+      } catch (error) {
+        console.error(error);
+        updateItem(current.id, {
+          status: "error",
+          error: error instanceof Error ? error.message : "Processing failed"
+        });
+      }
+    }
+
+    setIsRunning(false);
+  }, [renderer, isRunning, look, pipeline, format, updateItem]);
+
+  const downloadAll = useCallback(async () => {
+    const finished = itemsRef.current.filter(
+      (item): item is BatchItem & { result: Blob } => item.status === "done" && !!item.result
+    );
+    if (finished.length === 0) return;
+
+    const names = uniqueNames(finished.map((item) => outputName(item.file)));
+    const entries = await Promise.all(
+      finished.map(async (item, index) => ({
+        name: names[index],
+        data: new Uint8Array(await item.result.arrayBuffer())
+      }))
+    );
+    downloadBlob(createZip(entries), "plaster-batch.zip");
+  }, []);
+
+  return {
+    items,
+    isRunning,
+    isLookCurrent: Object.keys(diffSettings(settings, look)).length === 0,
+    addFiles,
+    removeItem,
+    clear,
+    adoptCurrentLook,
+    pinOverrides,
+    clearOverrides,
+    process,
+    downloadAll
+  };
+};
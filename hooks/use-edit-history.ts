@@ -0,0 +1,65 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import {
+  type CommitOptions,
+  type EditHistory,
+  commitHistory,
+  createHistory,
+  jumpHistory,
+  redoHistory,
+  undoHistory
+} from "../utils/edit-history";
+
+const isTextField = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable ||
+    target instanceof HTMLTextAreaElement ||
+    (target instanceof HTMLInputElement && target.type !== "range"));
+
+export const useEditHistory = <T>(initial: T) => {
+  const [history, setHistory] = useState<EditHistory<T>>(() => createHistory(initial));
+
+  const commit = useCallback(
+    (update: (value: T) => T, label: string, options?: CommitOptions) =>
+      setHistory((prev) =>
+        commitHistory(prev, update(prev.entries[prev.index].value), label, options)
+      ),
+    []
+  );
+
+  const undo = useCallback(() => setHistory(undoHistory), []);
+  const redo = useCallback(() => setHistory(redoHistory), []);
+  const jumpTo = useCallback(
+    (index: number) => setHistory((prev) => jumpHistory(prev, index)),
+    []
+  );
+
+  useEffect(() => {
+    const handleKey = (event: KeyboardEvent) => {
+      if (!(event.metaKey || event.ctrlKey) || isTextField(event.target)) return;
+      const key = event.key.toLowerCase();
+      if (key === "z" && !event.shiftKey) {
+        event.preventDefault();
+        undo();
+      } else if ((key === "z" && event.shiftKey) || key === "y") {
+        event.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener("keydown", handleKey);
+    return () => window.removeEventListener("keydown", handleKey);
+  }, [undo, redo]);
+
+  return {
+    present: history.entries[history.index].value,
+    history,
+    canUndo: history.index > 0,
+    canRedo: history.index < history.entries.length - 1,
+    commit,
+    undo,
+    redo,
+    jumpTo,
+    replace: setHistory
+  };
+};
@@ -0,0 +1,181 @@
+"use client";
+
+import { type RefObject, useCallback, useEffect, useRef, useState } from "react";
+import {
+  type CanvasRecording,
+  type MediaSourceHandle,
+  createTestPatternStream,
+  openCameraStream,
+  recordCanvas
+} from "../utils/media-sources";
+import type { PlasterRenderClient, RenderJob } from "../utils/plaster-worker-client";
+
+export type LiveSourceKind = "camera" | "video" | "test-pattern";
+
+interface LiveInputOptions {
+  renderer: RefObject<PlasterRenderClient | null>;
+  job: RenderJob;
+}
+
+export const useLiveInput = ({ renderer, job }: LiveInputOptions) => {
+  const [source, setSource] = useState<LiveSourceKind | null>(null);
+  const [isRecording, setIsRecording] = useState(false);
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const videoRef = useRef<HTMLVideoElement | null>(null);
+  const handleRef = useRef<MediaSourceHandle | null>(null);
+  const objectUrlRef = useRef<string | null>(null);
+  const recordingRef = useRef<CanvasRecording | null>(null);
+  const frameRef = useRef<number | null>(null);
+  // One frame in flight at a time: a new source bitmap would supersede the
+  // running job, so the loop waits for each render to land or be dropped.
+  const pendingRef = useRef(false);
+  // Set synchronously, unlike `source`, so the first rendered frame is not
+  // mistaken for a still.
+  const streamingRef = useRef(false);
+  const jobRef = useRef(job);
+  jobRef.current = job;
+
+  const releaseSource = useCallback(() => {
+    if (frameRef.current !== null) cancelAnimationFrame(frameRef.current);
+    frameRef.current = null;
+    pendingRef.current = false;
+    streamingRef.current = false;
+    handleRef.current?.stop();
+    handleRef.current = null;
+    if (objectUrlRef.current) URL.revokeObjectURL(objectUrlRef.current);
+    objectUrlRef.current = null;
+    const video = videoRef.current;
+    if (video) {
+      video.pause();
+      video.srcObject = null;
+      video.removeAttribute("src");
+    }
+  }, []);
+
+  const stop = useCallback(() => {
+    releaseSource();
+    renderer.current?.cancel();
+    setSource(null);
+  }, [releaseSource, renderer]);
+
+  const start = useCallback(
+    async (kind: LiveSourceKind, file?: File) => {
+      releaseSource();
+      const video = (videoRef.current ??= document.createElement("video"));
+      video.muted = true;
+      video.playsInline = true;
+
+      if (kind === "video") {
+        if (!file) throw new Error("Choose a video file");
+        objectUrlRef.current = URL.createObjectURL(file);
+        video.loop = true;
+        video.src = objectUrlRef.current;
+      } else {
+        handleRef.current =
+          kind === "camera" ? await openCameraStream() : createTestPatternStream();
+        video.loop = false;
+        video.srcObject = handleRef.current.stream;
+      }
+      await video.play();
+      streamingRef.current = true;
+      setSource(kind);
+
+      const tick = () => {
+        frameRef.current = requestAnimationFrame(tick);
+        const client = renderer.current;
+        const ready = video.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA;
+        if (!client || pendingRef.current || !ready) return;
+        pendingRef.current = true;
+        createImageBitmap(video)
+          .then((bitmap) => {
+            client.setSource(bitmap);
+            client.render({ ...jobRef.current, refinement: null });
+          })
+          .catch(() => {
+            pendingRef.current = false;
+          });
+      };
+      tick();
+    },
+    [releaseSource, renderer]
+  );
+
+  // Called by the page's render handlers while live mode is on.
+  const presentFrame = useCallback((bitmap: ImageBitmap) => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext("2d");
+    if (canvas && context) {
+      if (canvas.width !== bitmap.width || canvas.height !== bitmap.height) {
+        canvas.width = bitmap.width;
+        canvas.height = bitmap.height;
+      }
+      context.drawImage(bitmap, 0, 0);
+    }
+    bitmap.close();
+    pendingRef.current = false;
+  }, []);
+
+  const isStreaming = useCallback(() => streamingRef.current, []);
+
+  // Called whenever the render client goes idle. A frame not presented by
+  // then never will be: it failed, was superseded, went stale behind a source
+  // swap or was dropped by cancel(), so the loop may send the next one.
+  const releaseFrame = useCallback(() => {
+    pendingRef.current = false;
+  }, []);
+
+  // Grabs the unprocessed frame at full camera resolution, so the still
+  // workflow can re-render it at any output size.
+  const captureStill = useCallback(async () => {
+    const video = videoRef.current;
+    if (!video || video.videoWidth === 0) {
+      throw new Error("No live frame to capture");
+    }
+    const canvas = document.createElement("canvas");
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    canvas.getContext("2d")?.drawImage(video, 0, 0);
+    return new Promise<Blob>((resolve, reject) =>
+      canvas.toBlob(
+        (blob) => (blob ? resolve(blob) : reject(new Error("Unable to capture frame"))),
+        "image/png"
+      )
+    );
+  }, []);
+
+  const startRecording = useCallback(() => {
+    if (!canvasRef.current || recordingRef.current) return;
+    recordingRef.current = recordCanvas(canvasRef.current);
+    setIsRecording(true);
+  }, []);
+
+  const stopRecording = useCallback(async () => {
+    const recording = recordingRef.current;
+    recordingRef.current = null;
+    setIsRecording(false);
+    return recording ? recording.stop() : null;
+  }, []);
+
+  useEffect(
+    () => () => {
+      void recordingRef.current?.stop();
+      releaseSource();
+    },
+    [releaseSource]
+  );
+
+  return {
+    source,
+    isActive: source !== null,
+    isRecording,
+    isStreaming,
+    canvasRef,
+    start,
+    stop,
+    presentFrame,
+    releaseFrame,
+    captureStill,
+    startRecording,
+    stopRecording
+  };
+};
@@ -0,0 +1,15 @@
+// Copies libheif-js's self-contained WASM bundle into public/, where
+// utils/heif-decoder.ts loads it from on first use. Runs after every
+// install, so the served copy always matches the installed package.
+
+import { copyFile, mkdir } from "node:fs/promises";
+import { createRequire } from "node:module";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+
+const require = createRequire(import.meta.url);
+const source = require.resolve("libheif-js/libheif-wasm/libheif-bundle.mjs");
+const target = fileURLToPath(new URL("../public/vendor/libheif/", import.meta.url));
+
+await mkdir(target, { recursive: true });
+await copyFile(source, path.join(target, "libheif-bundle.mjs"));
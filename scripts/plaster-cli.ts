@@ -0,0 +1,368 @@
+#!/usr/bin/env node
+// Headless plaster renderer for build scripts and pipelines.
+//
+//   npx tsx scripts/plaster-cli.ts "shoot/**/*.jpg" --out dist/plaster --width 1080 --height 1350
+//
+// Run with --help for the full flag list.
+
+import { mkdir, readFile, readdir, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { parseArgs } from "node:util";
+import { createCanvas, loadImage } from "@napi-rs/canvas";
+import { DEFAULT_PIPELINE } from "../utils/effect-stages";
+import { EXPORT_FILE_TYPES, type ExportFileType } from "../utils/export-encoding";
+import { withMetadata } from "../utils/image-metadata";
+import {
+  DEFAULT_OUTPUT_FORMAT,
+  OUTPUT_FORMATS,
+  validateOutputFormat
+} from "../utils/output-format";
+import {
+  type EffectSettings,
+  type RenderContext2D,
+  renderPlasterEffect
+} from "../utils/plaster-effect";
+import { parsePresetFile } from "../utils/presets";
+import { APP_SOFTWARE, serializeRecipe } from "../utils/recipe";
+import {
+  type ChoiceSettingKey,
+  DEFAULT_SETTINGS,
+  FACE_SCHEMA,
+  type NumericSettingKey,
+  LOCAL_TONE_SCHEMA,
+  PEDESTAL_SCHEMA,
+  SETTING_CHOICES,
+  SETTING_RANGES,
+  SMOOTHING_SCHEMA,
+  TEXTURE_SCHEMA,
+  TONE_CURVE_SCHEMA,
+  parseSettings
+} from "../utils/settings-schema";
+import { encodeTiff16 } from "../utils/tiff";
+
+const numericKeys = Object.keys(SETTING_RANGES) as NumericSettingKey[];
+const choiceKeys = Object.keys(SETTING_CHOICES) as ChoiceSettingKey[];
+const settingKeys: (keyof EffectSettings)[] = [...numericKeys, ...choiceKeys];
+
+// Nested settings get prefixed flags, e.g. --pedestal-shape or --texture-seed.
+const SETTING_GROUPS = {
+  smoothing: SMOOTHING_SCHEMA,
+  pedestal: PEDESTAL_SCHEMA,
+  texture: TEXTURE_SCHEMA,
+  toneCurve: TONE_CURVE_SCHEMA,
+  localTone: LOCAL_TONE_SCHEMA,
+  face: FACE_SCHEMA
+} as const;
+type SettingGroup = keyof typeof SETTING_GROUPS;
+const groupFlags = (Object.keys(SETTING_GROUPS) as SettingGroup[]).flatMap((group) => {
+  const { ranges, choices } = SETTING_GROUPS[group];
+  return [
+    ...Object.entries(ranges).map(([key, { min, max }]) => ({
+      group,
+      key,
+      flag: `${group}-${key}`,
+      hint: `${min}..${max}`,
+      numeric: true
+    })),
+    ...Object.entries<readonly string[]>(choices).map(([key, list]) => ({
+      group,
+      key,
+      flag: `${group}-${key}`,
+      hint: list.join("|"),
+      numeric: false
+    }))
+  ];
+});
+
+const usage = `Usage: plaster-cli <input...> [options]
+
+Inputs may be files, directories or glob patterns (*, ?, **).
+
+Options:
+  -o, --out <dir>          Output directory (default: plaster-output)
+  -f, --format <type>      ${EXPORT_FILE_TYPES.map((type) => type.id).join(", ")} (default: png)
+  -q, --quality <0-100>    JPEG/WebP quality (default: 92)
+  -s, --size <format>      Output format: ${OUTPUT_FORMATS.map((format) => format.id).join(", ")}
+                           (default: ${DEFAULT_OUTPUT_FORMAT.id})
+      --width <px>         Output width (overrides --size)
+      --height <px>        Output height (overrides --size)
+      --dpi <n>            Resolution written to the file metadata (overrides --size)
+  -p, --preset <file>      Preset JSON: an exported preset file or a plain settings object
+      --preset-name <name> Preset to use from a multi-preset file (default: first)
+      --disable <stage>    Skip a pipeline stage; repeatable
+      --no-recipe          Do not embed the settings recipe in the output
+  -h, --help               Show this message
+
+Effect settings (override the preset):
+${numericKeys
+  .map((key) => `      --${key} <${SETTING_RANGES[key].min}..${SETTING_RANGES[key].max}>`)
+  .join("\n")}
+${choiceKeys.map((key) => `      --${key} <${SETTING_CHOICES[key].join("|")}>`).join("\n")}
+${groupFlags.map(({ flag, hint }) => `      --${flag} <${hint}>`).join("\n")}
+`;
+
+const IMAGE_EXTENSIONS = new Set([".png", ".jpg", ".jpeg", ".webp", ".gif", ".bmp", ".avif"]);
+
+const hasGlob = (pattern: string) => /[*?[\]{}]/.test(pattern);
+
+const globToRegExp = (pattern: string) => {
+  let source = "";
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === "*") {
+      if (pattern[i + 1] === "*") {
+        const trailingSlash = pattern[i + 2] === "/";
+        source += trailingSlash ? "(?:.*/)?" : ".*";
+        i += trailingSlash ? 2 : 1;
+      } else {
+        source += "[^/]*";
+      }
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "{") {
+      const close = pattern.indexOf("}", i);
+      if (close === -1) {
+        source += "\\{";
+      } else {
+        source += `(?:${pattern
+          .slice(i + 1, close)
+          .split(",")
+          .map((part) => part.replace(/[.+^$()|\\]/g, "\\$&"))
+          .join("|")})`;
+        i = close;
+      }
+    } else {
+      source += char.replace(/[.+^$()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`);
+};
+
+const walk = async (directory: string): Promise<string[]> => {
+  const entries = await readdir(directory, { withFileTypes: true });
+  const nested = await Promise.all(
+    entries.map((entry) => {
+      const fullPath = path.join(directory, entry.name);
+      return entry.isDirectory() ? walk(fullPath) : Promise.resolve([fullPath]);
+    })
+  );
+  return nested.flat();
+};
+
+const expandInput = async (input: string) => {
+  const normalised = input.split(path.sep).join("/");
+
+  if (!hasGlob(normalised)) {
+    try {
+      const files = await walk(normalised);
+      return files.filter((file) => IMAGE_EXTENSIONS.has(path.extname(file).toLowerCase()));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOTDIR") return [normalised];
+      throw error;
+    }
+  }
+
+  const segments = normalised.split("/");
+  const firstGlob = segments.findIndex(hasGlob);
+  const base = segments.slice(0, firstGlob).join("/") || ".";
+  const matcher = globToRegExp(segments.slice(firstGlob).join("/"));
+  const files = await walk(base);
+  return files.filter((file) =>
+    matcher.test(path.relative(base, file).split(path.sep).join("/"))
+  );
+};
+
+const readPreset = async (file: string, presetName?: string) => {
+  const text = await readFile(file, "utf8");
+  const raw = JSON.parse(text) as { format?: unknown };
+
+  if (typeof raw === "object" && raw !== null && "format" in raw) {
+    const presets = parsePresetFile(text);
+    const preset = presetName
+      ? presets.find((entry) => entry.name === presetName)
+      : presets[0];
+    if (!preset) {
+      throw new Error(
+        presetName ? `Preset "${presetName}" not found in ${file}` : `${file} has no presets`
+      );
+    }
+    return preset.settings;
+  }
+
+  return parseSettings(raw, file);
+};
+
+interface FormatFlags {
+  size?: string;
+  width?: string;
+  height?: string;
+  dpi?: string;
+}
+
+const resolveFormat = ({ size, ...overrides }: FormatFlags) => {
+  const base = size
+    ? OUTPUT_FORMATS.find((format) => format.id === size)
+    : DEFAULT_OUTPUT_FORMAT;
+  if (!base) {
+    throw new Error(
+      `Unknown size "${size}". Sizes: ${OUTPUT_FORMATS.map((format) => format.id).join(", ")}`
+    );
+  }
+
+  const format = {
+    ...base,
+    width: overrides.width === undefined ? base.width : Number(overrides.width),
+    height: overrides.height === undefined ? base.height : Number(overrides.height),
+    dpi: overrides.dpi === undefined ? base.dpi : Number(overrides.dpi)
+  };
+  const problem = validateOutputFormat(format);
+  if (problem) {
+    throw new Error(problem);
+  }
+  return format;
+};
+
+const main = async () => {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      out: { type: "string", short: "o", default: "plaster-output" },
+      format: { type: "string", short: "f", default: "png" },
+      quality: { type: "string", short: "q", default: "92" },
+      size: { type: "string", short: "s" },
+      width: { type: "string" },
+      height: { type: "string" },
+      dpi: { type: "string" },
+      preset: { type: "string", short: "p" },
+      "preset-name": { type: "string" },
+      disable: { type: "string", multiple: true, default: [] },
+      "no-recipe": { type: "boolean", default: false },
+      help: { type: "boolean", short: "h", default: false },
+      ...Object.fromEntries(settingKeys.map((key) => [key, { type: "string" as const }])),
+      ...Object.fromEntries(groupFlags.map(({ flag }) => [flag, { type: "string" as const }]))
+    }
+  });
+
+  if (values.help || positionals.length === 0) {
+    process.stdout.write(usage);
+    process.exitCode = values.help ? 0 : 1;
+    return;
+  }
+
+  const aliases: Record<string, string> = { jpg: "jpeg", tif: "tiff" };
+  const fileType = EXPORT_FILE_TYPES.find(
+    (type) => type.id === (aliases[values.format] ?? values.format)
+  );
+  if (!fileType) {
+    throw new Error(
+      `--format must be one of ${EXPORT_FILE_TYPES.map((type) => type.id).join(", ")}`
+    );
+  }
+  const quality = Number(values.quality);
+  if (!Number.isFinite(quality) || quality < 0 || quality > 100) {
+    throw new Error("--quality must be between 0 and 100");
+  }
+
+  const { width, height, dpi } = resolveFormat(values);
+
+  const base = values.preset
+    ? await readPreset(values.preset, values["preset-name"])
+    : DEFAULT_SETTINGS;
+  const settingFlags = values as Record<string, unknown>;
+  const overrides = Object.fromEntries(
+    settingKeys
+      .filter((key) => settingFlags[key] !== undefined)
+      .map((key) => [
+        key,
+        key in SETTING_RANGES ? Number(settingFlags[key]) : settingFlags[key]
+      ])
+  );
+  // Parsed in two passes so group flags refine the preset's groups,
+  // including a pedestal rebuilt from a legacy `standHeight`.
+  const merged = parseSettings({ ...base, ...overrides }, "flags");
+  const groups: Partial<Record<SettingGroup, Record<string, unknown>>> = {};
+  for (const { group, key, flag, numeric } of groupFlags) {
+    const value = settingFlags[flag];
+    if (value === undefined) continue;
+    groups[group] = { ...merged[group], ...groups[group], [key]: numeric ? Number(value) : value };
+  }
+  const settings = parseSettings({ ...merged, ...groups }, "flags");
+
+  const disabled = new Set(values.disable);
+  const unknownStage = [...disabled].find(
+    (id) => !DEFAULT_PIPELINE.some((entry) => entry.id === id)
+  );
+  if (unknownStage) {
+    throw new Error(
+      `Unknown stage "${unknownStage}". Stages: ${DEFAULT_PIPELINE.map((entry) => entry.id).join(", ")}`
+    );
+  }
+  const pipeline = DEFAULT_PIPELINE.map((entry) => ({
+    ...entry,
+    enabled: !disabled.has(entry.id)
+  }));
+
+  const inputs = [...new Set((await Promise.all(positionals.map(expandInput))).flat())];
+  if (inputs.length === 0) {
+    throw new Error("No input images matched");
+  }
+
+  const outDir = values.out;
+  await mkdir(outDir, { recursive: true });
+
+  const canvas = createCanvas(width, height);
+  const context = canvas.getContext("2d") as unknown as RenderContext2D;
+  const metadata = {
+    dpi,
+    software: APP_SOFTWARE,
+    recipe: values["no-recipe"] ? undefined : serializeRecipe(settings)
+  };
+  const encode = async (type: ExportFileType) => {
+    switch (type) {
+      case "tiff": {
+        const { data } = context.getImageData(0, 0, width, height);
+        return encodeTiff16(data, width, height);
+      }
+      case "jpeg":
+      case "webp":
+        return canvas.encode(type, Math.round(quality));
+      default:
+        return canvas.encode("png");
+    }
+  };
+  let failures = 0;
+
+  for (const input of inputs) {
+    const target = path.join(
+      outDir,
+      `${path.basename(input, path.extname(input))}-plaster.${fileType.extension}`
+    );
+    try {
+      const image = await loadImage(await readFile(input));
+      renderPlasterEffect({
+        source: image as unknown as CanvasImageSource,
+        context,
+        settings,
+        pipeline,
+        width,
+        height
+      });
+      await writeFile(target, withMetadata(await encode(fileType.id), metadata));
+      process.stdout.write(`${input} -> ${target}\n`);
+    } catch (error) {
+      failures++;
+      process.stderr.write(
+        `${input}: ${error instanceof Error ? error.message : String(error)}\n`
+      );
+    }
+  }
+
+  if (failures > 0) {
+    process.exitCode = 1;
+  }
+};
+
+main().catch((error) => {
+  process.stderr.write(`${error instanceof Error ? error.message : String(error)}\n`);
+  process.exitCode = 1;
+});
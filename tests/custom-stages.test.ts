@@ -0,0 +1,50 @@
+import { createCanvas } from "@napi-rs/canvas";
+import { describe, expect, it, vi } from "vitest";
+import { DEFAULT_PIPELINE } from "../utils/effect-stages";
+import { type EffectStage, getStage, reconcilePipeline } from "../utils/pipeline";
+import { DEFAULT_SETTINGS } from "../utils/settings-schema";
+import { renderHeadless } from "./helpers/headless";
+
+// Stamps a red square into the corner after everything else has drawn.
+const { stampStage } = vi.hoisted(() => ({
+  stampStage: {
+    id: "stamp",
+    label: "Stamp",
+    target: "canvas",
+    settingKeys: [],
+    run: ({ context }) => {
+      context.fillStyle = "#ff0000";
+      context.fillRect(0, 0, 4, 4);
+    }
+  } satisfies EffectStage
+}));
+
+vi.mock("../utils/custom-stages", () => ({ CUSTOM_STAGES: [stampStage] }));
+
+describe("custom stages", () => {
+  it("registers listed stages and appends them to the default pipeline", () => {
+    expect(getStage("stamp")).toBe(stampStage);
+    expect(DEFAULT_PIPELINE.at(-1)).toEqual({ id: "stamp", enabled: true });
+  });
+
+  // renderHeadless goes through utils/renderer, the module the render
+  // worker imports, so a listed stage is one the worker can run.
+  it("runs them on the renderer the worker uses", () => {
+    const source = createCanvas(90, 120);
+    const context = source.getContext("2d");
+    context.fillStyle = "#8c8c8c";
+    context.fillRect(0, 0, 90, 120);
+
+    const rendered = renderHeadless(source, {
+      settings: DEFAULT_SETTINGS,
+      width: 90,
+      height: 120
+    });
+    expect(Array.from(rendered.data.subarray(0, 4))).toEqual([255, 0, 0, 255]);
+  });
+
+  it("adds them to pipelines saved before they existed", () => {
+    const saved = DEFAULT_PIPELINE.filter((entry) => entry.id !== "stamp");
+    expect(reconcilePipeline(saved, DEFAULT_PIPELINE)).toEqual(DEFAULT_PIPELINE);
+  });
+});
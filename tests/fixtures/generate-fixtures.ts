@@ -0,0 +1,32 @@
+// Writes the synthetic portraits the golden tests render, and a quarter-size
+// HEIC of the first for the decoder tests. They are committed, so this only
+// needs running to add or change a fixture:
+//
+//   npx tsx tests/fixtures/generate-fixtures.ts
+
+import { writeFile } from "node:fs/promises";
+import { fileURLToPath } from "node:url";
+import { createCanvas } from "@napi-rs/canvas";
+import { encodeHeic } from "../helpers/heic-writer";
+import { scaleImage } from "../helpers/headless";
+import { PORTRAIT_HEIGHT, PORTRAIT_WIDTH, SITTERS, drawPortrait } from "./portraits";
+
+const save = async (name: string, bytes: Uint8Array) => {
+  const target = fileURLToPath(new URL(name, import.meta.url));
+  await writeFile(target, bytes);
+  process.stdout.write(`${target}\n`);
+};
+
+const main = async () => {
+  for (const sitter of SITTERS) {
+    const canvas = createCanvas(PORTRAIT_WIDTH, PORTRAIT_HEIGHT);
+    drawPortrait(canvas.getContext("2d") as unknown as CanvasRenderingContext2D, sitter);
+    await save(`${sitter.name}.png`, await canvas.encode("png"));
+    if (sitter === SITTERS[0]) {
+      const small = scaleImage(canvas, PORTRAIT_WIDTH / 4, PORTRAIT_HEIGHT / 4);
+      await save(`${sitter.name}.heic`, encodeHeic(small));
+    }
+  }
+};
+
+void main();
@@ -0,0 +1,96 @@
+// Synthetic sitters for the tests: a lit backdrop, hair, face, neck and coat
+// with seeded sensor grain, so every run draws the same bytes. Uses only the
+// standard 2D context API, so it draws in the browser and in Node alike.
+
+export const PORTRAIT_WIDTH = 360;
+export const PORTRAIT_HEIGHT = 480;
+
+export interface Sitter {
+  name: string;
+  backdrop: string;
+  skin: string;
+  hair: string;
+  coat: string;
+  centerX: number; // face centre, in fractions of the frame
+  centerY: number;
+  grain: number; // sensor noise amplitude
+}
+
+export const SITTERS: readonly Sitter[] = [
+  {
+    name: "portrait-centred",
+    backdrop: "rgb(120, 135, 150)",
+    skin: "rgb(224, 172, 140)",
+    hair: "rgb(40, 30, 25)",
+    coat: "rgb(60, 70, 90)",
+    centerX: 0.5,
+    centerY: 0.36,
+    grain: 24
+  },
+  {
+    name: "portrait-offset",
+    backdrop: "rgb(196, 186, 170)",
+    skin: "rgb(150, 102, 78)",
+    hair: "rgb(22, 18, 16)",
+    coat: "rgb(128, 40, 36)",
+    centerX: 0.62,
+    centerY: 0.32,
+    grain: 12
+  }
+];
+
+type PortraitContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+// Integer hash of a pixel position, in [0, 1).
+const grainAt = (x: number, y: number) => {
+  let h = Math.imul(x, 374761393) + Math.imul(y, 668265263);
+  h = Math.imul(h ^ (h >>> 13), 1274126177);
+  return ((h ^ (h >>> 16)) >>> 0) / 4294967296;
+};
+
+const ellipse = (
+  context: PortraitContext,
+  x: number,
+  y: number,
+  radiusX: number,
+  radiusY: number,
+  colour: string
+) => {
+  context.fillStyle = colour;
+  context.beginPath();
+  context.ellipse(x, y, radiusX, radiusY, 0, 0, Math.PI * 2);
+  context.fill();
+};
+
+export const drawPortrait = (context: PortraitContext, sitter: Sitter) => {
+  const width = PORTRAIT_WIDTH;
+  const height = PORTRAIT_HEIGHT;
+  const x = sitter.centerX * width;
+  const y = sitter.centerY * height;
+  const unit = width / 900;
+
+  const backdrop = context.createRadialGradient(x, y, 0, x, y, height);
+  backdrop.addColorStop(0, sitter.backdrop);
+  backdrop.addColorStop(1, "rgb(30, 30, 34)");
+  context.fillStyle = backdrop;
+  context.fillRect(0, 0, width, height);
+
+  ellipse(context, x, y - 60 * unit, 170 * unit, 190 * unit, sitter.hair);
+  context.fillStyle = sitter.coat;
+  context.fillRect(x - 300 * unit, y + 300 * unit, 600 * unit, height);
+  context.fillStyle = sitter.skin;
+  context.fillRect(x - 55 * unit, y + 150 * unit, 110 * unit, 170 * unit);
+  ellipse(context, x, y, 128 * unit, 168 * unit, sitter.skin);
+  for (const side of [-1, 1]) {
+    ellipse(context, x + side * 50 * unit, y - 20 * unit, 20 * unit, 10 * unit, "rgb(50, 35, 30)");
+  }
+  ellipse(context, x, y + 85 * unit, 40 * unit, 12 * unit, "rgb(150, 60, 60)");
+
+  const image = context.getImageData(0, 0, width, height);
+  for (let i = 0; i < image.data.length; i += 4) {
+    const pixel = i / 4;
+    const noise = (grainAt(pixel % width, Math.floor(pixel / width)) - 0.5) * sitter.grain;
+    for (let channel = 0; channel < 3; channel++) image.data[i + channel] += noise;
+  }
+  context.putImageData(image, 0, 0);
+};
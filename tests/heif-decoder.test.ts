@@ -0,0 +1,29 @@
+import { readFile } from "node:fs/promises";
+import { ImageData } from "@napi-rs/canvas";
+import { describe, expect, it, vi } from "vitest";
+import { decodeHeif } from "../utils/heif-decoder";
+import { loadFixture, scaleImage } from "./helpers/headless";
+import { compareImages } from "./helpers/perceptual-diff";
+
+// The decoder writes into the browser's ImageData; vitest.config.ts points
+// its libheif URL at the package.
+vi.stubGlobal("ImageData", ImageData);
+
+const HEIC = new URL("./fixtures/portrait-centred.heic", import.meta.url);
+
+describe("decodeHeif", () => {
+  // The fixture is a tiled grid, as phones write, of the portrait at a
+  // quarter size; see generate-fixtures.ts.
+  it("decodes a tiled HEIC photo", async () => {
+    const decoded = await decodeHeif(new Uint8Array(await readFile(HEIC)));
+    const expected = scaleImage(await loadFixture("portrait-centred"), 90, 120);
+
+    expect([decoded.width, decoded.height]).toEqual([90, 120]);
+    // Chroma is stored at half resolution, so only edges may drift.
+    expect(compareImages(decoded, expected).ratio).toBeLessThan(0.01);
+  });
+
+  it("rejects a file with no image in it", async () => {
+    await expect(decodeHeif(new Uint8Array(64))).rejects.toThrow("holds no image");
+  });
+});
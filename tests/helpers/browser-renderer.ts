@@ -0,0 +1,87 @@
+import { fileURLToPath } from "node:url";
+import chromium from "@sparticuz/chromium";
+import { build } from "esbuild";
+import puppeteer, { type Browser } from "puppeteer-core";
+import type { ParityJob, ParityResult } from "./parity-page";
+import type { RenderedImage } from "./perceptual-diff";
+
+const ENTRY = fileURLToPath(new URL("./parity-page.ts", import.meta.url));
+
+// @sparticuz/chromium ships a self-contained Linux Chromium inside the npm
+// package, SwiftShader included: WebGL2 without a graphics card or a browser
+// download, so the shaders run the same on a laptop and on CI. CHROME_PATH
+// points the tests at another Chromium, e.g. on macOS.
+const launchChromium = async (): Promise<Browser> =>
+  process.env.CHROME_PATH
+    ? puppeteer.launch({
+        executablePath: process.env.CHROME_PATH,
+        headless: "shell",
+        args: ["--use-angle=swiftshader", "--enable-unsafe-swiftshader", "--ignore-gpu-blocklist"]
+      })
+    : puppeteer.launch({
+        executablePath: await chromium.executablePath(),
+        headless: "shell",
+        args: chromium.args
+      });
+
+export interface ParityRender {
+  canvas2d: RenderedImage;
+  webgl2: RenderedImage;
+  handed: number;
+  handled: number;
+  readBack: boolean;
+}
+
+export interface BrowserRenderer {
+  render: (job: ParityJob) => Promise<ParityRender>;
+  close: () => Promise<void>;
+}
+
+const decode = (base64: string, width: number, height: number): RenderedImage => ({
+  data: new Uint8ClampedArray(Buffer.from(base64, "base64")),
+  width,
+  height
+});
+
+export const openBrowserRenderer = async (): Promise<BrowserRenderer> => {
+  const bundle = await build({
+    entryPoints: [ENTRY],
+    bundle: true,
+    write: false,
+    format: "iife",
+    platform: "browser",
+    target: "es2020"
+  });
+  const browser = await launchChromium();
+  try {
+    const page = await browser.newPage();
+    page.on("console", (message) => {
+      if (message.type() === "warn" || message.type() === "error") {
+        process.stderr.write(`[chromium] ${message.text()}\n`);
+      }
+    });
+    await page.setContent("<!doctype html><title>parity</title>");
+    await page.addScriptTag({ content: bundle.outputFiles[0].text });
+
+    return {
+      render: async (job) => {
+        const result = await page.evaluate(
+          (parityJob) =>
+            (window as unknown as { renderParity: (job: ParityJob) => ParityResult }).renderParity(
+              parityJob
+            ),
+          job
+        );
+        return {
+          ...result,
+          canvas2d: decode(result.canvas2d, job.width, job.height),
+          webgl2: decode(result.webgl2, job.width, job.height)
+        };
+      },
+      close: () => browser.close()
+    };
+  } catch (error) {
+    await browser.close();
+    throw error;
+  }
+};
@@ -0,0 +1,85 @@
+import { type Canvas, createCanvas } from "@napi-rs/canvas";
+import { vi } from "vitest";
+
+export interface FakeStream {
+  stream: MediaStream;
+  tracks: { stop: ReturnType<typeof vi.fn> }[];
+}
+
+export const createFakeStream = (trackCount = 1): FakeStream => {
+  const tracks = Array.from({ length: trackCount }, () => ({ stop: vi.fn() }));
+  const stream = { getTracks: () => tracks } as unknown as MediaStream;
+  return { stream, tracks };
+};
+
+// jsdom has no 2D canvas. This backs each <canvas> with an @napi-rs/canvas
+// of the same size, and draws `videoFrame` wherever a <video> is drawn.
+export const installCanvas = (videoFrame: Canvas) => {
+  const backing = new WeakMap<HTMLCanvasElement, Canvas>();
+  const backingFor = (element: HTMLCanvasElement) => {
+    let canvas = backing.get(element);
+    if (!canvas || canvas.width !== element.width || canvas.height !== element.height) {
+      canvas = createCanvas(element.width, element.height);
+      backing.set(element, canvas);
+    }
+    return canvas;
+  };
+
+  vi.spyOn(HTMLCanvasElement.prototype, "getContext").mockImplementation(function (
+    this: HTMLCanvasElement
+  ) {
+    const context = backingFor(this).getContext("2d");
+    return new Proxy(context, {
+      get: (target, key) => {
+        if (key === "drawImage") {
+          const draw = target.drawImage.bind(target) as (...args: unknown[]) => void;
+          return (image: unknown, ...rest: number[]) =>
+            draw(image instanceof HTMLVideoElement ? videoFrame : image, ...rest);
+        }
+        const value = Reflect.get(target, key, target);
+        return typeof value === "function" ? value.bind(target) : value;
+      },
+      set: (target, key, value) => Reflect.set(target, key, value, target)
+    }) as unknown as RenderingContext;
+  } as HTMLCanvasElement["getContext"]);
+
+  vi.spyOn(HTMLCanvasElement.prototype, "toBlob").mockImplementation(function (
+    this: HTMLCanvasElement,
+    callback: BlobCallback,
+    type = "image/png"
+  ) {
+    const bytes = backingFor(this).encodeSync("png");
+    callback(new Blob([new Uint8Array(bytes)], { type }));
+  });
+};
+
+// Frames only advance when a test steps them.
+export const installAnimationFrames = () => {
+  const callbacks = new Map<number, FrameRequestCallback>();
+  let nextId = 1;
+  vi.stubGlobal("requestAnimationFrame", (callback: FrameRequestCallback) => {
+    callbacks.set(nextId, callback);
+    return nextId++;
+  });
+  vi.stubGlobal("cancelAnimationFrame", (id: number) => callbacks.delete(id));
+  return {
+    step: () => {
+      const due = [...callbacks.values()];
+      callbacks.clear();
+      due.forEach((callback) => callback(performance.now()));
+    },
+    pending: () => callbacks.size
+  };
+};
+
+// Lets promise chains started by a frame settle.
+export const flushTasks = () => new Promise<void>((resolve) => setTimeout(resolve, 0));
+
+// jsdom's Blob has no arrayBuffer(); FileReader gets the bytes out.
+export const readBlob = (blob: Blob) =>
+  new Promise<Uint8Array>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(blob);
+  });
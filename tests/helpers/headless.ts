@@ -0,0 +1,48 @@
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { type Canvas, type Image, createCanvas, loadImage } from "@napi-rs/canvas";
+import type { PipelineEntry } from "../../utils/pipeline";
+import type { EffectSettings, RenderContext2D } from "../../utils/plaster-effect";
+import { type PlasterRenderer, createCanvas2DRenderer } from "../../utils/renderer";
+import type { RenderedImage } from "./perceptual-diff";
+
+interface HeadlessRender {
+  settings: EffectSettings;
+  width: number;
+  height: number;
+  pipeline?: readonly PipelineEntry[];
+  renderer?: PlasterRenderer;
+}
+
+const FIXTURES = fileURLToPath(new URL("../fixtures/", import.meta.url));
+
+export const loadFixture = async (name: string) =>
+  loadImage(await readFile(path.join(FIXTURES, `${name}.png`)));
+
+// Redraws an image at another size with the 2D context's default smoothing.
+export const scaleImage = (source: Image | Canvas, width: number, height: number) => {
+  const context = createCanvas(width, height).getContext("2d");
+  context.drawImage(source, 0, 0, width, height);
+  const { data } = context.getImageData(0, 0, width, height);
+  return { data, width, height } satisfies RenderedImage;
+};
+
+// Renders the way the CLI does: @napi-rs/canvas stands in for the browser's
+// 2D context, and the Canvas2D backend unless another is passed in.
+export const renderHeadless = (
+  source: Image | Canvas,
+  { settings, width, height, pipeline, renderer = createCanvas2DRenderer() }: HeadlessRender
+): RenderedImage => {
+  const canvas = createCanvas(width, height);
+  const context = canvas.getContext("2d") as unknown as RenderContext2D;
+  renderer.render({
+    source: source as unknown as CanvasImageSource,
+    context,
+    settings,
+    pipeline,
+    width,
+    height
+  });
+  return { data: context.getImageData(0, 0, width, height).data, width, height };
+};
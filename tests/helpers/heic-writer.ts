@@ -0,0 +1,285 @@
+// Writes HEIC files for the decoder tests without an HEVC encoder. Every
+// 32 px tile is a one-CTU intra frame whose only coding unit holds raw PCM
+// samples, and the tiles form a HEIF grid the way phone cameras store their
+// photos. Colour goes through full-range BT.601 YCbCr at 4:2:0, which an
+// nclx box declares.
+
+import { concatBytes, latin1Bytes } from "../../utils/image-metadata";
+import type { RenderedImage } from "./perceptual-diff";
+
+const TILE = 32;
+const LOG2_TILE = 5;
+
+const NAL_TYPES = { idr: 19, vps: 32, sps: 33, pps: 34 } as const;
+
+const createBitWriter = () => {
+  const bytes: number[] = [];
+  let current = 0;
+  let count = 0;
+
+  const bit = (value: number) => {
+    current = (current << 1) | (value & 1);
+    if (++count === 8) {
+      bytes.push(current);
+      current = 0;
+      count = 0;
+    }
+  };
+  const bits = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bit(Math.floor(value / 2 ** i));
+  };
+  // Exp-Golomb codes for the parameter sets and slice header.
+  const ue = (value: number) => {
+    const length = 32 - Math.clz32(value + 1);
+    bits(0, length - 1);
+    bits(value + 1, length);
+  };
+  const se = (value: number) => ue(value > 0 ? value * 2 - 1 : -value * 2);
+  const align = () => {
+    while (count) bit(0);
+  };
+  const trailing = () => {
+    bit(1);
+    align();
+  };
+  const byte = (value: number) => bits(value, 8);
+
+  return { bit, bits, ue, se, trailing, byte, bytes: () => Uint8Array.from(bytes) };
+};
+
+type BitWriter = ReturnType<typeof createBitWriter>;
+
+// Wraps an RBSP in a NAL unit, escaping any start code it contains.
+const nalUnit = (type: number, rbsp: Uint8Array) => {
+  const escaped = [type << 1, 1];
+  let zeros = 0;
+  for (const value of rbsp) {
+    if (zeros === 2 && value <= 3) {
+      escaped.push(3);
+      zeros = 0;
+    }
+    escaped.push(value);
+    zeros = value === 0 ? zeros + 1 : 0;
+  }
+  return Uint8Array.from(escaped);
+};
+
+// Main profile, level 2, progressive frames only.
+const PROFILE_TIER_LEVEL = [0x01, 0x60, 0x00, 0x00, 0x00, 0x90, 0, 0, 0, 0, 0, 60];
+
+const writeProfile = (writer: BitWriter) => PROFILE_TIER_LEVEL.forEach(writer.byte);
+
+const videoParameterSet = () => {
+  const writer = createBitWriter();
+  writer.bits(0, 4); // vps_video_parameter_set_id
+  writer.bits(3, 2); // base layer internal and available
+  writer.bits(0, 6); // vps_max_layers_minus1
+  writer.bits(0, 3); // vps_max_sub_layers_minus1
+  writer.bit(1); // vps_temporal_id_nesting_flag
+  writer.bits(0xffff, 16);
+  writeProfile(writer);
+  writer.bit(1); // vps_sub_layer_ordering_info_present_flag
+  writer.ue(0);
+  writer.ue(0);
+  writer.ue(0);
+  writer.bits(0, 6); // vps_max_layer_id
+  writer.ue(0); // vps_num_layer_sets_minus1
+  writer.bit(0); // vps_timing_info_present_flag
+  writer.bit(0); // vps_extension_flag
+  writer.trailing();
+  return nalUnit(NAL_TYPES.vps, writer.bytes());
+};
+
+// One 32 px CTU that is also the smallest coding block, and PCM allowed at
+// exactly that size with the loop filter off.
+const sequenceParameterSet = () => {
+  const writer = createBitWriter();
+  writer.bits(0, 4); // sps_video_parameter_set_id
+  writer.bits(0, 3); // sps_max_sub_layers_minus1
+  writer.bit(1); // sps_temporal_id_nesting_flag
+  writeProfile(writer);
+  writer.ue(0); // sps_seq_parameter_set_id
+  writer.ue(1); // chroma_format_idc: 4:2:0
+  writer.ue(TILE);
+  writer.ue(TILE);
+  writer.bit(0); // conformance_window_flag
+  writer.ue(0); // bit_depth_luma_minus8
+  writer.ue(0); // bit_depth_chroma_minus8
+  writer.ue(0); // log2_max_pic_order_cnt_lsb_minus4
+  writer.bit(1); // sps_sub_layer_ordering_info_present_flag
+  writer.ue(0);
+  writer.ue(0);
+  writer.ue(0);
+  writer.ue(LOG2_TILE - 3); // log2_min_luma_coding_block_size_minus3
+  writer.ue(0); // log2_diff_max_min_luma_coding_block_size
+  writer.ue(0); // log2_min_luma_transform_block_size_minus2
+  writer.ue(LOG2_TILE - 2); // log2_diff_max_min_luma_transform_block_size
+  writer.ue(0); // max_transform_hierarchy_depth_inter
+  writer.ue(0); // max_transform_hierarchy_depth_intra
+  writer.bit(0); // scaling_list_enabled_flag
+  writer.bit(0); // amp_enabled_flag
+  writer.bit(0); // sample_adaptive_offset_enabled_flag
+  writer.bit(1); // pcm_enabled_flag
+  writer.bits(7, 4); // pcm_sample_bit_depth_luma_minus1
+  writer.bits(7, 4); // pcm_sample_bit_depth_chroma_minus1
+  writer.ue(LOG2_TILE - 3); // log2_min_pcm_luma_coding_block_size_minus3
+  writer.ue(0); // log2_diff_max_min_pcm_luma_coding_block_size
+  writer.bit(1); // pcm_loop_filter_disabled_flag
+  writer.ue(0); // num_short_term_ref_pic_sets
+  writer.bit(0); // long_term_ref_pics_present_flag
+  writer.bit(0); // sps_temporal_mvp_enabled_flag
+  writer.bit(0); // strong_intra_smoothing_enabled_flag
+  writer.bit(0); // vui_parameters_present_flag
+  writer.bit(0); // sps_extension_present_flag
+  writer.trailing();
+  return nalUnit(NAL_TYPES.sps, writer.bytes());
+};
+
+const pictureParameterSet = () => {
+  const writer = createBitWriter();
+  writer.ue(0); // pps_pic_parameter_set_id
+  writer.ue(0); // pps_seq_parameter_set_id
+  writer.bits(0, 2); // dependent slices, output flag
+  writer.bits(0, 3); // num_extra_slice_header_bits
+  writer.bits(0, 2); // sign data hiding, cabac_init_present_flag
+  writer.ue(0);
+  writer.ue(0);
+  writer.se(0); // init_qp_minus26
+  writer.bits(0, 3); // constrained intra, transform skip, cu_qp_delta
+  writer.se(0);
+  writer.se(0);
+  writer.bits(0, 6); // chroma offsets, weighted prediction, bypass, tiles, wavefronts
+  writer.bit(0); // pps_loop_filter_across_slices_enabled_flag
+  writer.bit(1); // deblocking_filter_control_present_flag
+  writer.bit(0); // deblocking_filter_override_enabled_flag
+  writer.bit(1); // pps_deblocking_filter_disabled_flag
+  writer.bits(0, 2); // scaling lists, lists modification
+  writer.ue(0); // log2_parallel_merge_level_minus2
+  writer.bits(0, 2); // slice header extension, pps_extension_present_flag
+  writer.trailing();
+  return nalUnit(NAL_TYPES.pps, writer.bytes());
+};
+
+// The slice's CABAC data is fixed. part_mode (2Nx2N) is the most probable
+// bin from its initial state and pcm_flag a terminating one, so the
+// arithmetic coder flushes to the same 9 bits before every tile's samples,
+// and end_of_slice_segment_flag to the same 9 after them.
+const PCM_PREFIX = [0x86, 0x80];
+const SLICE_END = [0xfe, 0x80];
+
+const sliceSegment = (luma: Uint8Array, cb: Uint8Array, cr: Uint8Array) => {
+  const writer = createBitWriter();
+  writer.bit(1); // first_slice_segment_in_pic_flag
+  writer.bit(0); // no_output_of_prior_pics_flag
+  writer.ue(0); // slice_pic_parameter_set_id
+  writer.ue(2); // slice_type: I
+  writer.se(0); // slice_qp_delta
+  writer.trailing(); // byte_alignment()
+  [...PCM_PREFIX, ...luma, ...cb, ...cr, ...SLICE_END].forEach(writer.byte);
+  return nalUnit(NAL_TYPES.idr, writer.bytes());
+};
+
+const u16 = (value: number) => [value >> 8, value & 0xff];
+const u32 = (value: number) => [...u16(value >>> 16), ...u16(value & 0xffff)];
+
+type BoxPart = Uint8Array | number[];
+
+const box = (type: string, ...parts: BoxPart[]) => {
+  const payload = concatBytes(parts.map((part) => Uint8Array.from(part)));
+  return concatBytes([Uint8Array.from(u32(payload.length + 8)), latin1Bytes(type), payload]);
+};
+
+const fullBox = (type: string, version: number, flags: number, ...parts: BoxPart[]) =>
+  box(type, [version, ...u32(flags).slice(1)], ...parts);
+
+const decoderConfiguration = (parameterSets: Uint8Array[]) =>
+  box(
+    "hvcC",
+    [1, ...PROFILE_TIER_LEVEL],
+    [0xf0, 0x00, 0xfc, 0xfd, 0xf8, 0xf8, 0, 0, 0x0f, parameterSets.length],
+    ...parameterSets.map((nal) => [0x80 | (nal[0] >> 1), ...u16(1), ...u16(nal.length), ...nal])
+  );
+
+// RGB to full-range BT.601 YCbCr, chroma averaged over each 2x2 block.
+const tilePlanes = ({ data, width, height }: RenderedImage, left: number, top: number) => {
+  const luma = new Uint8Array(TILE * TILE);
+  const cb = new Uint8Array((TILE / 2) ** 2);
+  const cr = new Uint8Array((TILE / 2) ** 2);
+  const blue = new Float64Array(cb.length);
+  const red = new Float64Array(cr.length);
+  for (let y = 0; y < TILE; y++) {
+    for (let x = 0; x < TILE; x++) {
+      // Tiles past the image's edge repeat its last row and column.
+      const source =
+        (Math.min(top + y, height - 1) * width + Math.min(left + x, width - 1)) * 4;
+      const [r, g, b] = [data[source], data[source + 1], data[source + 2]];
+      const chroma = (y >> 1) * (TILE / 2) + (x >> 1);
+      luma[y * TILE + x] = Math.round(0.299 * r + 0.587 * g + 0.114 * b);
+      blue[chroma] += (-0.168736 * r - 0.331264 * g + 0.5 * b) / 4;
+      red[chroma] += (0.5 * r - 0.418688 * g - 0.081312 * b) / 4;
+    }
+  }
+  blue.forEach((value, index) => (cb[index] = Math.min(255, Math.round(128 + value))));
+  red.forEach((value, index) => (cr[index] = Math.min(255, Math.round(128 + value))));
+  return [luma, cb, cr] as const;
+};
+
+export const encodeHeic = (image: RenderedImage) => {
+  const columns = Math.ceil(image.width / TILE);
+  const rows = Math.ceil(image.height / TILE);
+  const tiles: Uint8Array[] = [];
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      const slice = sliceSegment(...tilePlanes(image, column * TILE, row * TILE));
+      tiles.push(Uint8Array.from([...u32(slice.length), ...slice]));
+    }
+  }
+  const { width, height } = image;
+  const grid = Uint8Array.from([0, 0, rows - 1, columns - 1, ...u16(width), ...u16(height)]);
+  const items = [grid, ...tiles]; // item IDs from 1, the grid first
+  const tileIds = tiles.map((_, index) => index + 2);
+
+  const ftyp = box("ftyp", latin1Bytes("heic"), u32(0), latin1Bytes("mif1heic"));
+  const meta = (dataStart: number) => {
+    let offset = dataStart;
+    const locations = items.map((item, index) => {
+      const entry = [...u16(index + 1), ...u16(0), ...u16(1), ...u32(offset), ...u32(item.length)];
+      offset += item.length;
+      return entry;
+    });
+    // Tiles are flagged hidden, leaving the grid as the one image to show.
+    const infos = items.map((_, index) => {
+      const type = latin1Bytes(index ? "hvc1" : "grid");
+      return fullBox("infe", 2, index ? 1 : 0, u16(index + 1), u16(0), type, [0]);
+    });
+    const properties = box(
+      "ipco",
+      decoderConfiguration([videoParameterSet(), sequenceParameterSet(), pictureParameterSet()]),
+      fullBox("ispe", 0, 0, u32(TILE), u32(TILE)),
+      fullBox("ispe", 0, 0, u32(width), u32(height)),
+      box("colr", latin1Bytes("nclx"), u16(1), u16(13), u16(6), [0x80])
+    );
+    // A count, then property indices from 1; the high bit marks hvcC as
+    // essential to decoding a tile.
+    const associations = [
+      [...u16(1), 2, 3, 4],
+      ...tileIds.map((id) => [...u16(id), 3, 0x81, 2, 4])
+    ];
+    return fullBox(
+      "meta",
+      0,
+      0,
+      fullBox("hdlr", 0, 0, u32(0), latin1Bytes("pict"), u32(0), u32(0), u32(0), [0]),
+      fullBox("pitm", 0, 0, u16(1)),
+      fullBox("iloc", 0, 0, [0x44, 0x00], u16(items.length), ...locations),
+      fullBox("iinf", 0, 0, u16(items.length), ...infos),
+      fullBox("iref", 0, 0, box("dimg", u16(1), u16(tileIds.length), ...tileIds.map(u16))),
+      box("iprp", properties, fullBox("ipma", 0, 0, u32(associations.length), ...associations))
+    );
+  };
+
+  // Box sizes do not depend on the offsets, so a first pass finds where
+  // mdat's data starts.
+  const dataStart = ftyp.length + meta(0).length + 8;
+  return concatBytes([ftyp, meta(dataStart), box("mdat", ...items)]);
+};
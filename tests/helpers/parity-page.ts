@@ -0,0 +1,120 @@
+// Runs in headless Chromium, bundled by browser-renderer.ts: renders one job
+// on the Canvas2D path and again with the WebGL2 accelerator, which
+// SwiftShader executes in software.
+
+import "../../utils/effect-stages";
+import {
+  type ToneAccelerator,
+  createPipelineState,
+  defineStage,
+  registerStage,
+  runPipeline
+} from "../../utils/pipeline";
+import type { EffectSettings } from "../../utils/plaster-effect";
+import { createWebGLAccelerator } from "../../utils/webgl-renderer";
+import { PORTRAIT_HEIGHT, PORTRAIT_WIDTH, SITTERS, drawPortrait } from "../fixtures/portraits";
+
+export interface ParityJob {
+  sitter: string;
+  settings: EffectSettings;
+  stages: string[]; // the pipeline, in order
+  width: number;
+  height: number;
+  scale?: number; // overrides the resolution scale, to reach large blur radii
+}
+
+export interface ParityResult {
+  canvas2d: string; // base64 RGBA
+  webgl2: string;
+  handed: number; // tone stages the pipeline offered the accelerator
+  handled: number; // how many of them it ran on the GPU
+  readBack: boolean; // whether it stopped short and read its state back
+}
+
+// A tone stage with no shader, so the GPU has to stop in front of it and
+// hand its state back to the CPU.
+registerStage(
+  defineStage({
+    id: "posterise",
+    label: "Posterise",
+    target: "tone",
+    settingKeys: [],
+    run: ({ tone }) => {
+      const values = tone!;
+      for (let i = 0; i < values.length; i++) values[i] = Math.round(values[i] / 32) * 32;
+    }
+  })
+);
+
+const toBase64 = (data: Uint8ClampedArray) => {
+  let binary = "";
+  for (let i = 0; i < data.length; i += 0x8000) {
+    binary += String.fromCharCode(...data.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const drawSitter = (name: string) => {
+  const sitter = SITTERS.find((item) => item.name === name);
+  if (!sitter) throw new Error(`Unknown sitter "${name}"`);
+  const canvas = Object.assign(document.createElement("canvas"), {
+    width: PORTRAIT_WIDTH,
+    height: PORTRAIT_HEIGHT
+  });
+  drawPortrait(canvas.getContext("2d", { willReadFrequently: true })!, sitter);
+  return canvas;
+};
+
+// Mirrors renderPlasterEffect, with room to override the state's scale.
+const render = (
+  source: CanvasImageSource,
+  { settings, stages, width, height, scale }: ParityJob,
+  accelerator?: ToneAccelerator
+) => {
+  const canvas = Object.assign(document.createElement("canvas"), { width, height });
+  const context = canvas.getContext("2d", { willReadFrequently: true })!;
+  const state = createPipelineState(context, source, width, height);
+  if (scale !== undefined) state.scale = scale;
+  context.save();
+  runPipeline(
+    state,
+    stages.map((id) => ({ id, enabled: true })),
+    settings,
+    accelerator
+  );
+  context.restore();
+  return toBase64(context.getImageData(0, 0, width, height).data);
+};
+
+const renderParity = (job: ParityJob): ParityResult => {
+  const source = drawSitter(job.sitter);
+  const gpu = createWebGLAccelerator();
+  if (!gpu) throw new Error("WebGL2 with float render targets is not available");
+
+  let handed = 0;
+  let handled = 0;
+  let readBack = false;
+  const accelerator: ToneAccelerator = {
+    run: (state, stages, settings) => {
+      const count = gpu.run(state, stages, settings);
+      handed += stages.length;
+      handled += count;
+      readBack ||= count > 0 && count < stages.length;
+      return count;
+    }
+  };
+
+  try {
+    return {
+      canvas2d: render(source, job),
+      webgl2: render(source, job, accelerator),
+      handed,
+      handled,
+      readBack
+    };
+  } finally {
+    gpu.dispose();
+  }
+};
+
+Object.assign(window, { renderParity });
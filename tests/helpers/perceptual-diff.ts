@@ -0,0 +1,150 @@
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { fileURLToPath } from "node:url";
+import { createCanvas, loadImage } from "@napi-rs/canvas";
+
+export interface RenderedImage {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+export interface DiffOptions {
+  threshold?: number; // 0-1 share of the largest YIQ difference a pixel may drift
+  tolerance?: number; // 0-1 share of pixels allowed past the threshold
+}
+
+export interface DiffResult {
+  mismatched: number;
+  ratio: number;
+  diff: Uint8ClampedArray; // the expected image faded to grey, mismatches in red
+}
+
+const GOLDENS = fileURLToPath(new URL("../goldens/", import.meta.url));
+const RESULTS = fileURLToPath(new URL("../../test-results/golden/", import.meta.url));
+// The largest possible weighted YIQ difference, black against white.
+const MAX_DELTA = 35215;
+
+const DEFAULT_THRESHOLD = 0.05;
+const DEFAULT_TOLERANCE = 0.002;
+
+// Transparent pixels are judged as they would show on a white page.
+const blend = (value: number, alpha: number) => 255 + ((value - 255) * alpha) / 255;
+
+// The weighted YIQ distance pixelmatch uses: it
+// tracks how far apart two colours look rather than how far apart their
+// channel values are, so a brightness shift counts more than a hue wobble.
+const colourDelta = (a: Uint8ClampedArray, b: Uint8ClampedArray, index: number) => {
+  const red = blend(a[index], a[index + 3]) - blend(b[index], b[index + 3]);
+  const green = blend(a[index + 1], a[index + 3]) - blend(b[index + 1], b[index + 3]);
+  const blue = blend(a[index + 2], a[index + 3]) - blend(b[index + 2], b[index + 3]);
+  const y = red * 0.29889531 + green * 0.58662247 + blue * 0.11448223;
+  const i = red * 0.59597799 - green * 0.2741761 - blue * 0.32180189;
+  const q = red * 0.21147017 - green * 0.52261711 + blue * 0.31114694;
+  return 0.5053 * y * y + 0.299 * i * i + 0.1957 * q * q;
+};
+
+export const compareImages = (
+  actual: RenderedImage,
+  expected: RenderedImage,
+  { threshold = DEFAULT_THRESHOLD }: DiffOptions = {}
+): DiffResult => {
+  if (actual.width !== expected.width || actual.height !== expected.height) {
+    throw new Error(
+      `Size mismatch: ${actual.width}x${actual.height} against ${expected.width}x${expected.height}`
+    );
+  }
+
+  const limit = MAX_DELTA * threshold * threshold;
+  const diff = new Uint8ClampedArray(actual.data.length);
+  let mismatched = 0;
+  for (let index = 0; index < diff.length; index += 4) {
+    if (colourDelta(actual.data, expected.data, index) > limit) {
+      mismatched++;
+      diff.set([255, 0, 0, 255], index);
+    } else {
+      const grey = 255 - (255 - blend(expected.data[index], expected.data[index + 3])) * 0.1;
+      diff.set([grey, grey, grey, 255], index);
+    }
+  }
+  return { mismatched, ratio: mismatched / (diff.length / 4), diff };
+};
+
+// Mean absolute error of each colour channel, in 8-bit levels, and the
+// share of pixels where any channel is off by more than `levels`.
+export const channelErrors = (actual: RenderedImage, expected: RenderedImage, levels = 4) => {
+  const sums = [0, 0, 0];
+  let outliers = 0;
+  for (let index = 0; index < actual.data.length; index += 4) {
+    let worst = 0;
+    for (let channel = 0; channel < 3; channel++) {
+      const error = Math.abs(actual.data[index + channel] - expected.data[index + channel]);
+      sums[channel] += error;
+      worst = Math.max(worst, error);
+    }
+    if (worst > levels) outliers++;
+  }
+  const pixels = actual.data.length / 4;
+  return { mean: sums.map((sum) => sum / pixels), outliers: outliers / pixels };
+};
+
+const encodePng = ({ data, width, height }: RenderedImage) => {
+  const canvas = createCanvas(width, height);
+  const context = canvas.getContext("2d");
+  const image = context.createImageData(width, height);
+  image.data.set(data);
+  context.putImageData(image, 0, 0);
+  return canvas.encode("png");
+};
+
+const decodePng = async (bytes: Buffer): Promise<RenderedImage> => {
+  const image = await loadImage(bytes);
+  const canvas = createCanvas(image.width, image.height);
+  const context = canvas.getContext("2d");
+  context.drawImage(image, 0, 0);
+  const { data } = context.getImageData(0, 0, image.width, image.height);
+  return { data, width: image.width, height: image.height };
+};
+
+const readGolden = async (file: string) => {
+  try {
+    return await readFile(file);
+  } catch {
+    return null;
+  }
+};
+
+// Compares a render with tests/goldens/<name>.png. A failure leaves the
+// render, the golden and a diff in test-results/golden/ to look at.
+// UPDATE_GOLDENS=1 rewrites the golden instead; a missing golden is
+// written on a local run and fails on CI, where it would be lost.
+export const matchGolden = async (
+  name: string,
+  actual: RenderedImage,
+  options: DiffOptions = {}
+) => {
+  const file = `${GOLDENS}${name}.png`;
+  const stored = process.env.UPDATE_GOLDENS ? null : await readGolden(file);
+  if (!stored) {
+    if (process.env.CI && !process.env.UPDATE_GOLDENS) {
+      throw new Error(`Missing golden ${file}; run UPDATE_GOLDENS=1 npm test locally`);
+    }
+    await mkdir(GOLDENS, { recursive: true });
+    await writeFile(file, await encodePng(actual));
+    return;
+  }
+
+  const expected = await decodePng(stored);
+  const { mismatched, ratio, diff } = compareImages(actual, expected, options);
+  if (ratio <= (options.tolerance ?? DEFAULT_TOLERANCE)) return;
+
+  await mkdir(RESULTS, { recursive: true });
+  await Promise.all([
+    writeFile(`${RESULTS}${name}-actual.png`, await encodePng(actual)),
+    writeFile(`${RESULTS}${name}-expected.png`, stored),
+    writeFile(`${RESULTS}${name}-diff.png`, await encodePng({ ...actual, data: diff }))
+  ]);
+  throw new Error(
+    `${name} differs from its golden in ${mismatched} pixels (${(ratio * 100).toFixed(2)}%); ` +
+      `see ${RESULTS}${name}-diff.png`
+  );
+};
@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import {
+  bilateralFilter,
+  boxFilter,
+  contrastTransform,
+  domainTransformFilter,
+  gaussianBlur,
+  guidedFilter,
+  normaliseArray,
+  sobelGradients,
+  sobelMagnitude,
+  softLight
+} from "../utils/image-filters";
+
+const ramp = (length: number) => Float32Array.from({ length }, (_, i) => i * 10);
+
+describe("normaliseArray", () => {
+  it("stretches values to 0-1", () => {
+    expect(Array.from(normaliseArray(Float32Array.of(20, 60, 100)))).toEqual([0, 0.5, 1]);
+  });
+
+  it("maps a uniform image to zero instead of dividing by its zero range", () => {
+    const result = normaliseArray(new Float32Array(12).fill(137));
+    expect(result.every((value) => value === 0)).toBe(true);
+  });
+
+  it("writes into the target it is given", () => {
+    const target = new Float32Array(3);
+    expect(normaliseArray(Float32Array.of(1, 2, 3), target)).toBe(target);
+  });
+});
+
+describe("contrastTransform", () => {
+  it("leaves mid grey and zero contrast alone", () => {
+    expect(contrastTransform(128, 80)).toBe(128);
+    expect(contrastTransform(200, 0)).toBeCloseTo(200);
+  });
+
+  it("clamps to the 8-bit range", () => {
+    expect(contrastTransform(250, 200)).toBe(255);
+    expect(contrastTransform(5, 200)).toBe(0);
+  });
+});
+
+describe("softLight", () => {
+  it("keeps the base under a mid-grey blend", () => {
+    expect(softLight(90, 127.5)).toBeCloseTo(90);
+  });
+
+  it("lightens under a light blend and darkens under a dark one", () => {
+    expect(softLight(90, 220)).toBeGreaterThan(90);
+    expect(softLight(90, 30)).toBeLessThan(90);
+  });
+});
+
+// A 1-pixel-wide source makes every kernel clamp on both sides at once.
+describe("one pixel wide", () => {
+  const height = 9;
+  const column = ramp(height);
+
+  it.each([
+    ["gaussianBlur", () => gaussianBlur(column, 1, height, 3)],
+    ["boxFilter", () => boxFilter(column, 1, height, 3)],
+    ["guidedFilter", () => guidedFilter(column, 1, height, 3, 100)],
+    ["bilateralFilter", () => bilateralFilter(column, 1, height, 3, 20)],
+    ["domainTransformFilter", () => domainTransformFilter(column, 1, height, 3, 20)]
+  ])("%s keeps the column finite and in range", (_, filter) => {
+    const result = filter();
+    expect(result).toHaveLength(height);
+    expect(result.every((value) => Number.isFinite(value) && value >= 0 && value <= 80)).toBe(
+      true
+    );
+  });
+
+  it("gaussianBlur leaves a uniform column unchanged", () => {
+    const result = gaussianBlur(new Float32Array(height).fill(42), 1, height, 4);
+    expect(result.every((value) => Math.abs(value - 42) < 1e-4)).toBe(true);
+  });
+
+  it("sobelGradients has no interior to respond in", () => {
+    const magnitude = sobelMagnitude(sobelGradients(column, 1, height));
+    expect(magnitude.every((value) => value === 0)).toBe(true);
+  });
+});
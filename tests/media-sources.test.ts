@@ -0,0 +1,118 @@
+// @vitest-environment jsdom
+import { createCanvas } from "@napi-rs/canvas";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createTestPatternStream, recordCanvas } from "../utils/media-sources";
+import { type FakeStream, createFakeStream, installCanvas } from "./helpers/fake-media";
+
+const RECORDABLE = ["video/webm;codecs=vp8", "video/webm"];
+
+class FakeMediaRecorder {
+  static instances: FakeMediaRecorder[] = [];
+  static supported = new Set(RECORDABLE);
+  static isTypeSupported = (type: string) => FakeMediaRecorder.supported.has(type);
+
+  ondataavailable: ((event: { data: Blob }) => void) | null = null;
+  onstop: (() => void) | null = null;
+  onerror: (() => void) | null = null;
+  start = vi.fn();
+  stop = vi.fn(() => this.onstop?.());
+
+  constructor(
+    readonly stream: MediaStream,
+    readonly options: MediaRecorderOptions
+  ) {
+    FakeMediaRecorder.instances.push(this);
+  }
+
+  emit(data: Blob) {
+    this.ondataavailable?.({ data });
+  }
+}
+
+describe("recordCanvas", () => {
+  let capture: FakeStream;
+  let canvas: HTMLCanvasElement;
+
+  beforeEach(() => {
+    FakeMediaRecorder.instances = [];
+    FakeMediaRecorder.supported = new Set(RECORDABLE);
+    vi.stubGlobal("MediaRecorder", FakeMediaRecorder);
+    capture = createFakeStream();
+    canvas = document.createElement("canvas");
+    canvas.captureStream = vi.fn(() => capture.stream);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it("records the canvas stream in the first supported WebM type", () => {
+    recordCanvas(canvas, 24);
+    const [recorder] = FakeMediaRecorder.instances;
+
+    expect(canvas.captureStream).toHaveBeenCalledWith(24);
+    expect(recorder.stream).toBe(capture.stream);
+    expect(recorder.options.mimeType).toBe("video/webm;codecs=vp8");
+    expect(recorder.start).toHaveBeenCalledWith(1000);
+  });
+
+  it("resolves the recorded chunks as one WebM and stops the capture", async () => {
+    const recording = recordCanvas(canvas);
+    const [recorder] = FakeMediaRecorder.instances;
+    recorder.emit(new Blob([new Uint8Array([1, 2, 3])]));
+    recorder.emit(new Blob([]));
+    recorder.emit(new Blob([new Uint8Array([4, 5])]));
+
+    const clip = await recording.stop();
+
+    expect(clip.type).toBe("video/webm");
+    expect(clip.size).toBe(5);
+    expect(capture.tracks[0].stop).toHaveBeenCalledTimes(1);
+  });
+
+  it("rejects when the recorder fails", async () => {
+    const recording = recordCanvas(canvas);
+    const [recorder] = FakeMediaRecorder.instances;
+    recorder.stop.mockImplementation(() => recorder.onerror?.());
+
+    await expect(recording.stop()).rejects.toThrow("Recording failed");
+  });
+
+  it("throws when the browser cannot record", () => {
+    FakeMediaRecorder.supported = new Set();
+    expect(() => recordCanvas(canvas)).toThrow("This browser cannot record WebM");
+
+    vi.stubGlobal("MediaRecorder", undefined);
+    expect(() => recordCanvas(canvas)).toThrow("This browser cannot record video");
+  });
+});
+
+describe("createTestPatternStream", () => {
+  let capture: FakeStream;
+
+  beforeEach(() => {
+    installCanvas(createCanvas(1, 1));
+    capture = createFakeStream();
+    HTMLCanvasElement.prototype.captureStream = vi.fn(() => capture.stream);
+  });
+
+  afterEach(() => {
+    delete (HTMLCanvasElement.prototype as Partial<HTMLCanvasElement>).captureStream;
+    vi.restoreAllMocks();
+  });
+
+  it("streams a drawn canvas and stops drawing on stop", () => {
+    const setTimer = vi.spyOn(window, "setInterval");
+    const clearTimer = vi.spyOn(window, "clearInterval");
+    const source = createTestPatternStream(96, 128, 10);
+
+    expect(source.stream).toBe(capture.stream);
+    expect(HTMLCanvasElement.prototype.captureStream).toHaveBeenCalledWith(10);
+    expect(setTimer).toHaveBeenCalledWith(expect.any(Function), 100);
+
+    source.stop();
+    expect(clearTimer).toHaveBeenCalledWith(setTimer.mock.results[0].value);
+    expect(capture.tracks[0].stop).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,56 @@
+import { createCanvas } from "@napi-rs/canvas";
+import { describe, expect, it } from "vitest";
+import { BUILT_IN_PRESETS } from "../utils/presets";
+import { DEFAULT_SETTINGS } from "../utils/settings-schema";
+import { loadFixture, renderHeadless } from "./helpers/headless";
+import { matchGolden } from "./helpers/perceptual-diff";
+
+const FIXTURES = ["portrait-centred", "portrait-offset"];
+// Small enough to keep the suite quick, large enough for the detail passes
+// and the face regions to matter.
+const WIDTH = 270;
+const HEIGHT = 360;
+
+const slug = (name: string) => name.toLowerCase().replace(/[^a-z0-9]+/g, "-");
+
+describe.each(FIXTURES)("%s", (fixture) => {
+  it.each(BUILT_IN_PRESETS.map((preset) => [preset.name, preset.settings] as const))(
+    "matches its golden under %s",
+    async (name, settings) => {
+      const source = await loadFixture(fixture);
+      const rendered = renderHeadless(source, { settings, width: WIDTH, height: HEIGHT });
+      await matchGolden(`${fixture}-${slug(name)}`, rendered);
+    }
+  );
+});
+
+// Sources that leave the tone passes nothing to work with.
+describe("degenerate sources", () => {
+  const fill = (width: number, height: number, paint: string | [string, string]) => {
+    const canvas = createCanvas(width, height);
+    const context = canvas.getContext("2d");
+    if (typeof paint === "string") {
+      context.fillStyle = paint;
+    } else {
+      const gradient = context.createLinearGradient(0, 0, 0, height);
+      gradient.addColorStop(0, paint[0]);
+      gradient.addColorStop(1, paint[1]);
+      context.fillStyle = gradient;
+    }
+    context.fillRect(0, 0, width, height);
+    return canvas;
+  };
+
+  it("renders a uniform source, whose luminance has no range", async () => {
+    const source = fill(90, 120, "#8c8c8c");
+    const rendered = renderHeadless(source, { settings: DEFAULT_SETTINGS, width: 90, height: 120 });
+    await matchGolden("uniform-grey", rendered);
+  });
+
+  it("renders a 1-pixel-wide source", async () => {
+    const source = fill(1, 64, ["#e0ac8c", "#283040"]);
+    const rendered = renderHeadless(source, { settings: DEFAULT_SETTINGS, width: 90, height: 120 });
+    expect(rendered.data.some((value, index) => index % 4 === 3 && value > 0)).toBe(true);
+    await matchGolden("one-pixel-wide", rendered);
+  });
+});
@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import { OUTPUT_FORMATS } from "../utils/output-format";
+import { decodeLookFragment, encodeLookFragment } from "../utils/recipe";
+import { DEFAULT_SETTINGS, parseSettings } from "../utils/settings-schema";
+import { DEFAULT_TONE_CURVE } from "../utils/tone-curve";
+
+describe("parseSettings tone curve splits", () => {
+  const crossed = { toneCurve: { ...DEFAULT_TONE_CURVE, shadowSplit: 150, highlightSplit: 130 } };
+
+  it("rejects a highlight split at or below the shadow split", () => {
+    expect(() => parseSettings(crossed, "preset")).toThrow(
+      "preset.toneCurve.highlightSplit must be above shadowSplit"
+    );
+  });
+
+  it("lifts the highlight split above the shadow split when clamping", () => {
+    const { toneCurve } = parseSettings(crossed, "look", "clamp");
+    expect(toneCurve.shadowSplit).toBe(150);
+    expect(toneCurve.highlightSplit).toBe(151);
+  });
+
+  it("lifts splits that only cross once clamped into range", () => {
+    const toneCurve = { ...DEFAULT_TONE_CURVE, shadowSplit: 400, highlightSplit: 0 };
+    const clamped = parseSettings({ toneCurve }, "look", "clamp").toneCurve;
+    expect(clamped.shadowSplit).toBe(160);
+    expect(clamped.highlightSplit).toBe(161);
+  });
+
+  it("opens shared links whose splits cross", () => {
+    const fragment = encodeLookFragment({ ...DEFAULT_SETTINGS, ...crossed }, OUTPUT_FORMATS[0]);
+    expect(fragment).toMatch(/^look=1\./);
+    expect(decodeLookFragment(`#${fragment}`)?.settings.toneCurve.highlightSplit).toBe(151);
+  });
+});
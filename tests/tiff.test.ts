@@ -0,0 +1,21 @@
+import { describe, expect, it } from "vitest";
+import { TIFF_TAGS, encodeTiff16, readTiffTagBytes } from "../utils/tiff";
+
+// The encoder writes little-endian, as does every machine these run on.
+const shorts = (bytes: Uint8Array | null) => Array.from(new Uint16Array(bytes!.slice().buffer));
+const longs = (bytes: Uint8Array | null) => Array.from(new Uint32Array(bytes!.slice().buffer));
+
+describe("encodeTiff16", () => {
+  const rgba = new Uint8ClampedArray([0, 128, 255, 255, 10, 20, 30, 0]);
+  const tiff = encodeTiff16(rgba, 2, 1);
+
+  it("writes three 16-bit samples per pixel", () => {
+    expect(shorts(readTiffTagBytes(tiff, TIFF_TAGS.bitsPerSample))).toEqual([16, 16, 16]);
+    expect(shorts(readTiffTagBytes(tiff, TIFF_TAGS.samplesPerPixel))).toEqual([3]);
+    expect(longs(readTiffTagBytes(tiff, TIFF_TAGS.stripByteCounts))).toEqual([12]);
+  });
+
+  it("widens 8-bit values across the full 16-bit range and drops alpha", () => {
+    expect(shorts(tiff.subarray(8, 20))).toEqual([0, 32896, 65535, 2570, 5140, 7710]);
+  });
+});
@@ -0,0 +1,155 @@
+// @vitest-environment jsdom
+import { createCanvas, loadImage } from "@napi-rs/canvas";
+import { act, renderHook } from "@testing-library/react";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { useLiveInput } from "../hooks/use-live-input";
+import { DEFAULT_PIPELINE } from "../utils/effect-stages";
+import type { PlasterRenderClient, RenderJob } from "../utils/plaster-worker-client";
+import { DEFAULT_SETTINGS } from "../utils/settings-schema";
+import {
+  type FakeStream,
+  createFakeStream,
+  flushTasks,
+  installAnimationFrames,
+  installCanvas,
+  readBlob
+} from "./helpers/fake-media";
+
+const CAMERA_WIDTH = 1280;
+const CAMERA_HEIGHT = 960;
+const JOB: RenderJob = {
+  settings: DEFAULT_SETTINGS,
+  pipeline: DEFAULT_PIPELINE,
+  width: 480,
+  height: 640
+};
+
+const createClient = () =>
+  ({
+    setSource: vi.fn(),
+    render: vi.fn(),
+    cancel: vi.fn()
+  }) as unknown as PlasterRenderClient & {
+    setSource: ReturnType<typeof vi.fn>;
+    render: ReturnType<typeof vi.fn>;
+    cancel: ReturnType<typeof vi.fn>;
+  };
+
+const fakeBitmap = () => ({ width: JOB.width, height: JOB.height, close: vi.fn() });
+
+describe("useLiveInput", () => {
+  let camera: FakeStream;
+  let frames: ReturnType<typeof installAnimationFrames>;
+  let client: ReturnType<typeof createClient>;
+
+  beforeEach(() => {
+    const frame = createCanvas(CAMERA_WIDTH, CAMERA_HEIGHT);
+    const context = frame.getContext("2d");
+    context.fillStyle = "#c49a7c";
+    context.fillRect(0, 0, CAMERA_WIDTH, CAMERA_HEIGHT);
+    installCanvas(frame);
+    frames = installAnimationFrames();
+    camera = createFakeStream(2);
+    client = createClient();
+
+    Object.defineProperty(navigator, "mediaDevices", {
+      configurable: true,
+      value: { getUserMedia: vi.fn(async () => camera.stream) }
+    });
+    URL.createObjectURL = vi.fn(() => "blob:clip");
+    URL.revokeObjectURL = vi.fn();
+    vi.stubGlobal("createImageBitmap", vi.fn(async () => fakeBitmap()));
+    vi.spyOn(HTMLMediaElement.prototype, "play").mockResolvedValue(undefined);
+    vi.spyOn(HTMLMediaElement.prototype, "pause").mockImplementation(() => {});
+    vi.spyOn(HTMLMediaElement.prototype, "readyState", "get").mockReturnValue(
+      HTMLMediaElement.HAVE_ENOUGH_DATA
+    );
+    vi.spyOn(HTMLVideoElement.prototype, "videoWidth", "get").mockReturnValue(CAMERA_WIDTH);
+    vi.spyOn(HTMLVideoElement.prototype, "videoHeight", "get").mockReturnValue(CAMERA_HEIGHT);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  const startCamera = async () => {
+    const hook = renderHook(() => useLiveInput({ renderer: { current: client }, job: JOB }));
+    await act(() => hook.result.current.start("camera"));
+    await flushTasks();
+    return hook;
+  };
+
+  it("sends frames to the renderer one at a time", async () => {
+    const { result } = await startCamera();
+    expect(client.render).toHaveBeenCalledTimes(1);
+    expect(client.render).toHaveBeenCalledWith({ ...JOB, refinement: null });
+    expect(client.setSource).toHaveBeenCalledTimes(1);
+
+    for (let i = 0; i < 5; i++) {
+      frames.step();
+      await flushTasks();
+    }
+    expect(client.render).toHaveBeenCalledTimes(1);
+
+    const rendered = fakeBitmap();
+    result.current.presentFrame(rendered as unknown as ImageBitmap);
+    expect(rendered.close).toHaveBeenCalled();
+    frames.step();
+    await flushTasks();
+    expect(client.render).toHaveBeenCalledTimes(2);
+  });
+
+  it("sends the next frame once the client drops the pending one", async () => {
+    const { result } = await startCamera();
+    frames.step();
+    await flushTasks();
+    expect(client.render).toHaveBeenCalledTimes(1);
+
+    // The client went idle without presenting it: superseded or cancelled.
+    result.current.releaseFrame();
+    frames.step();
+    await flushTasks();
+    expect(client.render).toHaveBeenCalledTimes(2);
+  });
+
+  it("captures a still at the camera's full resolution", async () => {
+    const { result } = await startCamera();
+    const still = await result.current.captureStill();
+    expect(still.type).toBe("image/png");
+
+    const image = await loadImage(Buffer.from(await readBlob(still)));
+    expect([image.width, image.height]).toEqual([CAMERA_WIDTH, CAMERA_HEIGHT]);
+  });
+
+  it("releases the camera on stop", async () => {
+    const { result } = await startCamera();
+    act(() => result.current.stop());
+
+    camera.tracks.forEach((track) => expect(track.stop).toHaveBeenCalled());
+    expect(client.cancel).toHaveBeenCalled();
+    expect(result.current.isActive).toBe(false);
+    expect(frames.pending()).toBe(0);
+  });
+
+  it("releases the camera on unmount", async () => {
+    const { unmount } = await startCamera();
+    unmount();
+    camera.tracks.forEach((track) => expect(track.stop).toHaveBeenCalled());
+    expect(frames.pending()).toBe(0);
+  });
+
+  it("revokes a video file's object URL on stop and on unmount", async () => {
+    const file = new File([new Uint8Array(16)], "clip.mp4", { type: "video/mp4" });
+    const first = renderHook(() => useLiveInput({ renderer: { current: client }, job: JOB }));
+    await act(() => first.result.current.start("video", file));
+    act(() => first.result.current.stop());
+    expect(URL.revokeObjectURL).toHaveBeenCalledWith("blob:clip");
+
+    vi.mocked(URL.revokeObjectURL).mockClear();
+    const second = renderHook(() => useLiveInput({ renderer: { current: client }, job: JOB }));
+    await act(() => second.result.current.start("video", file));
+    second.unmount();
+    expect(URL.revokeObjectURL).toHaveBeenCalledWith("blob:clip");
+  });
+});
@@ -0,0 +1,141 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { DEFAULT_FACE } from "../utils/face";
+import { DEFAULT_LOCAL_TONE } from "../utils/local-tone";
+import type { EffectSettings } from "../utils/plaster-effect";
+import { DEFAULT_SETTINGS } from "../utils/settings-schema";
+import { DEFAULT_TONE_CURVE } from "../utils/tone-curve";
+import { SITTERS } from "./fixtures/portraits";
+import { type BrowserRenderer, openBrowserRenderer } from "./helpers/browser-renderer";
+import { channelErrors } from "./helpers/perceptual-diff";
+
+const WIDTH = 270;
+const HEIGHT = 360;
+// Only Gaussian smoothing has a shader, and face regions keep detail and
+// smoothing on the CPU; the fallback cases below cover both.
+const SETTINGS: EffectSettings = {
+  ...DEFAULT_SETTINGS,
+  smoothing: { ...DEFAULT_SETTINGS.smoothing, mode: "gaussian" },
+  face: { ...DEFAULT_SETTINGS.face, mode: "off" }
+};
+// Canvas stages that set up the frame the tone passes read.
+const FRAME = ["face", "background", "crop"];
+
+// Float shaders against Float32 loops: the same maths, rounded differently.
+const MAX_MEAN_ERROR = 1;
+const MAX_OUTLIER_SHARE = 0.005; // pixels off by more than a few levels
+
+interface ParityCase {
+  name: string;
+  stages: string[];
+  settings?: Partial<EffectSettings>;
+  scale?: number;
+  gpuStages: number;
+  readBack?: boolean;
+}
+
+const CASES: ParityCase[] = [
+  { name: "tone", stages: ["tone"], gpuStages: 1 },
+  { name: "tone and finish", stages: ["tone", "finish"], gpuStages: 2 },
+  { name: "detail", stages: ["blur", "tone", "detail"], gpuStages: 3 },
+  { name: "contour", stages: ["blur", "tone", "contour"], gpuStages: 3 },
+  {
+    name: "the default tone stages",
+    stages: ["blur", "tone", "detail", "contour", "relight", "localTone", "finish", "curve"],
+    gpuStages: 8
+  },
+  // The blur shader's kernel tops out at a 64 px radius; the scale is
+  // forced up so the strongest smoothing reaches it at test size.
+  {
+    name: "blur at a 64 px radius",
+    stages: ["blur", "tone"],
+    settings: { smoothing: { ...SETTINGS.smoothing, gaussianStrength: 100 } },
+    scale: 11.52,
+    gpuStages: 2
+  },
+  {
+    name: "blur at a 20 px radius",
+    stages: ["blur", "tone", "detail"],
+    settings: { smoothing: { ...SETTINGS.smoothing, gaussianStrength: 100 } },
+    scale: 3.6,
+    gpuStages: 3
+  },
+  {
+    name: "blur past the kernel, which stays on the CPU",
+    stages: ["blur", "tone", "detail"],
+    settings: { smoothing: { ...SETTINGS.smoothing, gaussianStrength: 100 } },
+    scale: 12,
+    gpuStages: 0
+  },
+  {
+    name: "face regions, which keep smoothing on the CPU",
+    stages: ["blur", "tone", "detail"],
+    settings: { face: DEFAULT_FACE },
+    gpuStages: 0
+  },
+  {
+    name: "edge-aware smoothing, which stays on the CPU",
+    stages: ["blur", "tone", "detail"],
+    settings: { smoothing: { ...SETTINGS.smoothing, mode: "guided" } },
+    gpuStages: 0
+  },
+  // The page's posterise stage has no shader, so the GPU stops before it
+  // and reads its packed RGBA32F state back for the CPU to carry on from.
+  {
+    name: "a partial run read back for a CPU-only stage",
+    stages: ["blur", "tone", "detail", "posterise", "contour", "finish"],
+    gpuStages: 3,
+    readBack: true
+  },
+  // The directional rig runs on the CPU, so the GPU stops at contour.
+  {
+    name: "directional lighting read back for the CPU rig",
+    stages: ["blur", "tone", "detail", "contour", "relight", "finish"],
+    settings: { lighting: "directional" },
+    gpuStages: 3,
+    readBack: true
+  },
+  // A shaped curve and local contrast stay on the CPU as well.
+  {
+    name: "a partial run read back for a shaped tone curve",
+    stages: ["blur", "tone", "detail", "contour", "finish", "curve"],
+    settings: { toneCurve: { ...DEFAULT_TONE_CURVE, midtones: 30 } },
+    gpuStages: 5,
+    readBack: true
+  },
+  {
+    name: "a partial run read back for local contrast",
+    stages: ["blur", "tone", "detail", "localTone", "finish"],
+    settings: { localTone: { ...DEFAULT_LOCAL_TONE, mode: "clahe" } },
+    gpuStages: 3,
+    readBack: true
+  }
+];
+
+describe.each(SITTERS.map(({ name }) => name))("WebGL2 parity on %s", (sitter) => {
+  let browser: BrowserRenderer;
+
+  beforeAll(async () => {
+    browser = await openBrowserRenderer();
+  }, 120_000);
+
+  afterAll(() => browser?.close());
+
+  it.each(CASES)("matches Canvas2D for $name", async (parity) => {
+    const result = await browser.render({
+      sitter,
+      settings: { ...SETTINGS, ...parity.settings },
+      stages: [...FRAME, ...parity.stages],
+      width: WIDTH,
+      height: HEIGHT,
+      scale: parity.scale
+    });
+
+    expect(result.handed).toBe(parity.stages.length);
+    expect(result.handled).toBe(parity.gpuStages);
+    expect(result.readBack).toBe(parity.readBack ?? false);
+
+    const { mean, outliers } = channelErrors(result.webgl2, result.canvas2d);
+    mean.forEach((error) => expect(error).toBeLessThanOrEqual(MAX_MEAN_ERROR));
+    expect(outliers).toBeLessThanOrEqual(MAX_OUTLIER_SHARE);
+  });
+});
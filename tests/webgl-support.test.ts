@@ -0,0 +1,114 @@
+import { createCanvas } from "@napi-rs/canvas";
+import { describe, expect, it } from "vitest";
+import {
+  backgroundStage,
+  blurStage,
+  contourStage,
+  curveStage,
+  detailStage,
+  finishStage,
+  localToneStage,
+  relightStage,
+  toneStage
+} from "../utils/effect-stages";
+import { DEFAULT_FACE } from "../utils/face";
+import { DEFAULT_LOCAL_TONE } from "../utils/local-tone";
+import { type PipelineState, createPipelineState } from "../utils/pipeline";
+import type { EffectSettings, RenderContext2D } from "../utils/plaster-effect";
+import { DEFAULT_SETTINGS } from "../utils/settings-schema";
+import { SMOOTHING_MODES } from "../utils/smoothing";
+import { DEFAULT_TONE_CURVE } from "../utils/tone-curve";
+import { supportsStage } from "../utils/webgl-renderer";
+
+const SETTINGS: EffectSettings = {
+  ...DEFAULT_SETTINGS,
+  smoothing: { ...DEFAULT_SETTINGS.smoothing, mode: "gaussian", gaussianStrength: 100 },
+  face: { ...DEFAULT_FACE, mode: "off" }
+};
+
+const createState = (scale = 1, framed = false): PipelineState => {
+  const canvas = createCanvas(90, 120);
+  const state = createPipelineState(
+    canvas.getContext("2d") as unknown as RenderContext2D,
+    canvas as unknown as CanvasImageSource,
+    90,
+    120
+  );
+  state.scale = scale;
+  if (framed) {
+    state.face = {
+      x: 0.3,
+      y: 0.2,
+      width: 0.4,
+      height: 0.4,
+      leftEye: [0.42, 0.35],
+      rightEye: [0.58, 0.35],
+      mouth: [0.5, 0.5],
+      confidence: 0.9
+    };
+    state.crop = {
+      offsetX: 0,
+      offsetY: 0,
+      cropWidth: 90,
+      cropHeight: 120,
+      sourceWidth: 90,
+      sourceHeight: 120
+    };
+  }
+  return state;
+};
+
+const supports = (
+  stage: Parameters<typeof supportsStage>[0],
+  settings: Partial<EffectSettings> = {},
+  state = createState()
+) => supportsStage(stage, { ...SETTINGS, ...settings }, state);
+
+describe("WebGL accelerator stage support", () => {
+  // Full strength is a radius of 100 / 18 px per unit of scale.
+  it("takes Gaussian smoothing up to a 64 px radius", () => {
+    expect(supports(blurStage, {}, createState(11.52))).toBe(true);
+    expect(supports(blurStage, {}, createState(12))).toBe(false);
+  });
+
+  const edgeAware = SMOOTHING_MODES.filter((mode) => mode !== "gaussian");
+  it.each(edgeAware)("leaves %s smoothing", (mode) => {
+    expect(supports(blurStage, { smoothing: { ...SETTINGS.smoothing, mode } })).toBe(false);
+  });
+
+  it("leaves smoothing and detail scaled around a framed face", () => {
+    const face = { ...DEFAULT_FACE, mode: "auto" as const };
+    expect(supports(blurStage, { face }, createState(1, true))).toBe(false);
+    expect(supports(detailStage, { face }, createState(1, true))).toBe(false);
+    expect(supports(detailStage, { face })).toBe(true);
+
+    const unscaled = { ...face, featureSmoothing: 100, skinSmoothing: 100, hairSmoothing: 100 };
+    expect(supports(blurStage, { face: unscaled }, createState(1, true))).toBe(true);
+  });
+
+  it("leaves contour and relight to the CPU under directional lighting", () => {
+    expect(supports(contourStage, { lighting: "contour" })).toBe(true);
+    expect(supports(contourStage, { lighting: "directional" })).toBe(false);
+    expect(supports(relightStage, { lighting: "contour" })).toBe(true);
+    expect(supports(relightStage, { lighting: "directional" })).toBe(false);
+  });
+
+  it("takes local contrast and the curve only when they are no-ops", () => {
+    expect(supports(localToneStage, { localTone: { ...DEFAULT_LOCAL_TONE, mode: "off" } })).toBe(
+      true
+    );
+    expect(supports(localToneStage, { localTone: { ...DEFAULT_LOCAL_TONE, mode: "clahe" } })).toBe(
+      false
+    );
+    expect(supports(curveStage, { toneCurve: DEFAULT_TONE_CURVE })).toBe(true);
+    expect(supports(curveStage, { toneCurve: { ...DEFAULT_TONE_CURVE, midtones: 30 } })).toBe(
+      false
+    );
+  });
+
+  it("always takes tone and finish, and nothing else", () => {
+    expect(supports(toneStage)).toBe(true);
+    expect(supports(finishStage)).toBe(true);
+    expect(supports(backgroundStage)).toBe(false);
+  });
+});
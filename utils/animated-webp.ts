@@ -0,0 +1,62 @@
+import {
+  concatBytes,
+  createRiffChunk,
+  latin1Bytes,
+  readWebpChunks,
+  setUint24
+} from "./image-metadata";
+
+// The chunks that carry a still's pixels; anything else it holds (VP8X,
+// metadata) does not belong inside an animation frame.
+const IMAGE_CHUNKS = new Set(["ALPH", "VP8 ", "VP8L"]);
+
+// Lossy stills keep alpha in an ALPH chunk; lossless ones flag it in the
+// VP8L header, after the signature byte and the 14-bit width and height.
+const hasAlpha = (webp: Uint8Array, chunk: { type: string; start: number }) =>
+  chunk.type === "ALPH" || (chunk.type === "VP8L" && (webp[chunk.start + 12] & 0x10) !== 0);
+
+export interface AnimatedWebpFrame {
+  webp: Uint8Array; // a complete still WebP file of the full canvas size
+  duration: number; // milliseconds
+}
+
+// Wraps stills the browser already encoded as ANMF frames of an extended
+// WebP that loops forever. Each frame replaces the last outright.
+export const encodeAnimatedWebp = (
+  frames: readonly AnimatedWebpFrame[],
+  width: number,
+  height: number
+) => {
+  // Background colour and loop count, both 0: transparent, loop forever.
+  const animation = new Uint8Array(6);
+  let alpha = false;
+
+  const chunks = frames.map(({ webp, duration }) => {
+    const found = readWebpChunks(webp).filter((chunk) => IMAGE_CHUNKS.has(chunk.type));
+    if (found.length === 0) throw new Error("Unable to encode WebP frames");
+    alpha ||= found.some((chunk) => hasAlpha(webp, chunk));
+    const image = found.map((chunk) => webp.subarray(chunk.start, chunk.end));
+
+    const frame = new Uint8Array(16);
+    setUint24(frame, 6, width - 1);
+    setUint24(frame, 9, height - 1);
+    setUint24(frame, 12, duration);
+    frame[15] = 0x02; // do not blend with the previous frame
+    return createRiffChunk("ANMF", concatBytes([frame, ...image]));
+  });
+
+  const header = new Uint8Array(10);
+  header[0] = 0x02 | (alpha ? 0x10 : 0); // animation, and alpha if any frame has it
+  setUint24(header, 4, width - 1);
+  setUint24(header, 7, height - 1);
+
+  return createRiffChunk(
+    "RIFF",
+    concatBytes([
+      latin1Bytes("WEBP"),
+      createRiffChunk("VP8X", header),
+      createRiffChunk("ANIM", animation),
+      ...chunks
+    ])
+  );
+};
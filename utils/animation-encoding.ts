@@ -0,0 +1,174 @@
+import { encodeAnimatedWebp } from "./animated-webp";
+import { encodeCanvas } from "./export-encoding";
+import { createGifEncoder } from "./gif";
+import { APP_SOFTWARE } from "./recipe";
+import { type WebmCodec, type WebmFrame, muxWebm } from "./webm";
+
+export type AnimationFormat = "webm" | "webp" | "gif";
+
+export interface AnimationFormatInfo {
+  id: AnimationFormat;
+  label: string;
+  mimeType: string;
+  extension: string;
+}
+
+export const ANIMATION_FORMATS: readonly AnimationFormatInfo[] = [
+  { id: "webm", label: "WebM", mimeType: "video/webm", extension: "webm" },
+  { id: "webp", label: "WebP", mimeType: "image/webp", extension: "webp" },
+  { id: "gif", label: "GIF", mimeType: "image/gif", extension: "gif" }
+];
+
+export const getAnimationFormat = (format: AnimationFormat) =>
+  ANIMATION_FORMATS.find((item) => item.id === format) ?? ANIMATION_FORMATS[0];
+
+type FrameCanvas = HTMLCanvasElement | OffscreenCanvas;
+
+interface FrameContext {
+  getImageData: (x: number, y: number, width: number, height: number) => ImageData;
+}
+
+export interface FrameEncoder {
+  addFrame: (canvas: FrameCanvas, context: FrameContext) => Promise<void>;
+  finish: () => Promise<Blob>;
+  close: () => void;
+}
+
+const WEBP_QUALITY = 90;
+// Bits per pixel per frame; enough for the fine plaster grain to survive.
+const VIDEO_BITS_PER_PIXEL = 0.2;
+const KEY_FRAME_SECONDS = 2;
+
+// Frame times snap to whole units of the container's clock without
+// drifting: each frame lasts up to the next rounded boundary.
+const frameDuration = (index: number, fps: number, unitsPerSecond: number) =>
+  Math.round(((index + 1) * unitsPerSecond) / fps) - Math.round((index * unitsPerSecond) / fps);
+
+const VIDEO_CODECS: { codec: string; webm: WebmCodec }[] = [
+  { codec: "vp09.00.10.08", webm: "V_VP9" },
+  { codec: "vp8", webm: "V_VP8" }
+];
+
+const createWebmEncoder = async (
+  width: number,
+  height: number,
+  fps: number
+): Promise<FrameEncoder> => {
+  if (typeof VideoEncoder === "undefined") {
+    throw new Error("This browser cannot encode WebM; choose WebP or GIF");
+  }
+  const base = {
+    width,
+    height,
+    framerate: fps,
+    bitrate: Math.round(width * height * fps * VIDEO_BITS_PER_PIXEL)
+  };
+  let chosen: (typeof VIDEO_CODECS)[number] | undefined;
+  for (const candidate of VIDEO_CODECS) {
+    const { supported } = await VideoEncoder.isConfigSupported({
+      ...base,
+      codec: candidate.codec
+    });
+    if (supported) {
+      chosen = candidate;
+      break;
+    }
+  }
+  if (!chosen) throw new Error("This browser cannot encode WebM; choose WebP or GIF");
+
+  const frames: WebmFrame[] = [];
+  let failure: Error | null = null;
+  const encoder = new VideoEncoder({
+    output: (chunk) => {
+      const data = new Uint8Array(chunk.byteLength);
+      chunk.copyTo(data);
+      frames.push({
+        data,
+        timestamp: Math.round(chunk.timestamp / 1000),
+        key: chunk.type === "key"
+      });
+    },
+    error: (error) => {
+      failure = error instanceof Error ? error : new Error("Video encoding failed");
+    }
+  });
+  encoder.configure({ ...base, codec: chosen.codec });
+  const codec = chosen.webm;
+  let index = 0;
+
+  return {
+    addFrame: async (canvas) => {
+      if (failure) throw failure;
+      const frame = new VideoFrame(canvas, {
+        timestamp: Math.round((index * 1_000_000) / fps),
+        duration: frameDuration(index, fps, 1_000_000)
+      });
+      encoder.encode(frame, { keyFrame: index % (fps * KEY_FRAME_SECONDS) === 0 });
+      frame.close();
+      index++;
+    },
+    finish: async () => {
+      await encoder.flush();
+      if (failure) throw failure;
+      const bytes = muxWebm({
+        codec,
+        width,
+        height,
+        duration: Math.round((index * 1000) / fps),
+        frames,
+        software: APP_SOFTWARE
+      });
+      return new Blob([bytes as BlobPart], { type: "video/webm" });
+    },
+    close: () => {
+      if (encoder.state !== "closed") encoder.close();
+    }
+  };
+};
+
+const createWebpEncoder = (width: number, height: number, fps: number): FrameEncoder => {
+  const frames: { webp: Uint8Array; duration: number }[] = [];
+  return {
+    addFrame: async (canvas, context) => {
+      const still = await encodeCanvas(canvas, context, { type: "webp", quality: WEBP_QUALITY });
+      frames.push({
+        webp: new Uint8Array(await still.arrayBuffer()),
+        duration: frameDuration(frames.length, fps, 1000)
+      });
+    },
+    finish: async () =>
+      new Blob([encodeAnimatedWebp(frames, width, height) as BlobPart], { type: "image/webp" }),
+    close: () => {}
+  };
+};
+
+const createGifFrameEncoder = (width: number, height: number, fps: number): FrameEncoder => {
+  const gif = createGifEncoder(width, height);
+  let index = 0;
+  return {
+    addFrame: async (_, context) => {
+      // GIF delays are in hundredths of a second.
+      gif.addFrame(context.getImageData(0, 0, width, height).data, frameDuration(index, fps, 100));
+      index++;
+    },
+    finish: async () => new Blob([gif.finish() as BlobPart], { type: "image/gif" }),
+    close: () => {}
+  };
+};
+
+// Frames are encoded as they arrive, so only the compressed clip is held.
+export const createFrameEncoder = (
+  format: AnimationFormat,
+  width: number,
+  height: number,
+  fps: number
+): Promise<FrameEncoder> => {
+  switch (format) {
+    case "webm":
+      return createWebmEncoder(width, height, fps);
+    case "webp":
+      return Promise.resolve(createWebpEncoder(width, height, fps));
+    case "gif":
+      return Promise.resolve(createGifFrameEncoder(width, height, fps));
+  }
+};
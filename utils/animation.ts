@@ -0,0 +1,100 @@
+import { type AnimationFormat, createFrameEncoder } from "./animation-encoding";
+import { type PipelineEntry, createRenderCache } from "./pipeline";
+import type { RenderContext2D } from "./plaster-effect";
+import type { PlasterRenderer } from "./renderer";
+import type { MaskRefinement } from "./segmentation";
+import { type Timeline, frameCount, sampleTimeline } from "./timeline";
+
+export interface AnimationJob {
+  timeline: Timeline;
+  pipeline: readonly PipelineEntry[];
+  width: number;
+  height: number;
+  refinement?: MaskRefinement | null;
+  format: AnimationFormat;
+}
+
+export interface AnimationProgress {
+  frame: number;
+  frames: number;
+}
+
+interface AnimationHooks {
+  onProgress?: (progress: AnimationProgress) => void;
+  isCancelled?: () => boolean;
+}
+
+export const ANIMATION_CANCELLED = "Clip rendering cancelled";
+
+// The photo side of a reveal keeps the look's framing and nothing else.
+const PHOTO_STAGES = new Set(["face", "crop"]);
+
+type FrameSurface = {
+  canvas: HTMLCanvasElement | OffscreenCanvas;
+  context: RenderContext2D;
+};
+
+const createFrameSurface = (width: number, height: number): FrameSurface => {
+  const canvas =
+    typeof OffscreenCanvas !== "undefined"
+      ? new OffscreenCanvas(width, height)
+      : Object.assign(document.createElement("canvas"), { width, height });
+  const context = canvas.getContext("2d", { willReadFrequently: true }) as RenderContext2D | null;
+  if (!context) {
+    throw new Error("Canvas rendering not supported");
+  }
+  return { canvas, context };
+};
+
+// Lets a worker read its message queue, or the page repaint, between frames.
+const nextTask = () => new Promise<void>((resolve) => setTimeout(resolve, 0));
+
+// Renders every frame of the timeline offline and encodes it as it goes.
+// Frames share one render cache, so stretches where only the light or the
+// tone moves skip the smoothing and detail passes.
+export const renderAnimation = async (
+  renderer: PlasterRenderer,
+  source: CanvasImageSource,
+  { timeline, pipeline, width, height, refinement, format }: AnimationJob,
+  { onProgress, isCancelled }: AnimationHooks = {}
+) => {
+  const frames = frameCount(timeline);
+  const cache = createRenderCache();
+  const plaster = createFrameSurface(width, height);
+  const photo = createFrameSurface(width, height);
+  const photoPipeline = pipeline.map((entry) => ({
+    ...entry,
+    enabled: entry.enabled && PHOTO_STAGES.has(entry.id)
+  }));
+  const encoder = await createFrameEncoder(format, width, height, timeline.fps);
+
+  try {
+    for (let frame = 0; frame < frames; frame++) {
+      if (isCancelled?.()) throw new Error(ANIMATION_CANCELLED);
+      const { reveal, settings } = sampleTimeline(timeline, frame / timeline.fps);
+      const config = { source, width, height, refinement, cache };
+
+      if (reveal > 0) {
+        renderer.render({ ...config, settings, pipeline, context: plaster.context });
+      } else {
+        plaster.context.clearRect(0, 0, width, height);
+      }
+      if (reveal < 100) {
+        renderer.render({ ...config, settings, pipeline: photoPipeline, context: photo.context });
+        plaster.context.save();
+        plaster.context.globalAlpha = 1 - reveal / 100;
+        plaster.context.drawImage(photo.canvas, 0, 0);
+        plaster.context.restore();
+      }
+
+      await encoder.addFrame(plaster.canvas, plaster.context);
+      onProgress?.({ frame: frame + 1, frames });
+      await nextTask();
+    }
+    if (isCancelled?.()) throw new Error(ANIMATION_CANCELLED);
+    return await encoder.finish();
+  } finally {
+    encoder.close();
+    cache.clear();
+  }
+};
@@ -0,0 +1,48 @@
+import { clamp } from "./image-filters";
+
+export interface CropRect {
+  offsetX: number;
+  offsetY: number;
+  cropWidth: number;
+  cropHeight: number;
+}
+
+export const getSourceSize = (
+  source: CanvasImageSource,
+  fallbackWidth: number,
+  fallbackHeight: number
+) => {
+  const width = "width" in source ? (source as HTMLImageElement | HTMLVideoElement | HTMLCanvasElement).width : fallbackWidth;
+  const height = "height" in source ? (source as HTMLImageElement | HTMLVideoElement | HTMLCanvasElement).height : fallbackHeight;
+  return { width, height };
+};
+
+// focusX/focusY are fractions of the source; the crop is centred on that
+// point as far as the source edges allow.
+export const cropToAspect = (
+  width: number,
+  height: number,
+  aspectRatio: number,
+  zoomFactor: number,
+  focusX = 0.5,
+  focusY = 0.5
+): CropRect => {
+  const ratio = width / height;
+  let cropWidth = width;
+  let cropHeight = height;
+
+  if (ratio > aspectRatio) {
+    cropWidth = height * aspectRatio;
+  } else {
+    cropHeight = width / aspectRatio;
+  }
+
+  const zoom = clamp(zoomFactor, 0, 60) / 100 + 1;
+  cropWidth /= zoom;
+  cropHeight /= zoom;
+
+  const offsetX = clamp(focusX * width - cropWidth / 2, 0, width - cropWidth);
+  const offsetY = clamp(focusY * height - cropHeight / 2, 0, height - cropHeight);
+
+  return { offsetX, offsetY, cropWidth, cropHeight };
+};
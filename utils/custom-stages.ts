@@ -0,0 +1,11 @@
+import type { EffectStage } from "./pipeline";
+
+// Stages added on top of the built-ins, e.g. a film grain pass. They join
+// the default pipeline after the built-ins and can be reordered or toggled
+// like any other stage.
+//
+// Renders run in a Web Worker, which loads its own copy of every module, so
+// a stage registered from page code never reaches the pipeline that runs
+// it. Listing it here registers it wherever effect-stages.ts loads: on the
+// page, in the worker and in the CLI.
+export const CUSTOM_STAGES: readonly EffectStage[] = [];
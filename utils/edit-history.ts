@@ -0,0 +1,81 @@
+export interface HistoryEntry<T> {
+  id: number;
+  label: string;
+  value: T;
+  timestamp: number;
+  coalesceKey?: string;
+}
+
+export interface EditHistory<T> {
+  entries: readonly HistoryEntry<T>[];
+  index: number; // entry currently shown
+}
+
+export interface CommitOptions {
+  // Consecutive commits sharing a key inside the window replace each other,
+  // so one slider drag becomes one step.
+  coalesceKey?: string;
+  now?: number;
+}
+
+export const HISTORY_LIMIT = 100;
+export const COALESCE_WINDOW_MS = 1000;
+
+let nextEntryId = 0;
+
+export const createHistory = <T>(value: T, label = "Start"): EditHistory<T> => ({
+  entries: [{ id: ++nextEntryId, label, value, timestamp: Date.now() }],
+  index: 0
+});
+
+// Restores a persisted history, re-numbering entries so ids stay unique
+// within this page.
+export const restoreHistory = <T>(
+  entries: readonly Omit<HistoryEntry<T>, "id">[],
+  index: number
+): EditHistory<T> => {
+  if (entries.length === 0) {
+    throw new Error("History has no entries");
+  }
+  return {
+    entries: entries.map((entry) => ({ ...entry, id: ++nextEntryId })),
+    index: Math.min(Math.max(0, index), entries.length - 1)
+  };
+};
+
+export const commitHistory = <T>(
+  history: EditHistory<T>,
+  value: T,
+  label: string,
+  { coalesceKey, now = Date.now() }: CommitOptions = {}
+): EditHistory<T> => {
+  const current = history.entries[history.index];
+  // Anything after the current step is a redo branch the new edit replaces.
+  const kept = history.entries.slice(0, history.index + 1);
+
+  const coalesce =
+    coalesceKey !== undefined &&
+    history.index === history.entries.length - 1 &&
+    current.coalesceKey === coalesceKey &&
+    now - current.timestamp < COALESCE_WINDOW_MS;
+
+  if (coalesce) {
+    kept[kept.length - 1] = { ...current, value, timestamp: now };
+    return { entries: kept, index: history.index };
+  }
+
+  const entries = [...kept, { id: ++nextEntryId, label, value, timestamp: now, coalesceKey }];
+  const overflow = Math.max(0, entries.length - HISTORY_LIMIT);
+  return { entries: entries.slice(overflow), index: entries.length - 1 - overflow };
+};
+
+export const jumpHistory = <T>(history: EditHistory<T>, index: number): EditHistory<T> =>
+  index < 0 || index >= history.entries.length || index === history.index
+    ? history
+    : { ...history, index };
+
+export const undoHistory = <T>(history: EditHistory<T>) =>
+  jumpHistory(history, history.index - 1);
+
+export const redoHistory = <T>(history: EditHistory<T>) =>
+  jumpHistory(history, history.index + 1);
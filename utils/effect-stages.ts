@@ -0,0 +1,501 @@
+import { cropToAspect, getSourceSize } from "./crop";
+import { CUSTOM_STAGES } from "./custom-stages";
+import {
+  type FaceSettings,
+  autoFraming,
+  faceInFrame,
+  regionScaleMap,
+  regionScales
+} from "./face";
+import { detectFace, detectionSize } from "./face-detection";
+import {
+  clamp,
+  contrastTransform,
+  normaliseArray,
+  sobelGradients,
+  sobelMagnitude,
+  softLight
+} from "./image-filters";
+import { relightTone } from "./lighting";
+import { applyLocalTone } from "./local-tone";
+import { applyMaterial, getMaterial } from "./materials";
+import { drawPedestal } from "./pedestal";
+import {
+  type PipelineEntry,
+  type PipelineState,
+  defineStage,
+  memoise,
+  registerStage
+} from "./pipeline";
+import type { RenderContext2D } from "./plaster-effect";
+import { estimateSubjectMask } from "./segmentation";
+import { smoothTone } from "./smoothing";
+import { applyTexture } from "./texture";
+import { applyToneCurve } from "./tone-curve";
+
+const paintBackdrop = (
+  context: RenderContext2D,
+  width: number,
+  height: number,
+  backgroundLift: number
+) => {
+  const background = context.createLinearGradient(0, 0, 0, height);
+  const lift = clamp(backgroundLift, 0, 100) / 100;
+  background.addColorStop(0, `rgba(250,250,247,${0.85 + lift * 0.1})`);
+  background.addColorStop(1, `rgba(242,242,236,${0.9 + lift * 0.08})`);
+  context.fillStyle = background;
+  context.fillRect(0, 0, width, height);
+};
+
+// The detected face in output pixels, once the crop is known; null when
+// detection is off or found nothing.
+export const frameFace = (state: PipelineState, face: FaceSettings) =>
+  face.mode === "auto" && state.face && state.crop
+    ? faceInFrame(state.face, state.crop, state.width, state.height)
+    : null;
+
+// Sobel gradients of the smoothed map, shared by the contour, relight and
+// texture passes so changes further down the pipeline never redo them.
+const smoothedGradients = (state: PipelineState) =>
+  memoise(state, "gradients", state.smoothedKey, () =>
+    sobelGradients(state.smoothed!, state.width, state.height)
+  );
+
+// Samples the whole source into a corner of the canvas and puts back what
+// was there, so detection needs no canvas of its own in any environment.
+export const faceStage = defineStage({
+  id: "face",
+  label: "Face Detection",
+  target: "canvas",
+  settingKeys: ["face"],
+  run: (state, { face }) => {
+    if (face.mode === "off") return;
+    const { context, source, width, height } = state;
+    const size = getSourceSize(source, width, height);
+    const sample = detectionSize(size.width, size.height);
+    const sampleWidth = Math.min(sample.width, width);
+    const sampleHeight = Math.min(sample.height, height);
+
+    const saved = context.getImageData(0, 0, sampleWidth, sampleHeight);
+    context.filter = "none";
+    context.imageSmoothingEnabled = true;
+    context.imageSmoothingQuality = "high";
+    context.clearRect(0, 0, sampleWidth, sampleHeight);
+    context.drawImage(source, 0, 0, sampleWidth, sampleHeight);
+    const pixels = context.getImageData(0, 0, sampleWidth, sampleHeight);
+    context.putImageData(saved, 0, 0);
+    state.face = detectFace(pixels.data, sampleWidth, sampleHeight);
+  }
+});
+
+export const backgroundStage = defineStage({
+  id: "background",
+  label: "Studio Backdrop",
+  target: "canvas",
+  settingKeys: ["backgroundLift"],
+  run: ({ context, width, height }, { backgroundLift }) => {
+    paintBackdrop(context, width, height, backgroundLift);
+  }
+});
+
+export const cropStage = defineStage({
+  id: "crop",
+  label: "Macro Crop",
+  target: "canvas",
+  settingKeys: ["macroZoom", "focusX", "focusY", "face"],
+  run: (state, { macroZoom, focusX, focusY, face }) => {
+    const { context, source, width, height } = state;
+    const size = getSourceSize(source, width, height);
+    const framing =
+      face.mode === "auto" && face.framing === "auto" && state.face
+        ? autoFraming(state.face, size.width, size.height, width / height, face.framingSize)
+        : { macroZoom, focusX, focusY };
+    const { offsetX, offsetY, cropWidth, cropHeight } = cropToAspect(
+      size.width,
+      size.height,
+      width / height,
+      framing.macroZoom,
+      framing.focusX / 100,
+      framing.focusY / 100
+    );
+
+    state.crop = {
+      offsetX,
+      offsetY,
+      cropWidth,
+      cropHeight,
+      sourceWidth: size.width,
+      sourceHeight: size.height
+    };
+
+    context.filter = "none";
+    context.imageSmoothingEnabled = true;
+    context.imageSmoothingQuality = "high";
+    context.drawImage(
+      source,
+      offsetX,
+      offsetY,
+      cropWidth,
+      cropHeight,
+      0,
+      0,
+      width,
+      height
+    );
+  }
+});
+
+export const segmentStage = defineStage({
+  id: "segment",
+  label: "Subject Mask",
+  target: "canvas",
+  settingKeys: ["subjectMask", "maskTolerance", "maskFeather"],
+  run: (state, { subjectMask, maskTolerance, maskFeather }) => {
+    if (subjectMask === "off") return;
+    const { context, width, height } = state;
+    const pixels = context.getImageData(0, 0, width, height);
+    state.subjectMask = estimateSubjectMask(
+      pixels.data,
+      width,
+      height,
+      maskTolerance,
+      maskFeather,
+      state.refinement,
+      state.crop
+    );
+  }
+});
+
+export const blurStage = defineStage({
+  id: "blur",
+  label: "Surface Smoothing",
+  target: "tone",
+  settingKeys: ["smoothing", "face"],
+  run: (state, { smoothing, face }) => {
+    const { width, height, scale } = state;
+    const original = state.tone!;
+    // The key covers every stage so far, this one included, so it stands
+    // for the tone this stage starts from.
+    const smoothed = memoise(state, "smoothed", state.key, () => {
+      const base = smoothTone(original, width, height, smoothing, scale);
+
+      // Regions scaled below 100% keep more of the unsmoothed tone; above it
+      // they blend towards a second smoothing pass.
+      const frame = frameFace(state, face);
+      const scales = frame && regionScaleMap(frame, width, height, regionScales(face, "Smoothing"));
+      if (!scales) return base;
+      const again = scales.some((value) => value > 1)
+        ? smoothTone(base, width, height, smoothing, scale)
+        : base;
+      return base.map((value, i) =>
+        scales[i] <= 1
+          ? original[i] + (value - original[i]) * scales[i]
+          : value + (again[i] - value) * (scales[i] - 1)
+      );
+    });
+
+    state.smoothed = smoothed;
+    state.smoothedKey = state.key;
+    state.tone = Float32Array.from(smoothed);
+  }
+});
+
+export const toneStage = defineStage({
+  id: "tone",
+  label: "Tone Contrast",
+  target: "tone",
+  settingKeys: ["depth", "luminosity"],
+  run: ({ tone }, { depth, luminosity }) => {
+    const depthStrength = clamp(depth, 0, 100) / 100;
+    const luminosityShift = (clamp(luminosity, -50, 50) / 50) * 15;
+    const values = tone!;
+
+    for (let i = 0; i < values.length; i++) {
+      const value = contrastTransform(values[i], 30 + depthStrength * 90);
+      values[i] = clamp(value + luminosityShift, 0, 255);
+    }
+  }
+});
+
+export const detailStage = defineStage({
+  id: "detail",
+  label: "Micro Detail",
+  target: "tone",
+  settingKeys: ["microDetail", "face"],
+  run: (state, { microDetail, face }) => {
+    const { tone, luminance, smoothed, width, height } = state;
+    const values = tone!;
+    const normalisedDetail = memoise(state, "detail", state.smoothedKey, () => {
+      const source = luminance!;
+      const base = smoothed!;
+      const detailSource = new Float32Array(source.length);
+      for (let i = 0; i < source.length; i++) {
+        detailSource[i] = source[i] - base[i];
+      }
+      return normaliseArray(detailSource, detailSource);
+    });
+
+    const detailStrength = clamp(microDetail, 0, 100) / 100;
+    const frame = frameFace(state, face);
+    const scales = frame && regionScaleMap(frame, width, height, regionScales(face, "Detail"));
+
+    for (let i = 0; i < values.length; i++) {
+      const micro = (normalisedDetail[i] - 0.5) * 80 * detailStrength * (scales ? scales[i] : 1);
+      values[i] = clamp(values[i] + micro, 0, 255);
+    }
+  }
+});
+
+export const contourStage = defineStage({
+  id: "contour",
+  label: "Contour Depth",
+  target: "tone",
+  settingKeys: ["depth", "lighting"],
+  run: (state, { depth, lighting }) => {
+    if (lighting !== "contour") return;
+    const values = state.tone!;
+    const normalisedSobel = memoise(state, "contour", state.smoothedKey, () => {
+      const sobelMap = sobelMagnitude(smoothedGradients(state));
+      return normaliseArray(sobelMap, sobelMap);
+    });
+    const depthStrength = clamp(depth, 0, 100) / 100;
+
+    for (let i = 0; i < values.length; i++) {
+      const contour = (normalisedSobel[i] - 0.4) * 140 * depthStrength;
+      values[i] = clamp(values[i] + contour, 0, 255);
+    }
+  }
+});
+
+export const relightStage = defineStage({
+  id: "relight",
+  label: "Directional Light",
+  target: "tone",
+  settingKeys: ["depth", "lighting", "lights"],
+  run: (state, { depth, lighting, lights }) => {
+    if (lighting !== "directional") return;
+    relightTone(state.tone!, smoothedGradients(state), lights, depth, state.scale);
+  }
+});
+
+export const localToneStage = defineStage({
+  id: "localTone",
+  label: "Local Contrast",
+  target: "tone",
+  settingKeys: ["localTone"],
+  run: ({ tone, width, height, scale }, { localTone }) => {
+    applyLocalTone(tone!, width, height, localTone, scale);
+  }
+});
+
+export const finishStage = defineStage({
+  id: "finish",
+  label: "Highlights & Shadows",
+  target: "tone",
+  settingKeys: ["sheen", "matte", "toneCurve"],
+  run: ({ tone }, { sheen, matte, toneCurve }) => {
+    const values = tone!;
+    const sheenStrength = clamp(sheen, 0, 100) / 100;
+    const matteStrength = clamp(matte, 0, 100) / 100;
+    const { shadowSplit, highlightSplit } = toneCurve;
+
+    for (let i = 0; i < values.length; i++) {
+      let value = values[i];
+
+      if (value > highlightSplit) {
+        const boost = (value - highlightSplit) * 0.8 * sheenStrength;
+        value = clamp(softLight(value, value + boost), 0, 255);
+      }
+
+      if (value < shadowSplit) {
+        const liftShadows = (shadowSplit - value) * 0.6 * matteStrength;
+        value = clamp(value + liftShadows, 0, 255);
+      }
+
+      values[i] = value;
+    }
+  }
+});
+
+export const curveStage = defineStage({
+  id: "curve",
+  label: "Tone Curve",
+  target: "tone",
+  settingKeys: ["toneCurve"],
+  run: ({ tone }, { toneCurve }) => {
+    applyToneCurve(tone!, toneCurve);
+  }
+});
+
+export const textureStage = defineStage({
+  id: "texture",
+  label: "Surface Texture",
+  target: "tone",
+  settingKeys: ["texture"],
+  run: (state, { texture }) => {
+    const { tone, width, height, scale } = state;
+    if (texture.pattern === "off" || texture.strength <= 0) return;
+    applyTexture(tone!, smoothedGradients(state), width, height, texture, scale);
+  }
+});
+
+// Runs on the composed frame rather than the tone map so it also colours
+// whatever earlier stages drew, and so the GPU path can hand over as usual.
+export const materialStage = defineStage({
+  id: "material",
+  label: "Material",
+  target: "canvas",
+  settingKeys: ["material", "sheen"],
+  run: ({ context, width, height, scale }, { material: materialId, sheen }) => {
+    const material = getMaterial(materialId);
+    if (material.ramp.length === 0) return;
+
+    const pixels = context.getImageData(0, 0, width, height);
+    applyMaterial(pixels.data, width, material, sheen, scale);
+    context.putImageData(pixels, 0, 0);
+  }
+});
+
+// Lifts the finished subject off the canvas and rebuilds the studio
+// backdrop behind it; the subject stage lays it back on top once the
+// backdrop, stand and shadows are in place.
+export const cutoutStage = defineStage({
+  id: "cutout",
+  label: "Studio Cutout",
+  target: "canvas",
+  settingKeys: ["backgroundLift"],
+  run: (state, { backgroundLift }) => {
+    const { context, width, height, subjectMask } = state;
+    if (!subjectMask) return;
+
+    const subject = context.getImageData(0, 0, width, height);
+    const data = subject.data;
+    for (let i = 0; i < subjectMask.length; i++) {
+      data[i * 4 + 3] *= subjectMask[i];
+    }
+    state.subject = subject;
+
+    context.clearRect(0, 0, width, height);
+    context.fillStyle = "#8c8c87";
+    context.fillRect(0, 0, width, height);
+    paintBackdrop(context, width, height, backgroundLift);
+  }
+});
+
+export const subjectStage = defineStage({
+  id: "subject",
+  label: "Subject Layer",
+  target: "canvas",
+  settingKeys: [],
+  run: (state) => {
+    const { context, width, height, subject } = state;
+    if (!subject) return;
+
+    const frame = context.getImageData(0, 0, width, height);
+    const target = frame.data;
+    const layer = subject.data;
+    for (let i = 0; i < target.length; i += 4) {
+      const alpha = layer[i + 3] / 255;
+      if (alpha === 0) continue;
+      const keep = 1 - alpha;
+      target[i] = layer[i] * alpha + target[i] * keep;
+      target[i + 1] = layer[i + 1] * alpha + target[i + 1] * keep;
+      target[i + 2] = layer[i + 2] * alpha + target[i + 2] * keep;
+      target[i + 3] = 255 * alpha + target[i + 3] * keep;
+    }
+    context.putImageData(frame, 0, 0);
+    state.subject = null;
+  }
+});
+
+export const vignetteStage = defineStage({
+  id: "vignette",
+  label: "Vignette",
+  target: "canvas",
+  settingKeys: ["vignette", "face"],
+  run: (state, { vignette, face }) => {
+    const { context, width, height } = state;
+    const vignetteStrength = clamp(vignette, 0, 100) / 100;
+    if (vignetteStrength <= 0) return;
+
+    const frame = face.vignette === "face" ? frameFace(state, face) : null;
+    const centreX = frame ? frame.cx : width / 2;
+    const centreY = frame ? frame.cy : height * 0.55;
+    const gradient = context.createRadialGradient(
+      centreX,
+      centreY,
+      width * 0.25,
+      centreX,
+      centreY,
+      Math.max(width, height) * 0.7
+    );
+    gradient.addColorStop(0, "rgba(255,255,255,0)");
+    gradient.addColorStop(
+      1,
+      `rgba(210,210,205,${0.35 * vignetteStrength})`
+    );
+    context.fillStyle = gradient;
+    context.fillRect(0, 0, width, height);
+  }
+});
+
+export const standStage = defineStage({
+  id: "stand",
+  label: "Pedestal",
+  target: "canvas",
+  settingKeys: ["pedestal", "lights"],
+  run: ({ context, width, height }, { pedestal, lights }) => {
+    drawPedestal(context, width, height, pedestal, lights.key);
+  }
+});
+
+export const baseShadowStage = defineStage({
+  id: "baseShadow",
+  label: "Base Shadow",
+  target: "canvas",
+  settingKeys: [],
+  run: ({ context, width, height }) => {
+    const basePad = height * 0.04;
+    const baseShadow = context.createLinearGradient(
+      0,
+      height - basePad,
+      0,
+      height
+    );
+    baseShadow.addColorStop(0, "rgba(0,0,0,0.18)");
+    baseShadow.addColorStop(0.7, "rgba(0,0,0,0.05)");
+    baseShadow.addColorStop(1, "rgba(0,0,0,0)");
+    context.fillStyle = baseShadow;
+    context.fillRect(0, height - basePad, width, basePad);
+  }
+});
+
+const builtInStages = [
+  faceStage,
+  backgroundStage,
+  cropStage,
+  segmentStage,
+  blurStage,
+  toneStage,
+  detailStage,
+  contourStage,
+  relightStage,
+  localToneStage,
+  finishStage,
+  curveStage,
+  textureStage,
+  materialStage,
+  cutoutStage,
+  vignetteStage,
+  standStage,
+  baseShadowStage,
+  subjectStage
+];
+
+const stages = [...builtInStages, ...CUSTOM_STAGES];
+
+stages.forEach(registerStage);
+
+export const DEFAULT_PIPELINE: readonly PipelineEntry[] = stages.map(
+  (stage) => ({ id: stage.id, enabled: true })
+);
@@ -0,0 +1,105 @@
+import { encodeTiff16 } from "./tiff";
+
+export type ExportFileType = "png" | "jpeg" | "webp" | "tiff";
+
+export interface ExportFileTypeInfo {
+  id: ExportFileType;
+  label: string;
+  mimeType: string;
+  extension: string;
+  lossy: boolean;
+}
+
+export interface ExportEncoding {
+  type: ExportFileType;
+  quality: number; // 0-100, lossy types only
+}
+
+export const EXPORT_FILE_TYPES: readonly ExportFileTypeInfo[] = [
+  { id: "png", label: "PNG", mimeType: "image/png", extension: "png", lossy: false },
+  { id: "jpeg", label: "JPEG", mimeType: "image/jpeg", extension: "jpg", lossy: true },
+  { id: "webp", label: "WebP", mimeType: "image/webp", extension: "webp", lossy: true },
+  { id: "tiff", label: "TIFF 16-bit", mimeType: "image/tiff", extension: "tif", lossy: false }
+];
+
+export const DEFAULT_EXPORT_ENCODING: ExportEncoding = { type: "png", quality: 92 };
+
+export const getExportFileType = (type: ExportFileType) =>
+  EXPORT_FILE_TYPES.find((item) => item.id === type) ?? EXPORT_FILE_TYPES[0];
+
+type EncodableCanvas = HTMLCanvasElement | OffscreenCanvas;
+
+interface PixelSource {
+  getImageData: (x: number, y: number, width: number, height: number) => ImageData;
+}
+
+const canvasToBlob = (canvas: EncodableCanvas, mimeType: string, quality: number) =>
+  "convertToBlob" in canvas
+    ? canvas.convertToBlob({ type: mimeType, quality })
+    : new Promise<Blob>((resolve, reject) =>
+        canvas.toBlob(
+          (blob) => (blob ? resolve(blob) : reject(new Error("Unable to encode image"))),
+          mimeType,
+          quality
+        )
+      );
+
+// Browsers silently fall back to PNG for types they cannot encode, which
+// would otherwise ship a PNG under a .webp name.
+export const encodeCanvas = async (
+  canvas: EncodableCanvas,
+  context: PixelSource,
+  { type, quality }: ExportEncoding
+) => {
+  const info = getExportFileType(type);
+  if (type === "tiff") {
+    const { data } = context.getImageData(0, 0, canvas.width, canvas.height);
+    return new Blob([encodeTiff16(data, canvas.width, canvas.height) as BlobPart], {
+      type: info.mimeType
+    });
+  }
+
+  const blob = await canvasToBlob(canvas, info.mimeType, quality / 100);
+  if (blob.type !== info.mimeType) {
+    throw new Error(`This browser cannot export ${info.label}`);
+  }
+  return blob;
+};
+
+export const DEFAULT_FILENAME_TEMPLATE = "{name}-plaster-{width}x{height}";
+
+export const FILENAME_TOKENS = ["name", "preset", "material", "width", "height", "date"] as const;
+
+export type FilenameToken = (typeof FILENAME_TOKENS)[number];
+
+const sanitizeFilename = (name: string) =>
+  name
+    .replace(/[\\/:*?"<>|\u0000-\u001f]+/g, "-")
+    .replace(/\s+/g, " ")
+    .trim()
+    .replace(/^\.+/, "");
+
+// Expands {token} placeholders; unknown tokens are left as written so typos
+// are visible in the preview.
+export const formatFilename = (
+  template: string,
+  values: Record<FilenameToken, string>,
+  extension: string
+) => {
+  const expanded = template.replace(/\{(\w+)\}/g, (match, token: string) =>
+    token in values ? values[token as FilenameToken] : match
+  );
+  return `${sanitizeFilename(expanded) || "plaster-bust-macro"}.${extension}`;
+};
+
+export interface ExportOptions {
+  encoding: ExportEncoding;
+  filenameTemplate: string;
+  embedRecipe: boolean;
+}
+
+export const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
+  encoding: DEFAULT_EXPORT_ENCODING,
+  filenameTemplate: DEFAULT_FILENAME_TEMPLATE,
+  embedRecipe: true
+};
@@ -0,0 +1,228 @@
+import { boxFilter, clamp } from "./image-filters";
+
+export type FacePoint = readonly [number, number];
+
+// Everything is in fractions of the source image, so a detection holds for
+// any crop or output size.
+export interface DetectedFace {
+  x: number; // face box
+  y: number;
+  width: number;
+  height: number;
+  leftEye: FacePoint; // the eye on the image's left
+  rightEye: FacePoint;
+  mouth: FacePoint;
+  confidence: number; // 0-1
+}
+
+// Detection runs on a small fixed-size copy of the source, so preview and
+// export find the same face.
+const DETECT_LONG_EDGE = 192;
+const MIN_AREA = 0.004;
+const MAX_AREA = 0.5;
+const MIN_SCORE = 0.12;
+
+// Chai & Ngan's chroma box for skin, which holds across skin tones because
+// it ignores brightness.
+const skinMap = (data: Uint8ClampedArray, width: number, height: number) => {
+  const skin = new Float32Array(width * height);
+  const luma = new Float32Array(width * height);
+  for (let i = 0; i < skin.length; i++) {
+    const r = data[i * 4];
+    const g = data[i * 4 + 1];
+    const b = data[i * 4 + 2];
+    const y = 0.299 * r + 0.587 * g + 0.114 * b;
+    const cb = 128 - 0.168736 * r - 0.331264 * g + 0.5 * b;
+    const cr = 128 + 0.5 * r - 0.418688 * g - 0.081312 * b;
+    luma[i] = y;
+    const isSkin = data[i * 4 + 3] > 0 && y > 40 && cb >= 77 && cb <= 127 && cr >= 133 && cr <= 173;
+    skin[i] = isSkin ? 1 : 0;
+  }
+  // A small box filter closes speckle so one face is one region.
+  const closed = boxFilter(skin, width, height, 1);
+  for (let i = 0; i < closed.length; i++) closed[i] = closed[i] > 0.5 ? 1 : 0;
+  return { skin: closed, luma };
+};
+
+interface Region {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+const labelRegions = (skin: Float32Array, width: number, height: number) => {
+  const labels = new Int32Array(skin.length).fill(-1);
+  const stack = new Int32Array(skin.length);
+  const regions: Region[] = [];
+  for (let start = 0; start < skin.length; start++) {
+    if (skin[start] === 0 || labels[start] !== -1) continue;
+    const region = { minX: width, minY: height, maxX: 0, maxY: 0 };
+    let top = 0;
+    stack[top++] = start;
+    labels[start] = regions.length;
+    while (top > 0) {
+      const index = stack[--top];
+      const x = index % width;
+      const y = (index - x) / width;
+      region.minX = Math.min(region.minX, x);
+      region.maxX = Math.max(region.maxX, x);
+      region.minY = Math.min(region.minY, y);
+      region.maxY = Math.max(region.maxY, y);
+      const neighbours = [
+        x > 0 ? index - 1 : -1,
+        x < width - 1 ? index + 1 : -1,
+        y > 0 ? index - width : -1,
+        y < height - 1 ? index + width : -1
+      ];
+      for (const next of neighbours) {
+        if (next === -1 || skin[next] === 0 || labels[next] !== -1) continue;
+        labels[next] = regions.length;
+        stack[top++] = next;
+      }
+    }
+    regions.push(region);
+  }
+  return { labels, regions };
+};
+
+const bell = (value: number, centre: number, spread: number) =>
+  Math.exp(-(((value - centre) / spread) ** 2));
+
+// A face is an upright, roughly elliptical skin region with holes where
+// the eyes, brows and mouth are. Bare necks and shoulders join the region
+// below the chin, so tall regions are cut to a face's proportions first.
+const scoreRegion = (
+  region: Region,
+  label: number,
+  labels: Int32Array,
+  width: number,
+  total: number
+) => {
+  const boxWidth = region.maxX - region.minX + 1;
+  const boxHeight = Math.min(region.maxY - region.minY + 1, Math.round(boxWidth * 1.4));
+  if (boxWidth < 8 || boxHeight < 8) return null;
+
+  const cx = region.minX + boxWidth / 2;
+  const cy = region.minY + boxHeight / 2;
+  let inside = 0;
+  let covered = 0;
+  for (let y = region.minY; y < region.minY + boxHeight; y++) {
+    for (let x = region.minX; x <= region.maxX; x++) {
+      const dx = (x + 0.5 - cx) / (boxWidth / 2);
+      const dy = (y + 0.5 - cy) / (boxHeight / 2);
+      if (dx * dx + dy * dy > 1) continue;
+      inside++;
+      if (labels[y * width + x] === label) covered++;
+    }
+  }
+  const fill = covered / Math.max(1, inside);
+  const share = covered / total;
+  if (fill < 0.5 || share < MIN_AREA || share > MAX_AREA) return null;
+
+  const holes = 1 - fill;
+  const score =
+    bell(boxHeight / boxWidth, 1.3, 0.45) *
+    bell(holes, 0.15, 0.15) *
+    fill *
+    Math.min(1, Math.sqrt(share / 0.05));
+  return { x: region.minX, y: region.minY, width: boxWidth, height: boxHeight, score };
+};
+
+// The darkest point of a window of the blurred luminance.
+const darkest = (
+  luma: Float32Array,
+  width: number,
+  x0: number,
+  y0: number,
+  x1: number,
+  y1: number
+): FacePoint => {
+  let best: FacePoint = [(x0 + x1) / 2, (y0 + y1) / 2];
+  let bestValue = Infinity;
+  for (let y = Math.floor(y0); y < Math.ceil(y1); y++) {
+    for (let x = Math.floor(x0); x < Math.ceil(x1); x++) {
+      const value = luma[y * width + x];
+      if (value < bestValue) {
+        bestValue = value;
+        best = [x + 0.5, y + 0.5];
+      }
+    }
+  }
+  return best;
+};
+
+// Eyes and mouth are the darkest spots where a face's proportions put
+// them. Implausible results fall back to those proportions.
+const findLandmarks = (
+  luma: Float32Array,
+  width: number,
+  height: number,
+  box: { x: number; y: number; width: number; height: number }
+) => {
+  const blurred = boxFilter(luma, width, height, Math.max(1, Math.round(box.width / 16)));
+  const at = (fx: number, fy: number): FacePoint => [
+    box.x + fx * box.width,
+    box.y + fy * box.height
+  ];
+  const search = (fx0: number, fy0: number, fx1: number, fy1: number) => {
+    const [x0, y0] = at(fx0, fy0);
+    const [x1, y1] = at(fx1, fy1);
+    return darkest(
+      blurred,
+      width,
+      clamp(x0, 0, width - 1),
+      clamp(y0, 0, height - 1),
+      clamp(x1, 1, width),
+      clamp(y1, 1, height)
+    );
+  };
+
+  const leftEye = search(0.12, 0.25, 0.48, 0.55);
+  const rightEye = search(0.52, 0.25, 0.88, 0.55);
+  const mouth = search(0.3, 0.65, 0.7, 0.92);
+  const spacing = (rightEye[0] - leftEye[0]) / box.width;
+  const level = Math.abs(rightEye[1] - leftEye[1]) / box.height;
+  const plausible = spacing > 0.2 && spacing < 0.7 && level < 0.15 && mouth[1] > rightEye[1];
+  return plausible
+    ? { leftEye, rightEye, mouth, plausible }
+    : { leftEye: at(0.3, 0.42), rightEye: at(0.7, 0.42), mouth: at(0.5, 0.78), plausible };
+};
+
+// Classical skin-region detector: no model, no network. Returns the most
+// face-like region of an RGBA image, or null when nothing qualifies.
+export const detectFace = (
+  data: Uint8ClampedArray,
+  width: number,
+  height: number
+): DetectedFace | null => {
+  const { skin, luma } = skinMap(data, width, height);
+  const { labels, regions } = labelRegions(skin, width, height);
+  let box: ReturnType<typeof scoreRegion> = null;
+  for (let label = 0; label < regions.length; label++) {
+    const candidate = scoreRegion(regions[label], label, labels, width, width * height);
+    if (candidate && candidate.score > (box?.score ?? MIN_SCORE)) box = candidate;
+  }
+  if (!box) return null;
+
+  const { leftEye, rightEye, mouth, plausible } = findLandmarks(luma, width, height, box);
+  const toSource = ([x, y]: FacePoint): FacePoint => [x / width, y / height];
+  return {
+    x: box.x / width,
+    y: box.y / height,
+    width: box.width / width,
+    height: box.height / height,
+    leftEye: toSource(leftEye),
+    rightEye: toSource(rightEye),
+    mouth: toSource(mouth),
+    confidence: clamp(box.score * (plausible ? 1 : 0.6), 0, 1)
+  };
+};
+
+export const detectionSize = (sourceWidth: number, sourceHeight: number) => {
+  const scale = DETECT_LONG_EDGE / Math.max(sourceWidth, sourceHeight);
+  return {
+    width: Math.max(1, Math.round(sourceWidth * scale)),
+    height: Math.max(1, Math.round(sourceHeight * scale))
+  };
+};
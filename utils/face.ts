@@ -0,0 +1,167 @@
+import { cropToAspect } from "./crop";
+import type { DetectedFace, FacePoint } from "./face-detection";
+import { clamp } from "./image-filters";
+import type { FrameCrop } from "./segmentation";
+
+export type FaceMode = "off" | "auto";
+
+export type FaceFraming = "auto" | "manual";
+
+export type VignetteAnchor = "face" | "fixed";
+
+// Each automatic choice has its own override: framing and the vignette can
+// fall back to the manual geometry, and the region scales back to 100%.
+export interface FaceSettings {
+  mode: FaceMode; // run detection at all
+  framing: FaceFraming; // auto frames the bust around the face over focus and zoom
+  vignette: VignetteAnchor; // centre the vignette on the face or keep it fixed
+  framingSize: number; // face height as a share of the frame when auto framing
+  featureDetail: number; // eyes and mouth: percent of the global micro detail
+  featureSmoothing: number; // ... and of the global smoothing
+  skinDetail: number;
+  skinSmoothing: number;
+  hairDetail: number;
+  hairSmoothing: number;
+}
+
+export const FACE_MODES: readonly FaceMode[] = ["off", "auto"];
+export const FACE_FRAMINGS: readonly FaceFraming[] = ["auto", "manual"];
+export const VIGNETTE_ANCHORS: readonly VignetteAnchor[] = ["face", "fixed"];
+
+export const DEFAULT_FACE: FaceSettings = {
+  mode: "auto",
+  framing: "auto",
+  vignette: "face",
+  framingSize: 28,
+  featureDetail: 140,
+  featureSmoothing: 60,
+  skinDetail: 70,
+  skinSmoothing: 140,
+  hairDetail: 125,
+  hairSmoothing: 80
+};
+
+// Where the face centre sits down an auto-framed frame, leaving room for
+// the shoulders below.
+const FACE_LINE = 0.36;
+
+// Focus and zoom that give the face `framingSize` percent of the frame
+// height, in the same units as the manual settings.
+export const autoFraming = (
+  face: DetectedFace,
+  sourceWidth: number,
+  sourceHeight: number,
+  aspectRatio: number,
+  framingSize: number
+) => {
+  const { cropHeight: fullHeight } = cropToAspect(sourceWidth, sourceHeight, aspectRatio, 0);
+  const target = (face.height * sourceHeight) / (clamp(framingSize, 10, 80) / 100);
+  const macroZoom = clamp((fullHeight / target - 1) * 100, 0, 60);
+  const cropHeight = fullHeight / (1 + macroZoom / 100);
+  const faceY = (face.y + face.height / 2) * sourceHeight;
+  return {
+    macroZoom,
+    focusX: (face.x + face.width / 2) * 100,
+    focusY: ((faceY + cropHeight * (0.5 - FACE_LINE)) / sourceHeight) * 100
+  };
+};
+
+// A detection in output pixels for one framing.
+export interface FrameFace {
+  cx: number;
+  cy: number;
+  rx: number;
+  ry: number;
+  leftEye: FacePoint;
+  rightEye: FacePoint;
+  mouth: FacePoint;
+}
+
+export const faceInFrame = (
+  face: DetectedFace,
+  crop: FrameCrop,
+  width: number,
+  height: number
+): FrameFace => {
+  const toFrame = ([x, y]: FacePoint): FacePoint => [
+    ((x * crop.sourceWidth - crop.offsetX) / crop.cropWidth) * width,
+    ((y * crop.sourceHeight - crop.offsetY) / crop.cropHeight) * height
+  ];
+  const [x0, y0] = toFrame([face.x, face.y]);
+  const [x1, y1] = toFrame([face.x + face.width, face.y + face.height]);
+  return {
+    cx: (x0 + x1) / 2,
+    cy: (y0 + y1) / 2,
+    rx: (x1 - x0) / 2,
+    ry: (y1 - y0) / 2,
+    leftEye: toFrame(face.leftEye),
+    rightEye: toFrame(face.rightEye),
+    mouth: toFrame(face.mouth)
+  };
+};
+
+export interface RegionScales {
+  features: number;
+  skin: number;
+  hair: number;
+}
+
+export const regionScales = (face: FaceSettings, kind: "Detail" | "Smoothing"): RegionScales => ({
+  features: face[`feature${kind}`] / 100,
+  skin: face[`skin${kind}`] / 100,
+  hair: face[`hair${kind}`] / 100
+});
+
+export const hasRegionScaling = ({ features, skin, hair }: RegionScales) =>
+  features !== 1 || skin !== 1 || hair !== 1;
+
+const smoothstep = (edge0: number, edge1: number, value: number) => {
+  const t = clamp((value - edge0) / (edge1 - edge0), 0, 1);
+  return t * t * (3 - 2 * t);
+};
+
+// Soft-edged ellipse coverage, 1 inside and fading out over its rim.
+const ellipse = (x: number, y: number, cx: number, cy: number, rx: number, ry: number) =>
+  1 - smoothstep(0.7, 1, Math.hypot((x - cx) / rx, (y - cy) / ry));
+
+// Per-pixel multiplier for a global amount: features are the eyes and
+// mouth, skin the rest of the face, hair a crown around and above it.
+// Null when every scale is 100%.
+export const regionScaleMap = (
+  frame: FrameFace,
+  width: number,
+  height: number,
+  scales: RegionScales
+) => {
+  if (!hasRegionScaling(scales)) return null;
+  const { features, skin, hair } = scales;
+
+  const { cx, cy, rx, ry, leftEye, rightEye, mouth } = frame;
+  const map = new Float32Array(width * height).fill(1);
+  const hairY = cy - 0.3 * ry;
+  const x0 = Math.max(0, Math.floor(cx - 1.45 * rx));
+  const x1 = Math.min(width, Math.ceil(cx + 1.45 * rx));
+  const y0 = Math.max(0, Math.floor(hairY - 1.35 * ry));
+  const y1 = Math.min(height, Math.ceil(cy + ry));
+
+  for (let y = y0; y < y1; y++) {
+    for (let x = x0; x < x1; x++) {
+      const inFace = ellipse(x, y, cx, cy, rx, ry);
+      const inFeatures = Math.max(
+        ellipse(x, y, leftEye[0], leftEye[1], 0.32 * rx, 0.2 * ry),
+        ellipse(x, y, rightEye[0], rightEye[1], 0.32 * rx, 0.2 * ry),
+        ellipse(x, y, mouth[0], mouth[1], 0.45 * rx, 0.2 * ry)
+      );
+      const inHair =
+        ellipse(x, y, cx, hairY, 1.45 * rx, 1.35 * ry) *
+        (1 - inFace) *
+        (1 - smoothstep(cy, cy + 0.4 * ry, y));
+      map[y * width + x] =
+        1 +
+        inFeatures * (features - 1) +
+        inFace * (1 - inFeatures) * (skin - 1) +
+        inHair * (hair - 1);
+    }
+  }
+  return map;
+};
@@ -0,0 +1,197 @@
+import { concatBytes, latin1Bytes } from "./image-metadata";
+
+const MAX_COLOURS = 256;
+// Median cut looks at a sample of the frame; beyond this many pixels more
+// samples barely move the palette.
+const MAX_SAMPLES = 24_000;
+const MAX_CODE = 4096;
+
+// Median cut: the box with the widest channel is split at its median
+// until there are enough boxes, and each box's mean becomes a colour.
+const buildPalette = (rgba: Uint8ClampedArray) => {
+  const pixels = rgba.length / 4;
+  const step = Math.max(1, Math.floor(pixels / MAX_SAMPLES));
+  const samples: number[][] = [];
+  for (let pixel = 0; pixel < pixels; pixel += step) {
+    samples.push([rgba[pixel * 4], rgba[pixel * 4 + 1], rgba[pixel * 4 + 2]]);
+  }
+
+  const spread = (box: number[][]) => {
+    let widest = 0;
+    let range = -1;
+    for (let channel = 0; channel < 3; channel++) {
+      let min = 255;
+      let max = 0;
+      for (const sample of box) {
+        min = Math.min(min, sample[channel]);
+        max = Math.max(max, sample[channel]);
+      }
+      if (max - min > range) {
+        range = max - min;
+        widest = channel;
+      }
+    }
+    return { widest, range };
+  };
+
+  const boxes = [samples];
+  while (boxes.length < MAX_COLOURS) {
+    let target = -1;
+    let best = 0;
+    boxes.forEach((box, index) => {
+      const { range } = spread(box);
+      if (box.length > 1 && range > best) {
+        best = range;
+        target = index;
+      }
+    });
+    if (target === -1) break;
+
+    const box = boxes[target];
+    const { widest } = spread(box);
+    box.sort((a, b) => a[widest] - b[widest]);
+    const middle = box.length >> 1;
+    boxes.splice(target, 1, box.slice(0, middle), box.slice(middle));
+  }
+
+  return boxes.map((box) => {
+    const total = [0, 0, 0];
+    for (const sample of box) {
+      for (let channel = 0; channel < 3; channel++) total[channel] += sample[channel];
+    }
+    return total.map((sum) => Math.round(sum / box.length));
+  });
+};
+
+// Nearest palette entry per pixel, cached on 5 bits per channel.
+const indexPixels = (rgba: Uint8ClampedArray, palette: readonly number[][]) => {
+  const lookup = new Int16Array(1 << 15).fill(-1);
+  const indices = new Uint8Array(rgba.length / 4);
+  for (let pixel = 0; pixel < indices.length; pixel++) {
+    const r = rgba[pixel * 4];
+    const g = rgba[pixel * 4 + 1];
+    const b = rgba[pixel * 4 + 2];
+    const key = ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3);
+    if (lookup[key] === -1) {
+      let nearest = 0;
+      let distance = Infinity;
+      palette.forEach(([pr, pg, pb], index) => {
+        const d = (r - pr) ** 2 + (g - pg) ** 2 + (b - pb) ** 2;
+        if (d < distance) {
+          distance = d;
+          nearest = index;
+        }
+      });
+      lookup[key] = nearest;
+    }
+    indices[pixel] = lookup[key];
+  }
+  return indices;
+};
+
+// Variable-width LZW as GIF specifies it, packed least significant bit
+// first into sub-blocks of at most 255 bytes.
+const compress = (indices: Uint8Array, minCodeSize: number) => {
+  const clear = 1 << minCodeSize;
+  const end = clear + 1;
+  const bytes: number[] = [];
+  let buffer = 0;
+  let bits = 0;
+  let codeSize = minCodeSize + 1;
+  let next = end + 1;
+  const dictionary = new Map<number, number>();
+
+  const write = (code: number) => {
+    buffer |= code << bits;
+    bits += codeSize;
+    while (bits >= 8) {
+      bytes.push(buffer & 0xff);
+      buffer >>>= 8;
+      bits -= 8;
+    }
+  };
+  // The decoder widens its codes one entry later than the encoder adds
+  // them, so the check runs after each code is written.
+  const widen = () => {
+    if (next >= 1 << codeSize && codeSize < 12) codeSize++;
+  };
+
+  write(clear);
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const key = prefix * 256 + indices[i];
+    const known = dictionary.get(key);
+    if (known !== undefined) {
+      prefix = known;
+      continue;
+    }
+    write(prefix);
+    widen();
+    if (next < MAX_CODE) {
+      dictionary.set(key, next++);
+    } else {
+      write(clear);
+      dictionary.clear();
+      codeSize = minCodeSize + 1;
+      next = end + 1;
+    }
+    prefix = indices[i];
+  }
+  write(prefix);
+  widen();
+  write(end);
+  if (bits > 0) bytes.push(buffer & 0xff);
+
+  const blocks: number[] = [minCodeSize];
+  for (let offset = 0; offset < bytes.length; offset += 255) {
+    const block = bytes.slice(offset, offset + 255);
+    blocks.push(block.length, ...block);
+  }
+  blocks.push(0);
+  return Uint8Array.from(blocks);
+};
+
+const uint16 = (value: number) => [value & 0xff, (value >> 8) & 0xff];
+
+export interface GifEncoder {
+  addFrame: (rgba: Uint8ClampedArray, delay: number) => void; // delay in 1/100 s
+  finish: () => Uint8Array;
+}
+
+// Looping GIF89a built a frame at a time, each with its own palette so a
+// colour photo and the grey plaster it turns into both keep their tones.
+export const createGifEncoder = (width: number, height: number): GifEncoder => {
+  const parts: Uint8Array[] = [
+    latin1Bytes("GIF89a"),
+    Uint8Array.from([...uint16(width), ...uint16(height), 0, 0, 0]),
+    // NETSCAPE2.0 application extension: loop forever.
+    Uint8Array.from([0x21, 0xff, 0x0b, ...latin1Bytes("NETSCAPE2.0"), 3, 1, 0, 0, 0])
+  ];
+
+  return {
+    addFrame: (rgba, delay) => {
+      const palette = buildPalette(rgba);
+      const tableBits = Math.max(1, Math.ceil(Math.log2(palette.length)));
+      const table = new Uint8Array(3 << tableBits);
+      palette.forEach((colour, index) => table.set(colour, index * 3));
+
+      parts.push(
+        // Graphic control extension: leave the frame in place, no transparency.
+        Uint8Array.from([0x21, 0xf9, 4, 0x04, ...uint16(delay), 0, 0]),
+        Uint8Array.from([
+          0x2c,
+          0,
+          0,
+          0,
+          0,
+          ...uint16(width),
+          ...uint16(height),
+          0x80 | (tableBits - 1) // local colour table
+        ]),
+        table,
+        compress(indexPixels(rgba, palette), Math.max(2, tableBits))
+      );
+    },
+    finish: () => concatBytes([...parts, Uint8Array.from([0x3b])])
+  };
+};
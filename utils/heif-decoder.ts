@@ -0,0 +1,52 @@
+// HEIC/HEIF decoding through libheif-js's self-contained WASM bundle. It is
+// served from public/, where scripts/copy-libheif.mjs puts it on install,
+// rather than bundled, so the ~1.5MB module is only fetched the first time
+// someone opens an iPhone photo, and never leaves the device's origin.
+const LIBHEIF_URL = "/vendor/libheif/libheif-bundle.mjs";
+
+interface HeifImage {
+  get_width: () => number;
+  get_height: () => number;
+  display: (target: ImageData, done: (result: ImageData | null) => void) => void;
+  free: () => void;
+}
+
+interface LibHeif {
+  HeifDecoder: new () => { decode: (data: Uint8Array) => HeifImage[] };
+}
+
+let libheif: Promise<LibHeif> | null = null;
+
+const loadLibheif = () => {
+  // Newer bundles export a factory rather than the initialised module.
+  libheif ??= import(/* webpackIgnore: true */ LIBHEIF_URL)
+    .then(({ default: exported }: { default: LibHeif | (() => LibHeif) }) =>
+      typeof exported === "function" ? exported() : exported
+    )
+    .catch((error) => {
+      console.error(error);
+      libheif = null;
+      throw new Error("HEIC support could not be loaded; save the photo as JPEG and try again");
+    });
+  return libheif;
+};
+
+// Returns the primary image with its rotation and mirroring already applied;
+// HEIC stores those as container transforms, not EXIF.
+export const decodeHeif = async (bytes: Uint8Array) => {
+  const { HeifDecoder } = await loadLibheif();
+  const [image, ...rest] = new HeifDecoder().decode(bytes);
+  rest.forEach((extra) => extra.free());
+  if (!image) throw new Error("This HEIC file holds no image that can be decoded");
+
+  try {
+    const target = new ImageData(image.get_width(), image.get_height());
+    return await new Promise<ImageData>((resolve, reject) =>
+      image.display(target, (result) =>
+        result ? resolve(result) : reject(new Error("This HEIC image is damaged or incomplete"))
+      )
+    );
+  } finally {
+    image.free();
+  }
+};
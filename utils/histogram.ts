@@ -0,0 +1,8 @@
+// Luminance histogram of RGBA pixels, 256 bins, for the tone curve editor.
+export const computeHistogram = (data: Uint8ClampedArray) => {
+  const bins = new Uint32Array(256);
+  for (let i = 0; i < data.length; i += 4) {
+    bins[Math.round(data[i] * 0.299 + data[i + 1] * 0.587 + data[i + 2] * 0.114)]++;
+  }
+  return bins;
+};
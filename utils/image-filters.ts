@@ -0,0 +1,321 @@
+export const clamp = (value: number, min: number, max: number) =>
+  Math.min(max, Math.max(min, value));
+
+export const contrastTransform = (value: number, contrast: number) => {
+  const factor = (259 * (contrast + 255)) / (255 * (259 - contrast));
+  return clamp(factor * (value - 128) + 128, 0, 255);
+};
+
+export const softLight = (base: number, blend: number) => {
+  const b = base / 255;
+  const c = blend / 255;
+  const result = c < 0.5 ? 2 * b * c + b * b * (1 - 2 * c) :
+    2 * b * (1 - c) + Math.sqrt(b) * (2 * c - 1);
+  return clamp(result * 255, 0, 255);
+};
+
+// Horizontal and vertical Sobel responses, kept apart so callers can
+// recover surface orientation as well as edge strength.
+export const sobelGradients = (map: Float32Array, width: number, height: number) => {
+  const gradientX = new Float32Array(map.length);
+  const gradientY = new Float32Array(map.length);
+  const kernelX = [-1, 0, 1, -2, 0, 2, -1, 0, 1];
+  const kernelY = [-1, -2, -1, 0, 0, 0, 1, 2, 1];
+
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      let gx = 0;
+      let gy = 0;
+
+      let idx = 0;
+      for (let ky = -1; ky <= 1; ky++) {
+        for (let kx = -1; kx <= 1; kx++) {
+          const sample = map[(y + ky) * width + (x + kx)];
+          gx += sample * kernelX[idx];
+          gy += sample * kernelY[idx];
+          idx++;
+        }
+      }
+
+      gradientX[y * width + x] = gx;
+      gradientY[y * width + x] = gy;
+    }
+  }
+
+  return { gradientX, gradientY };
+};
+
+export type SobelGradients = ReturnType<typeof sobelGradients>;
+
+export const sobelMagnitude = ({ gradientX, gradientY }: SobelGradients) => {
+  const result = new Float32Array(gradientX.length);
+
+  for (let i = 0; i < result.length; i++) {
+    result[i] = Math.sqrt(gradientX[i] * gradientX[i] + gradientY[i] * gradientY[i]);
+  }
+
+  return result;
+};
+
+export const gaussianKernel = (radius: number) => {
+  const kernelSize = radius * 2 + 1;
+  const kernel = new Float32Array(kernelSize);
+  let kernelSum = 0;
+
+  for (let i = 0; i < kernelSize; i++) {
+    const x = i - radius;
+    const value = Math.exp(-(x * x) / (2 * radius * radius));
+    kernel[i] = value;
+    kernelSum += value;
+  }
+
+  for (let i = 0; i < kernelSize; i++) {
+    kernel[i] /= kernelSum;
+  }
+
+  return kernel;
+};
+
+export const gaussianBlur = (
+  source: Float32Array,
+  width: number,
+  height: number,
+  radius: number
+) => {
+  if (radius <= 0) return source;
+
+  const horizontal = new Float32Array(source.length);
+  const vertical = new Float32Array(source.length);
+  const kernel = gaussianKernel(radius);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let accum = 0;
+      for (let k = -radius; k <= radius; k++) {
+        const sampleX = clamp(x + k, 0, width - 1);
+        accum += source[y * width + sampleX] * kernel[k + radius];
+      }
+      horizontal[y * width + x] = accum;
+    }
+  }
+
+  for (let x = 0; x < width; x++) {
+    for (let y = 0; y < height; y++) {
+      let accum = 0;
+      for (let k = -radius; k <= radius; k++) {
+        const sampleY = clamp(y + k, 0, height - 1);
+        accum += horizontal[sampleY * width + x] * kernel[k + radius];
+      }
+      vertical[y * width + x] = accum;
+    }
+  }
+
+  return vertical;
+};
+
+// Mean over a (2r + 1)-square window with clamped edges, using running
+// sums so the cost does not grow with the radius.
+export const boxFilter = (
+  source: Float32Array,
+  width: number,
+  height: number,
+  radius: number
+) => {
+  const horizontal = new Float32Array(source.length);
+  const result = new Float32Array(source.length);
+  const size = radius * 2 + 1;
+
+  for (let y = 0; y < height; y++) {
+    const row = y * width;
+    let sum = 0;
+    for (let k = -radius; k <= radius; k++) {
+      sum += source[row + clamp(k, 0, width - 1)];
+    }
+    for (let x = 0; x < width; x++) {
+      horizontal[row + x] = sum / size;
+      sum +=
+        source[row + clamp(x + radius + 1, 0, width - 1)] -
+        source[row + clamp(x - radius, 0, width - 1)];
+    }
+  }
+
+  for (let x = 0; x < width; x++) {
+    let sum = 0;
+    for (let k = -radius; k <= radius; k++) {
+      sum += horizontal[clamp(k, 0, height - 1) * width + x];
+    }
+    for (let y = 0; y < height; y++) {
+      result[y * width + x] = sum / size;
+      sum +=
+        horizontal[clamp(y + radius + 1, 0, height - 1) * width + x] -
+        horizontal[clamp(y - radius, 0, height - 1) * width + x];
+    }
+  }
+
+  return result;
+};
+
+// Self-guided filter (He et al.): a local linear fit of the image to
+// itself, flattening regions whose variance sits below `epsilon` while
+// edges well above it pass through. Five box filters, so O(1) per pixel.
+export const guidedFilter = (
+  source: Float32Array,
+  width: number,
+  height: number,
+  radius: number,
+  epsilon: number
+) => {
+  if (radius <= 0) return source;
+
+  const squared = new Float32Array(source.length);
+  for (let i = 0; i < source.length; i++) {
+    squared[i] = source[i] * source[i];
+  }
+  const mean = boxFilter(source, width, height, radius);
+  const meanSquared = boxFilter(squared, width, height, radius);
+
+  const gain = new Float32Array(source.length);
+  const offset = new Float32Array(source.length);
+  for (let i = 0; i < source.length; i++) {
+    const variance = Math.max(0, meanSquared[i] - mean[i] * mean[i]);
+    gain[i] = variance / (variance + epsilon);
+    offset[i] = mean[i] - gain[i] * mean[i];
+  }
+
+  const meanGain = boxFilter(gain, width, height, radius);
+  const meanOffset = boxFilter(offset, width, height, radius);
+  const result = new Float32Array(source.length);
+  for (let i = 0; i < source.length; i++) {
+    result[i] = meanGain[i] * source[i] + meanOffset[i];
+  }
+  return result;
+};
+
+// Bilateral filter run as a horizontal then a vertical pass. Not exact, but
+// close for smoothing and O(r) per pixel instead of O(r²).
+export const bilateralFilter = (
+  source: Float32Array,
+  width: number,
+  height: number,
+  radius: number,
+  rangeSigma: number
+) => {
+  if (radius <= 0) return source;
+
+  const spatial = gaussianKernel(radius);
+  const range = new Float32Array(256);
+  for (let diff = 0; diff < 256; diff++) {
+    range[diff] = Math.exp(-(diff * diff) / (2 * rangeSigma * rangeSigma));
+  }
+
+  const pass = (input: Float32Array, stepX: number, stepY: number) => {
+    const output = new Float32Array(input.length);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const centre = input[y * width + x];
+        let accum = 0;
+        let weights = 0;
+        for (let k = -radius; k <= radius; k++) {
+          const sampleX = clamp(x + k * stepX, 0, width - 1);
+          const sampleY = clamp(y + k * stepY, 0, height - 1);
+          const sample = input[sampleY * width + sampleX];
+          const weight =
+            spatial[k + radius] * range[Math.min(255, Math.round(Math.abs(sample - centre)))];
+          accum += sample * weight;
+          weights += weight;
+        }
+        output[y * width + x] = accum / weights;
+      }
+    }
+    return output;
+  };
+
+  return pass(pass(source, 1, 0), 0, 1);
+};
+
+// Domain transform recursive filter (Gastal & Oliveira). Distances along
+// each row and column stretch with the local gradient, so the decaying
+// recursion stops at edges. Cost is independent of the spatial sigma.
+export const domainTransformFilter = (
+  source: Float32Array,
+  width: number,
+  height: number,
+  spatialSigma: number,
+  rangeSigma: number,
+  iterations = 3
+) => {
+  if (spatialSigma <= 0) return source;
+
+  const ratio = spatialSigma / rangeSigma;
+  const distanceX = new Float32Array(source.length);
+  const distanceY = new Float32Array(source.length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      if (x > 0) distanceX[i] = 1 + ratio * Math.abs(source[i] - source[i - 1]);
+      if (y > 0) distanceY[i] = 1 + ratio * Math.abs(source[i] - source[i - width]);
+    }
+  }
+
+  const result = Float32Array.from(source);
+  const decayX = new Float32Array(source.length);
+  const decayY = new Float32Array(source.length);
+
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    const sigma =
+      (spatialSigma * Math.sqrt(3) * 2 ** (iterations - iteration - 1)) /
+      Math.sqrt(4 ** iterations - 1);
+    const feedback = Math.exp(-Math.SQRT2 / sigma);
+    for (let i = 0; i < source.length; i++) {
+      decayX[i] = feedback ** distanceX[i];
+      decayY[i] = feedback ** distanceY[i];
+    }
+
+    for (let y = 0; y < height; y++) {
+      const row = y * width;
+      for (let x = 1; x < width; x++) {
+        const i = row + x;
+        result[i] += decayX[i] * (result[i - 1] - result[i]);
+      }
+      for (let x = width - 2; x >= 0; x--) {
+        const i = row + x;
+        result[i] += decayX[i + 1] * (result[i + 1] - result[i]);
+      }
+    }
+
+    for (let x = 0; x < width; x++) {
+      for (let y = 1; y < height; y++) {
+        const i = y * width + x;
+        result[i] += decayY[i] * (result[i - width] - result[i]);
+      }
+      for (let y = height - 2; y >= 0; y--) {
+        const i = y * width + x;
+        result[i] += decayY[i + width] * (result[i + width] - result[i]);
+      }
+    }
+  }
+
+  return result;
+};
+
+export const normaliseArray = (
+  source: Float32Array,
+  target = new Float32Array(source.length)
+) => {
+  let min = Number.POSITIVE_INFINITY;
+  let max = Number.NEGATIVE_INFINITY;
+
+  for (let i = 0; i < source.length; i++) {
+    const value = source[i];
+    if (value < min) min = value;
+    if (value > max) max = value;
+  }
+
+  const range = max - min || 1;
+
+  for (let i = 0; i < source.length; i++) {
+    target[i] = (source[i] - min) / range;
+  }
+
+  return target;
+};
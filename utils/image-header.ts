@@ -0,0 +1,99 @@
+import { isJpeg, isPng, isWebp, latin1 } from "./image-metadata";
+import { TIFF_TAGS, isTiff, readTiffTagBytes } from "./tiff";
+
+export type ImageFormat = "jpeg" | "png" | "webp" | "gif" | "bmp" | "avif" | "heif" | "tiff";
+
+export interface ImageHeader {
+  format: ImageFormat;
+  // Stored size, before orientation is applied; null when the header does
+  // not say and the image has to be decoded to find out.
+  width: number | null;
+  height: number | null;
+  orientation: number; // EXIF 1-8, 1 when absent
+}
+
+// Brands of the ISO media container shared by HEIC and AVIF.
+const HEIF_BRANDS = ["heic", "heix", "hevc", "hevx", "heim", "heis", "mif1", "msf1"];
+const AVIF_BRANDS = ["avif", "avis"];
+
+const readBrands = (bytes: Uint8Array) => {
+  if (latin1(bytes.subarray(4, 8)) !== "ftyp") return [];
+  const size = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength).getUint32(0);
+  const brands = [latin1(bytes.subarray(8, 12))];
+  for (let offset = 16; offset + 4 <= Math.min(size, bytes.length); offset += 4) {
+    brands.push(latin1(bytes.subarray(offset, offset + 4)));
+  }
+  return brands;
+};
+
+// Sniffs the container from its leading bytes; file names and MIME types
+// are unreliable for phone uploads.
+export const detectImageFormat = (bytes: Uint8Array): ImageFormat | null => {
+  if (isJpeg(bytes)) return "jpeg";
+  if (isPng(bytes)) return "png";
+  if (isWebp(bytes)) return "webp";
+  if (isTiff(bytes)) return "tiff";
+  const magic = latin1(bytes.subarray(0, 6));
+  if (magic === "GIF87a" || magic === "GIF89a") return "gif";
+  if (magic.startsWith("BM")) return "bmp";
+  const brands = readBrands(bytes);
+  if (brands.some((brand) => AVIF_BRANDS.includes(brand))) return "avif";
+  if (brands.some((brand) => HEIF_BRANDS.includes(brand))) return "heif";
+  return null;
+};
+
+const readExifOrientation = (tiff: Uint8Array) => {
+  const value = readTiffTagBytes(tiff, TIFF_TAGS.orientation);
+  if (!value || value.length < 2) return 1;
+  const orientation = tiff[0] === 0x49 ? value[0] | (value[1] << 8) : (value[0] << 8) | value[1];
+  return orientation >= 1 && orientation <= 8 ? orientation : 1;
+};
+
+const EXIF_HEADER = "Exif\0\0";
+
+// Walks the segments ahead of the image data for the frame size and the
+// EXIF orientation.
+const readJpegHeader = (bytes: Uint8Array): ImageHeader => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const header: ImageHeader = { format: "jpeg", width: null, height: null, orientation: 1 };
+  let offset = 2;
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    if (marker === 0xff) {
+      offset++; // fill byte
+      continue;
+    }
+    if (marker === 0xda || marker === 0xd9) break; // image data follows
+    const length = view.getUint16(offset + 2);
+    const start = offset + 4;
+    if (marker === 0xe1 && latin1(bytes.subarray(start, start + 6)) === EXIF_HEADER) {
+      header.orientation = readExifOrientation(bytes.subarray(start + 6, offset + 2 + length));
+    }
+    // Start-of-frame markers; C4, C8 and CC share the range but are not frames.
+    const isFrame = marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker);
+    if (isFrame && start + 5 <= bytes.length) {
+      header.height = view.getUint16(start + 1);
+      header.width = view.getUint16(start + 3);
+      break;
+    }
+    offset += 2 + length;
+  }
+  return header;
+};
+
+// Reads what the format declares up front. Malformed metadata is ignored
+// rather than fatal: the decoder is the judge of whether the file is usable.
+export const readImageHeader = (bytes: Uint8Array): ImageHeader | null => {
+  const format = detectImageFormat(bytes);
+  if (!format) return null;
+  try {
+    if (format === "jpeg") return readJpegHeader(bytes);
+    if (format === "png" && bytes.length >= 24) {
+      const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+      return { format, width: view.getUint32(16), height: view.getUint32(20), orientation: 1 };
+    }
+  } catch (error) {
+    console.warn(error);
+  }
+  return { format, width: null, height: null, orientation: 1 };
+};
@@ -0,0 +1,350 @@
+import { TIFF_TAGS, type TiffTag, isTiff, readTiffTagBytes, withTiffTags } from "./tiff";
+import { crc32 } from "./zip";
+
+export interface ImageMetadata {
+  dpi?: number;
+  software?: string;
+  // Serialised recipe; see utils/recipe.ts.
+  recipe?: string;
+}
+
+const RECIPE_KEYWORD = "plaster-recipe";
+const XMP_NAMESPACE = "http://ns.adobe.com/xap/1.0/";
+const RECIPE_NAMESPACE = "urn:macro-plaster-studio:recipe:1.0#";
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+export const isPng = (bytes: Uint8Array) =>
+  PNG_SIGNATURE.every((value, index) => bytes[index] === value);
+
+export const isJpeg = (bytes: Uint8Array) => bytes[0] === 0xff && bytes[1] === 0xd8;
+
+export const isWebp = (bytes: Uint8Array) =>
+  latin1(bytes.subarray(0, 4)) === "RIFF" && latin1(bytes.subarray(8, 12)) === "WEBP";
+
+export const latin1 = (bytes: Uint8Array) => {
+  let text = "";
+  for (let i = 0; i < bytes.length; i++) text += String.fromCharCode(bytes[i]);
+  return text;
+};
+
+export const latin1Bytes = (text: string) =>
+  Uint8Array.from(text, (char) => char.charCodeAt(0) & 0xff);
+
+export const concatBytes = (parts: readonly Uint8Array[]) => {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+};
+
+const escapeXml = (text: string) =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const unescapeXml = (text: string) =>
+  text
+    .replace(/&quot;/g, '"')
+    .replace(/&gt;/g, ">")
+    .replace(/&lt;/g, "<")
+    .replace(/&amp;/g, "&");
+
+const buildXmp = ({ software, recipe }: ImageMetadata) => {
+  const tool = software ? ` xmp:CreatorTool="${escapeXml(software)}"` : "";
+  const body = recipe ? `<plaster:recipe>${escapeXml(recipe)}</plaster:recipe>` : "";
+  return new TextEncoder().encode(
+    `<?xpacket begin="\ufeff" id="W5M0MpCehiHzreSzNTczkc9d"?>` +
+      `<x:xmpmeta xmlns:x="adobe:ns:meta/">` +
+      `<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">` +
+      `<rdf:Description rdf:about="" xmlns:xmp="${XMP_NAMESPACE}" ` +
+      `xmlns:plaster="${RECIPE_NAMESPACE}"${tool}>${body}</rdf:Description>` +
+      `</rdf:RDF></x:xmpmeta><?xpacket end="w"?>`
+  );
+};
+
+const recipeFromXmp = (xmp: Uint8Array) => {
+  const match = /<plaster:recipe>([\s\S]*?)<\/plaster:recipe>/.exec(
+    new TextDecoder().decode(xmp)
+  );
+  return match ? unescapeXml(match[1]) : null;
+};
+
+const createPngChunk = (type: string, data: Uint8Array) => {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) chunk[4 + i] = type.charCodeAt(i);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+};
+
+interface PngChunk {
+  type: string;
+  start: number;
+  end: number;
+}
+
+const readPngChunks = (bytes: Uint8Array) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: PngChunk[] = [];
+  let offset = PNG_SIGNATURE.length;
+  while (offset + 8 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    chunks.push({ type, start: offset, end: offset + 12 + length });
+    offset += 12 + length;
+  }
+  return chunks;
+};
+
+const TEXT_CHUNKS = ["tEXt", "zTXt", "iTXt"];
+
+// Text chunks are told apart by keyword, so an Author or Copyright entry is
+// not mistaken for the Software one being written.
+const pngChunkKey = (chunk: Uint8Array) => {
+  const type = latin1(chunk.subarray(4, 8));
+  if (!TEXT_CHUNKS.includes(type)) return type;
+  const data = chunk.subarray(8, chunk.length - 4);
+  const separator = data.indexOf(0);
+  return `text:${latin1(data.subarray(0, separator < 0 ? data.length : separator))}`;
+};
+
+// Replaces any chunks matching the inserted ones with them, placed right
+// after IHDR.
+const replacePngChunks = (bytes: Uint8Array, inserted: Uint8Array[]) => {
+  const keys = inserted.map(pngChunkKey);
+  const chunks = readPngChunks(bytes);
+  const parts: Uint8Array[] = [bytes.subarray(0, PNG_SIGNATURE.length)];
+  for (const chunk of chunks) {
+    if (keys.includes(pngChunkKey(bytes.subarray(chunk.start, chunk.end)))) continue;
+    parts.push(bytes.subarray(chunk.start, chunk.end));
+    if (chunk.type === "IHDR") parts.push(...inserted);
+  }
+
+  return concatBytes(parts);
+};
+
+const pngDpiChunk = (dpi: number) => {
+  const pixelsPerMetre = Math.round(dpi / 0.0254);
+  const data = new Uint8Array(9);
+  const view = new DataView(data.buffer);
+  view.setUint32(0, pixelsPerMetre);
+  view.setUint32(4, pixelsPerMetre);
+  data[8] = 1; // unit: metre
+  return createPngChunk("pHYs", data);
+};
+
+const pngTextChunk = (keyword: string, text: string) =>
+  createPngChunk("tEXt", latin1Bytes(`${keyword}\0${text}`));
+
+export const withPngDpi = (bytes: Uint8Array, dpi: number) =>
+  replacePngChunks(bytes, [pngDpiChunk(dpi)]);
+
+// Rewrites the density fields of the JFIF APP0 segment browsers emit.
+export const withJpegDpi = (bytes: Uint8Array, dpi: number) => {
+  const result = bytes.slice();
+  const view = new DataView(result.buffer);
+  const isJfif =
+    view.getUint16(2) === 0xffe0 &&
+    String.fromCharCode(...result.subarray(6, 10)) === "JFIF";
+  if (!isJfif) return result;
+
+  const density = Math.round(Math.min(dpi, 0xffff));
+  result[13] = 1; // unit: dots per inch
+  view.setUint16(14, density);
+  view.setUint16(16, density);
+  return result;
+};
+
+// PNG text is Latin-1 only; the recipe is plain ASCII JSON.
+const withPngMetadata = (bytes: Uint8Array, { dpi, software, recipe }: ImageMetadata) => {
+  const chunks: Uint8Array[] = [];
+  if (dpi !== undefined) chunks.push(pngDpiChunk(dpi));
+  if (software) chunks.push(pngTextChunk("Software", software));
+  if (recipe) chunks.push(pngTextChunk(RECIPE_KEYWORD, recipe));
+  return replacePngChunks(bytes, chunks);
+};
+
+// Inserts an XMP APP1 segment after SOI and any JFIF APP0 segment.
+const withJpegXmp = (bytes: Uint8Array, xmp: Uint8Array) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let insertAt = 2;
+  if (view.getUint16(2) === 0xffe0) insertAt = 4 + view.getUint16(4);
+
+  const header = latin1Bytes(`${XMP_NAMESPACE}\0`);
+  const segment = new Uint8Array(4 + header.length + xmp.length);
+  const segmentView = new DataView(segment.buffer);
+  segmentView.setUint16(0, 0xffe1);
+  segmentView.setUint16(2, segment.length - 2);
+  segment.set(header, 4);
+  segment.set(xmp, 4 + header.length);
+  return concatBytes([bytes.subarray(0, insertAt), segment, bytes.subarray(insertAt)]);
+};
+
+const readJpegXmp = (bytes: Uint8Array) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const header = `${XMP_NAMESPACE}\0`;
+  let offset = 2;
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    if (marker === 0xda || marker === 0xd9) break; // image data follows
+    const length = view.getUint16(offset + 2);
+    const start = offset + 4;
+    if (marker === 0xe1 && latin1(bytes.subarray(start, start + header.length)) === header) {
+      return bytes.subarray(start + header.length, offset + 2 + length);
+    }
+    offset += 2 + length;
+  }
+  return null;
+};
+
+interface RiffChunk {
+  type: string;
+  start: number;
+  end: number; // including padding
+}
+
+export const readWebpChunks = (bytes: Uint8Array) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: RiffChunk[] = [];
+  let offset = 12;
+  while (offset + 8 <= bytes.length) {
+    const size = view.getUint32(offset + 4, true);
+    const end = Math.min(bytes.length, offset + 8 + size + (size % 2));
+    chunks.push({ type: latin1(bytes.subarray(offset, offset + 4)), start: offset, end });
+    offset = end;
+  }
+  return chunks;
+};
+
+export const createRiffChunk = (type: string, data: Uint8Array) => {
+  const chunk = new Uint8Array(8 + data.length + (data.length % 2));
+  chunk.set(latin1Bytes(type));
+  new DataView(chunk.buffer).setUint32(4, data.length, true);
+  chunk.set(data, 8);
+  return chunk;
+};
+
+export const setUint24 = (bytes: Uint8Array, offset: number, value: number) => {
+  bytes[offset] = value & 0xff;
+  bytes[offset + 1] = (value >>> 8) & 0xff;
+  bytes[offset + 2] = (value >>> 16) & 0xff;
+};
+
+// Simple WebP files (a lone VP8/VP8L chunk) cannot carry metadata, so they
+// are promoted to the extended format with a VP8X header.
+const withWebpXmp = (bytes: Uint8Array, xmp: Uint8Array) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks = readWebpChunks(bytes).filter((chunk) => chunk.type !== "XMP ");
+  const parts: Uint8Array[] = [];
+
+  if (chunks[0]?.type === "VP8X") {
+    const header = bytes.slice(chunks[0].start, chunks[0].end);
+    header[8] |= 0x04; // XMP present
+    parts.push(header, ...chunks.slice(1).map((chunk) => bytes.subarray(chunk.start, chunk.end)));
+  } else {
+    const image = chunks.find((chunk) => chunk.type === "VP8 " || chunk.type === "VP8L");
+    if (!image) return bytes;
+    const data = image.start + 8;
+    let width: number;
+    let height: number;
+    let alpha = false;
+    if (image.type === "VP8L") {
+      const bits = view.getUint32(data + 1, true);
+      width = (bits & 0x3fff) + 1;
+      height = ((bits >>> 14) & 0x3fff) + 1;
+      alpha = ((bits >>> 28) & 1) === 1;
+    } else {
+      width = view.getUint16(data + 6, true) & 0x3fff;
+      height = view.getUint16(data + 8, true) & 0x3fff;
+    }
+    const header = new Uint8Array(10);
+    header[0] = 0x04 | (alpha ? 0x10 : 0); // XMP present, alpha
+    setUint24(header, 4, width - 1);
+    setUint24(header, 7, height - 1);
+    parts.push(
+      createRiffChunk("VP8X", header),
+      ...chunks.map((chunk) => bytes.subarray(chunk.start, chunk.end))
+    );
+  }
+  parts.push(createRiffChunk("XMP ", xmp));
+
+  const body = concatBytes(parts);
+  const result = new Uint8Array(12 + body.length);
+  result.set(bytes.subarray(0, 12));
+  new DataView(result.buffer).setUint32(4, 4 + body.length, true);
+  result.set(body, 12);
+  return result;
+};
+
+const readWebpXmp = (bytes: Uint8Array) => {
+  const chunk = readWebpChunks(bytes).find((item) => item.type === "XMP ");
+  if (!chunk) return null;
+  const size = new DataView(bytes.buffer, bytes.byteOffset).getUint32(chunk.start + 4, true);
+  return bytes.subarray(chunk.start + 8, chunk.start + 8 + size);
+};
+
+const withTiffMetadata = (bytes: Uint8Array, metadata: ImageMetadata) => {
+  const tags: TiffTag[] = [];
+  if (metadata.dpi !== undefined) {
+    const resolution = [[Math.round(metadata.dpi), 1]] as const;
+    tags.push(
+      { tag: TIFF_TAGS.xResolution, value: { type: "rational", values: resolution } },
+      { tag: TIFF_TAGS.yResolution, value: { type: "rational", values: resolution } },
+      { tag: TIFF_TAGS.resolutionUnit, value: { type: "short", values: [2] } } // inches
+    );
+  }
+  if (metadata.software) {
+    tags.push({ tag: TIFF_TAGS.software, value: { type: "ascii", text: metadata.software } });
+  }
+  if (metadata.recipe) {
+    tags.push({ tag: TIFF_TAGS.xmp, value: { type: "byte", bytes: buildXmp(metadata) } });
+  }
+  return tags.length > 0 ? withTiffTags(bytes, tags) : bytes;
+};
+
+// Writes density, software and recipe into whichever container the bytes
+// are. WebP has no density field, so DPI is skipped there.
+export const withMetadata = (bytes: Uint8Array, metadata: ImageMetadata) => {
+  const hasXmp = Boolean(metadata.software || metadata.recipe);
+  if (isPng(bytes)) return withPngMetadata(bytes, metadata);
+  if (isTiff(bytes)) return withTiffMetadata(bytes, metadata);
+  if (isJpeg(bytes)) {
+    const dense = metadata.dpi !== undefined ? withJpegDpi(bytes, metadata.dpi) : bytes;
+    return hasXmp ? withJpegXmp(dense, buildXmp(metadata)) : dense;
+  }
+  if (isWebp(bytes) && hasXmp) return withWebpXmp(bytes, buildXmp(metadata));
+  return bytes;
+};
+
+export const applyMetadata = async (blob: Blob, metadata: ImageMetadata) =>
+  new Blob([withMetadata(new Uint8Array(await blob.arrayBuffer()), metadata) as BlobPart], {
+    type: blob.type
+  });
+
+export const applyDpi = (blob: Blob, dpi: number) => applyMetadata(blob, { dpi });
+
+export const readRecipeText = (bytes: Uint8Array) => {
+  if (isPng(bytes)) {
+    for (const chunk of readPngChunks(bytes)) {
+      if (chunk.type !== "tEXt") continue;
+      const text = latin1(bytes.subarray(chunk.start + 8, chunk.end - 4));
+      const separator = text.indexOf("\0");
+      if (text.slice(0, separator) === RECIPE_KEYWORD) return text.slice(separator + 1);
+    }
+    return null;
+  }
+
+  let xmp: Uint8Array | null = null;
+  if (isJpeg(bytes)) xmp = readJpegXmp(bytes);
+  else if (isWebp(bytes)) xmp = readWebpXmp(bytes);
+  else if (isTiff(bytes)) xmp = readTiffTagBytes(bytes, TIFF_TAGS.xmp);
+  return xmp ? recipeFromXmp(xmp) : null;
+};
@@ -0,0 +1,181 @@
+import { decodeHeif } from "./heif-decoder";
+import { type ImageFormat, readImageHeader } from "./image-header";
+
+export const WORKING_LONG_EDGE = 2048;
+export const EXPORT_LONG_EDGE = 8192;
+// Browsers refuse larger canvases (Safari caps at 16.7MP), so bigger
+// sources are scaled to fit even for export.
+const MAX_CANVAS_PIXELS = 16_777_216;
+const MAX_SOURCE_PIXELS = 200_000_000;
+// Enough for EXIF, ICC profiles and embedded thumbnails ahead of the frame.
+const HEADER_BYTES = 512 * 1024;
+
+const HEIF_EXTENSION = /\.(heic|heif)$/i;
+
+const formatLabels: Record<ImageFormat, string> = {
+  jpeg: "JPEG",
+  png: "PNG",
+  webp: "WebP",
+  gif: "GIF",
+  bmp: "BMP",
+  avif: "AVIF",
+  heif: "HEIC",
+  tiff: "TIFF"
+};
+
+// HEIC uploads often arrive without a MIME type outside Apple browsers.
+export const isImageFile = (file: File) =>
+  file.type.startsWith("image/") || HEIF_EXTENSION.test(file.name);
+
+// Canvas transforms [a, b, c, d, e, f] that draw a stored w×h image upright
+// for each EXIF orientation; 5-8 swap the axes.
+const ORIENTATIONS: Record<number, (w: number, h: number) => number[]> = {
+  2: (w) => [-1, 0, 0, 1, w, 0],
+  3: (w, h) => [-1, 0, 0, -1, w, h],
+  4: (_, h) => [1, 0, 0, -1, 0, h],
+  5: () => [0, 1, 1, 0, 0, 0],
+  6: (_, h) => [0, 1, -1, 0, h, 0],
+  7: (w, h) => [0, -1, -1, 0, h, w],
+  8: (w) => [0, -1, 1, 0, 0, w]
+};
+
+const uprightSize = (width: number, height: number, orientation: number) =>
+  orientation >= 5 ? { width: height, height: width } : { width, height };
+
+const fitScale = (width: number, height: number, longEdge: number) =>
+  Math.min(
+    1,
+    longEdge / Math.max(width, height),
+    Math.sqrt(MAX_CANVAS_PIXELS / (width * height))
+  );
+
+const checkSize = (width: number, height: number) => {
+  if (width * height > MAX_SOURCE_PIXELS) {
+    const megapixels = Math.round((width * height) / 1_000_000);
+    throw new Error(`This ${megapixels}MP image is too large to open; the limit is 200MP`);
+  }
+};
+
+// Orientation is ignored while decoding and applied below, so every browser
+// rotates the same way. Embedded colour profiles are converted to sRGB.
+const BITMAP_OPTIONS: ImageBitmapOptions = {
+  imageOrientation: "none",
+  colorSpaceConversion: "default"
+};
+
+const resizeOptions = (width: number, height: number, longEdge: number) => {
+  const scale = fitScale(width, height, longEdge);
+  if (scale >= 1) return BITMAP_OPTIONS;
+  return {
+    ...BITMAP_OPTIONS,
+    resizeWidth: Math.max(1, Math.round(width * scale)),
+    resizeHeight: Math.max(1, Math.round(height * scale)),
+    resizeQuality: "high" as const
+  };
+};
+
+const createSrgbCanvas = (width: number, height: number) => {
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext("2d", { colorSpace: "srgb" });
+  if (!context) throw new Error("Canvas rendering not supported");
+  return { canvas, context };
+};
+
+const orient = async (bitmap: ImageBitmap, orientation: number) => {
+  const transform = ORIENTATIONS[orientation];
+  if (!transform) return bitmap;
+  const { width, height } = uprightSize(bitmap.width, bitmap.height, orientation);
+  const { canvas, context } = createSrgbCanvas(width, height);
+  const [a, b, c, d, e, f] = transform(bitmap.width, bitmap.height);
+  context.setTransform(a, b, c, d, e, f);
+  context.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  return createImageBitmap(canvas);
+};
+
+const decodeStored = async (
+  file: Blob,
+  format: ImageFormat,
+  width: number | null,
+  height: number | null,
+  longEdge: number
+) => {
+  if (format === "heif") {
+    const pixels = await decodeHeif(new Uint8Array(await file.arrayBuffer()));
+    return createImageBitmap(pixels, resizeOptions(pixels.width, pixels.height, longEdge));
+  }
+  if (width !== null && height !== null) {
+    return createImageBitmap(file, resizeOptions(width, height, longEdge));
+  }
+  // Size unknown up front: decode once, then scale down if needed.
+  const full = await createImageBitmap(file, BITMAP_OPTIONS);
+  const options = resizeOptions(full.width, full.height, longEdge);
+  if (options === BITMAP_OPTIONS) return full;
+  try {
+    return await createImageBitmap(full, options);
+  } finally {
+    full.close();
+  }
+};
+
+const describeFailure = (format: ImageFormat) =>
+  `Unable to decode this ${formatLabels[format]} image; the file may be damaged or incomplete`;
+
+// Decodes upright and in sRGB, no larger than `longEdge`. Exports and batch
+// renders decode the original again for its full detail.
+export const decodeImage = async (file: Blob, longEdge = EXPORT_LONG_EDGE) => {
+  if (file.size === 0) throw new Error("The selected file is empty");
+  const leading = await file.slice(0, HEADER_BYTES).arrayBuffer();
+  const header = readImageHeader(new Uint8Array(leading));
+  if (!header) {
+    throw new Error("Unrecognised file type; choose a JPEG, PNG, WebP, AVIF or HEIC image");
+  }
+  if (header.format === "tiff") {
+    throw new Error("TIFF photos cannot be opened in the browser; save as JPEG or PNG first");
+  }
+
+  if (header.width !== null && header.height !== null) checkSize(header.width, header.height);
+
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await decodeStored(file, header.format, header.width, header.height, longEdge);
+  } catch (error) {
+    // The HEIC decoder already explains its failures.
+    if (header.format === "heif") throw error;
+    console.error(error);
+    throw new Error(describeFailure(header.format));
+  }
+  return orient(bitmap, header.orientation);
+};
+
+const loadElement = (blob: Blob) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => {
+      URL.revokeObjectURL(image.src);
+      reject(new Error("Unable to prepare the working copy of this image"));
+    };
+    image.src = URL.createObjectURL(blob);
+  });
+
+// Builds the upright sRGB working copy the editor runs on, at most
+// WORKING_LONG_EDGE across. Its element owns an object URL; release it once
+// the image is replaced.
+export const ingestImage = async (file: Blob) => {
+  const bitmap = await decodeImage(file, WORKING_LONG_EDGE);
+  const { canvas, context } = createSrgbCanvas(bitmap.width, bitmap.height);
+  context.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  const working = await new Promise<Blob | null>((resolve) =>
+    canvas.toBlob(resolve, "image/png")
+  );
+  if (!working) throw new Error("Unable to prepare the working copy of this image");
+  return loadElement(working);
+};
+
+export const releaseIngestedImage = (image: HTMLImageElement) => {
+  if (image.src.startsWith("blob:")) URL.revokeObjectURL(image.src);
+};
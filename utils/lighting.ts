@@ -0,0 +1,115 @@
+import { type SobelGradients, clamp } from "./image-filters";
+
+export type LightingMode = "contour" | "directional";
+
+export type LightRole = "key" | "fill" | "rim";
+
+export interface LightSettings {
+  azimuth: number; // degrees clockwise from the top of the frame
+  elevation: number; // degrees above the image plane; 90 shines straight on
+  intensity: number;
+  softness: number; // how far light wraps past the terminator
+}
+
+export type LightRig = Record<LightRole, LightSettings>;
+
+export const LIGHTING_MODES: readonly LightingMode[] = ["contour", "directional"];
+
+export const LIGHT_ROLES: readonly LightRole[] = ["key", "fill", "rim"];
+
+export const DEFAULT_LIGHTS: LightRig = {
+  key: { azimuth: 315, elevation: 45, intensity: 80, softness: 30 },
+  fill: { azimuth: 90, elevation: 25, intensity: 30, softness: 70 },
+  rim: { azimuth: 150, elevation: 10, intensity: 40, softness: 20 }
+};
+
+const AMBIENT = 0.25;
+
+export const lightVector = ({ azimuth, elevation }: LightSettings) => {
+  const az = (azimuth * Math.PI) / 180;
+  const el = (clamp(elevation, 0, 90) * Math.PI) / 180;
+  // Image space: +x right, +y down, +z towards the viewer.
+  return [Math.sin(az) * Math.cos(el), -Math.cos(az) * Math.cos(el), Math.sin(el)] as const;
+};
+
+interface PreparedLight {
+  x: number;
+  y: number;
+  z: number;
+  intensity: number;
+  softness: number;
+}
+
+const prepareLight = (light: LightSettings): PreparedLight => {
+  const [x, y, z] = lightVector(light);
+  return {
+    x,
+    y,
+    z,
+    intensity: clamp(light.intensity, 0, 100) / 100,
+    softness: clamp(light.softness, 0, 100) / 100
+  };
+};
+
+// Lambert term with wrap lighting for soft terminators.
+const diffuse = (nx: number, ny: number, nz: number, light: PreparedLight) => {
+  const dot = nx * light.x + ny * light.y + nz * light.z;
+  return clamp((dot + light.softness) / (1 + light.softness), 0, 1);
+};
+
+// Rim lights graze silhouettes: strongest where the surface turns away from
+// the viewer and faces the light across the image plane.
+const rim = (nx: number, ny: number, nz: number, light: PreparedLight) => {
+  const planar = Math.hypot(nx, ny);
+  const planarLight = Math.hypot(light.x, light.y);
+  if (planar === 0 || planarLight === 0) return 0;
+  const facing = Math.max(0, (nx * light.x + ny * light.y) / (planar * planarLight));
+  return Math.pow(1 - nz, 1 + (1 - light.softness) * 3) * facing;
+};
+
+const shade = (
+  nx: number,
+  ny: number,
+  nz: number,
+  key: PreparedLight,
+  fill: PreparedLight,
+  rimLight: PreparedLight
+) =>
+  AMBIENT +
+  key.intensity * diffuse(nx, ny, nz, key) +
+  fill.intensity * diffuse(nx, ny, nz, fill) +
+  rimLight.intensity * rim(nx, ny, nz, rimLight);
+
+// Treats the smoothed luminance as a height field, shades the normals its
+// Sobel gradients give with the rig and scales the tone by the result
+// relative to a flat surface, so midtones keep their level and only the
+// modelling changes.
+export const relightTone = (
+  tone: Float32Array,
+  { gradientX, gradientY }: SobelGradients,
+  lights: LightRig,
+  depth: number,
+  scale: number
+) => {
+  const depthStrength = clamp(depth, 0, 100) / 100;
+  // Gradients shrink as resolution grows; scaling them back keeps the
+  // relief identical between preview and export.
+  const relief = ((2 + depthStrength * 10) / 255) * scale;
+  const key = prepareLight(lights.key);
+  const fill = prepareLight(lights.fill);
+  const rimLight = prepareLight(lights.rim);
+  const flat = shade(0, 0, 1, key, fill, rimLight);
+  const blend = 0.4 + 0.6 * depthStrength;
+
+  for (let i = 0; i < tone.length; i++) {
+    let nx = -gradientX[i] * relief;
+    let ny = -gradientY[i] * relief;
+    const length = Math.sqrt(nx * nx + ny * ny + 1);
+    nx /= length;
+    ny /= length;
+    const nz = 1 / length;
+
+    const factor = shade(nx, ny, nz, key, fill, rimLight) / flat;
+    tone[i] = clamp(tone[i] * (1 + (factor - 1) * blend), 0, 255);
+  }
+};
@@ -0,0 +1,147 @@
+import { clamp, guidedFilter } from "./image-filters";
+
+export type LocalToneMode = "off" | "clahe" | "multiscale";
+
+export interface LocalToneSettings {
+  mode: LocalToneMode;
+  strength: number;
+  clipLimit: number; // CLAHE only: how far a tile's contrast may be stretched
+  scale: number; // tile size for CLAHE, base-layer radius for multi-scale
+}
+
+export const LOCAL_TONE_MODES: readonly LocalToneMode[] = ["off", "clahe", "multiscale"];
+
+export const DEFAULT_LOCAL_TONE: LocalToneSettings = {
+  mode: "off",
+  strength: 50,
+  clipLimit: 30,
+  scale: 40
+};
+
+const BINS = 256;
+
+// Contrast-limited adaptive histogram equalisation: each tile gets its own
+// equalising curve, with histogram peaks clipped so flat areas are not
+// stretched into noise. Pixels blend the curves of the four nearest tiles.
+const clahe = (
+  values: Float32Array,
+  width: number,
+  height: number,
+  tileSize: number,
+  clipFactor: number
+) => {
+  const tilesX = Math.max(1, Math.round(width / tileSize));
+  const tilesY = Math.max(1, Math.round(height / tileSize));
+  const tileWidth = width / tilesX;
+  const tileHeight = height / tilesY;
+  const maps = new Float32Array(tilesX * tilesY * BINS);
+  const histogram = new Float32Array(BINS);
+
+  for (let ty = 0; ty < tilesY; ty++) {
+    for (let tx = 0; tx < tilesX; tx++) {
+      histogram.fill(0);
+      const x0 = Math.floor(tx * tileWidth);
+      const x1 = Math.floor((tx + 1) * tileWidth);
+      const y0 = Math.floor(ty * tileHeight);
+      const y1 = Math.floor((ty + 1) * tileHeight);
+      for (let y = y0; y < y1; y++) {
+        for (let x = x0; x < x1; x++) {
+          histogram[Math.round(clamp(values[y * width + x], 0, 255))]++;
+        }
+      }
+
+      const total = (x1 - x0) * (y1 - y0);
+      const limit = Math.max(1, (clipFactor * total) / BINS);
+      let excess = 0;
+      for (let bin = 0; bin < BINS; bin++) {
+        if (histogram[bin] > limit) {
+          excess += histogram[bin] - limit;
+          histogram[bin] = limit;
+        }
+      }
+
+      const map = (ty * tilesX + tx) * BINS;
+      const share = excess / BINS;
+      let cumulative = 0;
+      for (let bin = 0; bin < BINS; bin++) {
+        cumulative += histogram[bin] + share;
+        maps[map + bin] = (cumulative / Math.max(1, total)) * 255;
+      }
+    }
+  }
+
+  const result = new Float32Array(values.length);
+  for (let y = 0; y < height; y++) {
+    const gy = clamp((y + 0.5) / tileHeight - 0.5, 0, tilesY - 1);
+    const ty0 = Math.floor(gy);
+    const ty1 = Math.min(tilesY - 1, ty0 + 1);
+    const fy = gy - ty0;
+    for (let x = 0; x < width; x++) {
+      const gx = clamp((x + 0.5) / tileWidth - 0.5, 0, tilesX - 1);
+      const tx0 = Math.floor(gx);
+      const tx1 = Math.min(tilesX - 1, tx0 + 1);
+      const fx = gx - tx0;
+      const bin = Math.round(clamp(values[y * width + x], 0, 255));
+      const top =
+        maps[(ty0 * tilesX + tx0) * BINS + bin] * (1 - fx) +
+        maps[(ty0 * tilesX + tx1) * BINS + bin] * fx;
+      const bottom =
+        maps[(ty1 * tilesX + tx0) * BINS + bin] * (1 - fx) +
+        maps[(ty1 * tilesX + tx1) * BINS + bin] * fx;
+      result[y * width + x] = top * (1 - fy) + bottom * fy;
+    }
+  }
+  return result;
+};
+
+// Splits the tone into an edge-aware base and its detail, compresses the
+// base's range and lifts the detail, so shadows and highlights open up
+// without flattening form.
+const multiScale = (
+  values: Float32Array,
+  width: number,
+  height: number,
+  radius: number,
+  strength: number
+) => {
+  const base = guidedFilter(values, width, height, radius, 30 * 30);
+  const result = new Float32Array(values.length);
+  const compression = 1 - 0.6 * strength;
+  const boost = 1 + strength;
+  for (let i = 0; i < values.length; i++) {
+    const detail = values[i] - base[i];
+    result[i] = 128 + (base[i] - 128) * compression + detail * boost;
+  }
+  return result;
+};
+
+// Tile sizes and radii grow with the resolution scale, so exports are
+// shaped like the preview.
+export const applyLocalTone = (
+  values: Float32Array,
+  width: number,
+  height: number,
+  settings: LocalToneSettings,
+  scale: number
+) => {
+  if (settings.mode === "off") return;
+  const strength = clamp(settings.strength, 0, 100) / 100;
+  if (strength <= 0) return;
+
+  const size = clamp(settings.scale, 0, 100) / 100;
+  if (settings.mode === "clahe") {
+    const tileSize = (32 + size * 224) * scale;
+    const clipFactor = 1 + (clamp(settings.clipLimit, 0, 100) / 100) * 7;
+    const equalised = clahe(values, width, height, tileSize, clipFactor);
+    for (let i = 0; i < values.length; i++) {
+      values[i] = clamp(values[i] + (equalised[i] - values[i]) * strength, 0, 255);
+    }
+    return;
+  }
+
+  const radius = Math.max(1, Math.round((4 + size * 60) * scale));
+  const mapped = multiScale(values, width, height, radius, strength);
+  for (let i = 0; i < values.length; i++) {
+    values[i] = clamp(mapped[i], 0, 255);
+  }
+};
@@ -0,0 +1,163 @@
+import { clamp } from "./image-filters";
+import { turbulence } from "./noise";
+
+export type MaterialId = "plaster" | "ivory" | "marble" | "terracotta" | "bronze";
+
+type Rgb = readonly [number, number, number];
+
+interface RampStop {
+  at: number; // tone value 0-255
+  color: Rgb;
+}
+
+export interface Material {
+  id: MaterialId;
+  label: string;
+  // Gradient map from the grey tone value to colour. Empty means the
+  // neutral plaster the effect has always produced.
+  ramp: readonly RampStop[];
+  // Tones above the threshold blend toward the tint, scaled by sheen.
+  highlight: { threshold: number; tint: Rgb; strength: number };
+  veins?: { color: Rgb; strength: number; frequency: number };
+}
+
+export const MATERIALS: readonly Material[] = [
+  {
+    id: "plaster",
+    label: "Studio Plaster",
+    ramp: [],
+    highlight: { threshold: 255, tint: [255, 255, 255], strength: 0 }
+  },
+  {
+    id: "ivory",
+    label: "Warm Ivory",
+    ramp: [
+      { at: 0, color: [46, 38, 30] },
+      { at: 110, color: [168, 150, 124] },
+      { at: 200, color: [236, 226, 204] },
+      { at: 255, color: [255, 250, 238] }
+    ],
+    highlight: { threshold: 215, tint: [255, 252, 244], strength: 0.35 }
+  },
+  {
+    id: "marble",
+    label: "Carrara Marble",
+    ramp: [
+      { at: 0, color: [40, 42, 46] },
+      { at: 120, color: [172, 174, 178] },
+      { at: 210, color: [234, 235, 236] },
+      { at: 255, color: [252, 252, 252] }
+    ],
+    highlight: { threshold: 200, tint: [255, 255, 255], strength: 0.6 },
+    veins: { color: [118, 122, 130], strength: 0.55, frequency: 1 / 140 }
+  },
+  {
+    id: "terracotta",
+    label: "Terracotta",
+    ramp: [
+      { at: 0, color: [52, 22, 12] },
+      { at: 100, color: [148, 70, 42] },
+      { at: 190, color: [206, 122, 84] },
+      { at: 255, color: [236, 176, 138] }
+    ],
+    // Fired clay stays matte: highlights barely lift.
+    highlight: { threshold: 230, tint: [240, 190, 156], strength: 0.15 }
+  },
+  {
+    id: "bronze",
+    label: "Patinated Bronze",
+    ramp: [
+      { at: 0, color: [18, 24, 20] },
+      { at: 70, color: [52, 86, 70] },
+      { at: 140, color: [110, 78, 40] },
+      { at: 210, color: [184, 130, 66] },
+      { at: 255, color: [236, 196, 128] }
+    ],
+    highlight: { threshold: 180, tint: [255, 226, 168], strength: 0.85 }
+  }
+];
+
+export const MATERIAL_IDS = MATERIALS.map((material) => material.id);
+
+export const getMaterial = (id: MaterialId) =>
+  MATERIALS.find((material) => material.id === id) ?? MATERIALS[0];
+
+const rampCache = new Map<MaterialId, Uint8ClampedArray>();
+
+// 256-entry RGB lookup table for a material's gradient map.
+export const materialRamp = (material: Material) => {
+  const cached = rampCache.get(material.id);
+  if (cached) return cached;
+
+  const table = new Uint8ClampedArray(256 * 3);
+  const stops = material.ramp;
+  for (let value = 0; value < 256; value++) {
+    let next = stops.findIndex((stop) => stop.at >= value);
+    if (next === -1) next = stops.length - 1;
+    const previous = Math.max(0, next - 1);
+    const from = stops[previous];
+    const to = stops[next];
+    const span = to.at - from.at;
+    const t = span > 0 ? clamp((value - from.at) / span, 0, 1) : 0;
+    for (let channel = 0; channel < 3; channel++) {
+      table[value * 3 + channel] =
+        from.color[channel] + (to.color[channel] - from.color[channel]) * t;
+    }
+  }
+
+  rampCache.set(material.id, table);
+  return table;
+};
+
+// Thin dark veins from a warped sine band. Coordinates are divided by the
+// resolution scale so exports share the preview's vein pattern.
+export const veinIntensity = (x: number, y: number, frequency: number, scale: number) => {
+  const u = (x / scale) * frequency;
+  const v = (y / scale) * frequency;
+  const band = Math.sin((u + v * 0.6 + turbulence(u, v) * 4) * Math.PI);
+  return Math.pow(1 - Math.abs(band), 12);
+};
+
+// Maps the frame's luminance in `data` through the material in place.
+export const applyMaterial = (
+  data: Uint8ClampedArray,
+  width: number,
+  material: Material,
+  sheen: number,
+  scale: number
+) => {
+  if (material.ramp.length === 0) return;
+
+  const ramp = materialRamp(material);
+  const { threshold, tint, strength } = material.highlight;
+  const highlightStrength = strength * (clamp(sheen, 0, 100) / 100);
+  const veins = material.veins;
+
+  for (let i = 0; i < data.length; i += 4) {
+    const value = Math.round(data[i] * 0.299 + data[i + 1] * 0.587 + data[i + 2] * 0.114);
+    let r = ramp[value * 3];
+    let g = ramp[value * 3 + 1];
+    let b = ramp[value * 3 + 2];
+
+    if (veins) {
+      const pixel = i / 4;
+      const amount =
+        veinIntensity(pixel % width, Math.floor(pixel / width), veins.frequency, scale) *
+        veins.strength;
+      r += (veins.color[0] - r) * amount;
+      g += (veins.color[1] - g) * amount;
+      b += (veins.color[2] - b) * amount;
+    }
+
+    if (value > threshold && highlightStrength > 0) {
+      const amount = ((value - threshold) / (255 - threshold)) * highlightStrength;
+      r += (tint[0] - r) * amount;
+      g += (tint[1] - g) * amount;
+      b += (tint[2] - b) * amount;
+    }
+
+    data[i] = r;
+    data[i + 1] = g;
+    data[i + 2] = b;
+  }
+};
@@ -0,0 +1,116 @@
+export interface MediaSourceHandle {
+  stream: MediaStream;
+  stop: () => void;
+}
+
+export const openCameraStream = async (): Promise<MediaSourceHandle> => {
+  if (typeof navigator === "undefined" || !navigator.mediaDevices?.getUserMedia) {
+    throw new Error("This browser cannot access a camera");
+  }
+  const stream = await navigator.mediaDevices.getUserMedia({
+    video: { width: { ideal: 1280 }, height: { ideal: 960 }, facingMode: "user" },
+    audio: false
+  });
+  return { stream, stop: () => stream.getTracks().forEach((track) => track.stop()) };
+};
+
+// Synthetic bust on a drifting backdrop. Stands in for a camera wherever
+// one is not available: automated runs, CI browsers, demos.
+export const createTestPatternStream = (
+  width = 960,
+  height = 1280,
+  fps = 30
+): MediaSourceHandle => {
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext("2d");
+  if (!context || !("captureStream" in canvas)) {
+    throw new Error("This browser cannot generate a test stream");
+  }
+
+  const started = performance.now();
+  const draw = () => {
+    const t = (performance.now() - started) / 1000;
+    const backdrop = context.createLinearGradient(0, 0, width, height);
+    backdrop.addColorStop(0, `hsl(${(t * 20) % 360}, 25%, 70%)`);
+    backdrop.addColorStop(1, "hsl(210, 15%, 35%)");
+    context.fillStyle = backdrop;
+    context.fillRect(0, 0, width, height);
+
+    const sway = Math.sin(t * 1.5) * width * 0.05;
+    const head = context.createRadialGradient(
+      width / 2 + sway - width * 0.06,
+      height * 0.36,
+      width * 0.02,
+      width / 2 + sway,
+      height * 0.4,
+      width * 0.22
+    );
+    head.addColorStop(0, "#f2d2bd");
+    head.addColorStop(1, "#8a5a44");
+    context.fillStyle = head;
+    context.beginPath();
+    context.ellipse(
+      width / 2 + sway,
+      height * 0.4,
+      width * 0.17,
+      height * 0.16,
+      0,
+      0,
+      Math.PI * 2
+    );
+    context.fill();
+    context.fillStyle = "#3d3b45";
+    context.beginPath();
+    context.ellipse(width / 2 + sway * 0.5, height, width * 0.4, height * 0.34, 0, Math.PI, 0);
+    context.fill();
+  };
+
+  draw();
+  const timer = window.setInterval(draw, 1000 / fps);
+  const stream = canvas.captureStream(fps);
+  return {
+    stream,
+    stop: () => {
+      window.clearInterval(timer);
+      stream.getTracks().forEach((track) => track.stop());
+    }
+  };
+};
+
+const RECORDING_TYPES = ["video/webm;codecs=vp9", "video/webm;codecs=vp8", "video/webm"];
+
+export interface CanvasRecording {
+  stop: () => Promise<Blob>;
+}
+
+export const recordCanvas = (canvas: HTMLCanvasElement, fps = 30): CanvasRecording => {
+  if (typeof MediaRecorder === "undefined") {
+    throw new Error("This browser cannot record video");
+  }
+  const mimeType = RECORDING_TYPES.find((type) => MediaRecorder.isTypeSupported(type));
+  if (!mimeType) {
+    throw new Error("This browser cannot record WebM");
+  }
+
+  const stream = canvas.captureStream(fps);
+  const recorder = new MediaRecorder(stream, { mimeType });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (event) => {
+    if (event.data.size > 0) chunks.push(event.data);
+  };
+  recorder.start(1000);
+
+  return {
+    stop: () =>
+      new Promise<Blob>((resolve, reject) => {
+        recorder.onstop = () => {
+          stream.getTracks().forEach((track) => track.stop());
+          resolve(new Blob(chunks, { type: "video/webm" }));
+        };
+        recorder.onerror = () => reject(new Error("Recording failed"));
+        recorder.stop();
+      })
+  };
+};
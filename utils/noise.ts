@@ -0,0 +1,33 @@
+// Lattice noise shared by the material veins and the surface texture. The
+// seed only shifts the hash, so a seed of 0 keeps the original pattern.
+export const hash = (x: number, y: number, seed = 0) => {
+  let h = Math.imul(x, 374761393) + Math.imul(y, 668265263) + Math.imul(seed, 2246822519);
+  h = Math.imul(h ^ (h >>> 13), 1274126177);
+  return ((h ^ (h >>> 16)) >>> 0) / 4294967296;
+};
+
+export const valueNoise = (x: number, y: number, seed = 0) => {
+  const ix = Math.floor(x);
+  const iy = Math.floor(y);
+  const fx = x - ix;
+  const fy = y - iy;
+  const sx = fx * fx * (3 - 2 * fx);
+  const sy = fy * fy * (3 - 2 * fy);
+  const topLeft = hash(ix, iy, seed);
+  const bottomLeft = hash(ix, iy + 1, seed);
+  const top = topLeft + (hash(ix + 1, iy, seed) - topLeft) * sx;
+  const bottom = bottomLeft + (hash(ix + 1, iy + 1, seed) - bottomLeft) * sx;
+  return top + (bottom - top) * sy;
+};
+
+export const turbulence = (x: number, y: number, seed = 0) => {
+  let sum = 0;
+  let amplitude = 0.5;
+  let frequency = 1;
+  for (let octave = 0; octave < 4; octave++) {
+    sum += valueNoise(x * frequency, y * frequency, seed) * amplitude;
+    amplitude *= 0.5;
+    frequency *= 2;
+  }
+  return sum;
+};
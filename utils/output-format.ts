@@ -0,0 +1,73 @@
+export interface OutputFormat {
+  id: string;
+  label: string;
+  width: number;
+  height: number;
+  dpi: number;
+}
+
+// Effect kernels are tuned for this long edge; other sizes scale from it.
+export const REFERENCE_LONG_EDGE = 1200;
+export const PREVIEW_LONG_EDGE = 1200;
+// Live video renders smaller so the CPU path keeps an interactive frame rate.
+export const LIVE_LONG_EDGE = 640;
+// Drafts shown while a control is being dragged, refined once it settles.
+export const DRAFT_LONG_EDGE = 480;
+// Clips render every frame offline, so they trade size for render time.
+export const ANIMATION_LONG_EDGE = 720;
+// Canvas backing stores plus the float working maps grow quickly; past this
+// many pixels browsers start refusing allocations.
+export const MAX_OUTPUT_PIXELS = 24_000_000;
+export const MIN_OUTPUT_EDGE = 64;
+export const MAX_OUTPUT_EDGE = 8192;
+
+export const OUTPUT_FORMATS: readonly OutputFormat[] = [
+  { id: "studio-3x4", label: "3:4 Studio", width: 900, height: 1200, dpi: 72 },
+  { id: "social-1x1", label: "1:1 Social", width: 1080, height: 1080, dpi: 72 },
+  { id: "portrait-4x5", label: "4:5 Portrait", width: 1080, height: 1350, dpi: 72 },
+  { id: "story-9x16", label: "9:16 Story", width: 1080, height: 1920, dpi: 72 },
+  { id: "print-3x4", label: "3:4 Print", width: 3600, height: 4800, dpi: 300 }
+];
+
+export const DEFAULT_OUTPUT_FORMAT = OUTPUT_FORMATS[0];
+
+export const resolutionScale = (width: number, height: number) =>
+  Math.max(width, height) / REFERENCE_LONG_EDGE;
+
+export const fitWithin = (width: number, height: number, longEdge: number) => {
+  const scale = Math.min(1, longEdge / Math.max(width, height));
+  return {
+    width: Math.max(1, Math.round(width * scale)),
+    height: Math.max(1, Math.round(height * scale))
+  };
+};
+
+export const previewSize = (format: OutputFormat) =>
+  fitWithin(format.width, format.height, PREVIEW_LONG_EDGE);
+
+export const liveSize = (format: OutputFormat) =>
+  fitWithin(format.width, format.height, LIVE_LONG_EDGE);
+
+export const draftSize = (format: OutputFormat) =>
+  fitWithin(format.width, format.height, DRAFT_LONG_EDGE);
+
+// Video codecs subsample chroma in 2×2 blocks, so clips use even sizes.
+export const animationSize = (format: OutputFormat) => {
+  const { width, height } = fitWithin(format.width, format.height, ANIMATION_LONG_EDGE);
+  return { width: Math.max(2, width - (width % 2)), height: Math.max(2, height - (height % 2)) };
+};
+
+export const validateOutputFormat = ({ width, height, dpi }: OutputFormat) => {
+  for (const [name, value] of [["Width", width], ["Height", height]] as const) {
+    if (!Number.isInteger(value) || value < MIN_OUTPUT_EDGE || value > MAX_OUTPUT_EDGE) {
+      return `${name} must be a whole number between ${MIN_OUTPUT_EDGE} and ${MAX_OUTPUT_EDGE}`;
+    }
+  }
+  if (width * height > MAX_OUTPUT_PIXELS) {
+    return `${width}×${height} exceeds the ${Math.round(MAX_OUTPUT_PIXELS / 1e6)} MP export limit`;
+  }
+  if (!Number.isFinite(dpi) || dpi < 36 || dpi > 1200) {
+    return "DPI must be between 36 and 1200";
+  }
+  return null;
+};
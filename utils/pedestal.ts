@@ -0,0 +1,340 @@
+import { clamp } from "./image-filters";
+import { type LightSettings, lightVector } from "./lighting";
+import { type Material, type MaterialId, getMaterial, materialRamp } from "./materials";
+import type { RenderContext2D } from "./plaster-effect";
+
+export type PedestalShape = "none" | "slab" | "cube" | "cylinder" | "plinth" | "column";
+
+export interface PedestalSettings {
+  shape: PedestalShape;
+  height: number; // percent of the frame height, top face included
+  width: number; // percent of a 3:4 frame's width
+  material: MaterialId;
+  contactShadow: number; // darkness where the bust meets the top face
+}
+
+export const PEDESTAL_SHAPES: readonly PedestalShape[] = [
+  "none",
+  "slab",
+  "cube",
+  "cylinder",
+  "plinth",
+  "column"
+];
+
+export const DEFAULT_PEDESTAL: PedestalSettings = {
+  shape: "cube",
+  height: 24,
+  width: 41,
+  material: "plaster",
+  contactShadow: 50
+};
+
+// The old flat stand took its height from `standHeight` and grew with the
+// contour depth; this reproduces it for settings saved before the pedestal
+// existed.
+export const legacyPedestal = (standHeight: number, depth: number): PedestalSettings => ({
+  ...DEFAULT_PEDESTAL,
+  shape: "slab",
+  height: standHeight,
+  width: 36 + 8 * (clamp(depth, 0, 100) / 100)
+});
+
+type Vector = readonly [number, number, number];
+
+interface Surface {
+  material: Material;
+  light: Vector;
+  intensity: number;
+}
+
+const AMBIENT = 0.55;
+
+const shade = ({ light, intensity }: Surface, normal: Vector) => {
+  const dot = normal[0] * light[0] + normal[1] * light[1] + normal[2] * light[2];
+  return AMBIENT + (1 - AMBIENT) * Math.max(0, dot) * intensity;
+};
+
+// Faces stay in the upper part of the tone range, so the material's ramp
+// gives its lit colour rather than its shadow colour.
+const surfaceColor = ({ material }: Surface, amount: number) => {
+  const tone = Math.round(clamp(160 + 95 * amount, 0, 255));
+  if (material.ramp.length === 0) return `rgb(${tone},${tone},${tone - 3})`;
+  const ramp = materialRamp(material);
+  return `rgb(${ramp[tone * 3]},${ramp[tone * 3 + 1]},${ramp[tone * 3 + 2]})`;
+};
+
+const TOP_NORMAL: Vector = [0, -1, 0];
+const FRONT_NORMAL: Vector = [0, 0, 1];
+
+// Horizontal gradient whose colour at `u` (0 left, 1 right) comes from the
+// surface normal there. Repeated positions give hard creases.
+const shadedSpan = (
+  context: RenderContext2D,
+  surface: Surface,
+  left: number,
+  right: number,
+  samples: readonly { u: number; normal: Vector }[]
+) => {
+  const gradient = context.createLinearGradient(left, 0, right, 0);
+  for (const { u, normal } of samples) {
+    gradient.addColorStop(clamp(u, 0, 1), surfaceColor(surface, shade(surface, normal)));
+  }
+  return gradient;
+};
+
+// A flat front face still darkens slightly away from the key light.
+const flatFront = (context: RenderContext2D, surface: Surface, left: number, right: number) => {
+  const falloff = surface.light[0] * 0.08;
+  const base = shade(surface, FRONT_NORMAL);
+  const gradient = context.createLinearGradient(left, 0, right, 0);
+  gradient.addColorStop(0, surfaceColor(surface, base - falloff));
+  gradient.addColorStop(1, surfaceColor(surface, base + falloff));
+  return gradient;
+};
+
+interface Box {
+  centre: number;
+  top: number; // back edge of the top face
+  width: number;
+  height: number; // top face plus front face
+  depth: number; // foreshortened depth of the top face
+}
+
+// The camera sits level with the frame centre, so only the front and the
+// top of a box show; the top narrows towards its back edge.
+const drawBox = (context: RenderContext2D, surface: Surface, box: Box, withTop = true) => {
+  const left = box.centre - box.width / 2;
+  const right = box.centre + box.width / 2;
+  const front = box.top + box.depth;
+  const inset = box.width * 0.06;
+
+  context.fillStyle = flatFront(context, surface, left, right);
+  context.fillRect(left, front, box.width, box.height - box.depth);
+
+  if (!withTop) return;
+  context.beginPath();
+  context.moveTo(left, front);
+  context.lineTo(left + inset, box.top);
+  context.lineTo(right - inset, box.top);
+  context.lineTo(right, front);
+  context.closePath();
+  context.fillStyle = surfaceColor(surface, shade(surface, TOP_NORMAL));
+  context.fill();
+};
+
+const cylinderSamples = (flutes: number) => {
+  const samples: { u: number; normal: Vector }[] = [];
+  const steps = flutes > 0 ? flutes * 8 : 24;
+  for (let step = 0; step <= steps; step++) {
+    const u = step / steps;
+    let angle = (u - 0.5) * Math.PI;
+    if (flutes > 0) {
+      // Each flute is a shallow groove: its normal swings towards the
+      // groove centre, flipping sharply at the arris between flutes.
+      const local = (u * flutes) % 1;
+      angle += (0.5 - local) * 1.1;
+      if (local === 0 && step > 0 && step < steps) {
+        samples.push({ u, normal: [Math.sin(angle - 1.1), 0, Math.cos(angle - 1.1)] });
+      }
+    }
+    samples.push({ u, normal: [Math.sin(angle), 0, Math.cos(angle)] });
+  }
+  return samples;
+};
+
+const drawCylinder = (
+  context: RenderContext2D,
+  surface: Surface,
+  box: Box,
+  flutes = 0,
+  withTop = true
+) => {
+  const left = box.centre - box.width / 2;
+  const right = box.centre + box.width / 2;
+  const radiusY = box.depth / 2;
+  const middle = box.top + radiusY;
+  const bottom = box.top + box.height;
+
+  context.beginPath();
+  context.moveTo(left, middle);
+  context.lineTo(left, bottom);
+  context.lineTo(right, bottom);
+  context.lineTo(right, middle);
+  context.ellipse(box.centre, middle, box.width / 2, radiusY, 0, 0, Math.PI);
+  context.closePath();
+  context.fillStyle = shadedSpan(context, surface, left, right, cylinderSamples(flutes));
+  context.fill();
+
+  if (!withTop) return;
+  context.beginPath();
+  context.ellipse(box.centre, middle, box.width / 2, radiusY, 0, 0, Math.PI * 2);
+  context.fillStyle = surfaceColor(surface, shade(surface, TOP_NORMAL));
+  context.fill();
+};
+
+// The flat, front-lit stand of earlier versions, drawn as it always was:
+// it ignores the lights, the material and the contact shadow.
+const drawSlab = (context: RenderContext2D, box: Box) => {
+  const left = box.centre - box.width / 2;
+  const gradient = context.createLinearGradient(left, box.top, left, box.top + box.height);
+  gradient.addColorStop(0, "#ffffff");
+  gradient.addColorStop(0.5, "#f3f3f1");
+  gradient.addColorStop(1, "#e4e4df");
+  context.fillStyle = gradient;
+  context.fillRect(left, box.top, box.width, box.height);
+
+  const shadow = context.createLinearGradient(
+    left,
+    box.top,
+    left + box.width,
+    box.top + box.height
+  );
+  shadow.addColorStop(0, "rgba(0,0,0,0.12)");
+  shadow.addColorStop(0.25, "rgba(0,0,0,0.05)");
+  shadow.addColorStop(0.75, "rgba(0,0,0,0.02)");
+  shadow.addColorStop(1, "rgba(0,0,0,0.14)");
+  context.globalCompositeOperation = "multiply";
+  context.fillStyle = shadow;
+  context.fillRect(left, box.top, box.width, box.height);
+  context.globalCompositeOperation = "source-over";
+};
+
+// Falls on the backdrop on the side away from the key light.
+const drawCastShadow = (context: RenderContext2D, surface: Surface, box: Box) => {
+  const reach = -surface.light[0] * box.width * 0.45 * (1 - surface.light[2] * 0.5);
+  if (Math.abs(reach) < 1) return;
+  const edge = box.centre + (Math.sign(reach) * box.width) / 2;
+  const top = box.top + box.depth;
+  const gradient = context.createLinearGradient(edge, 0, edge + reach, 0);
+  gradient.addColorStop(0, `rgba(0,0,0,${0.14 * surface.intensity})`);
+  gradient.addColorStop(1, "rgba(0,0,0,0)");
+
+  context.beginPath();
+  context.moveTo(edge, top);
+  context.lineTo(edge + reach, top + box.depth);
+  context.lineTo(edge + reach, box.top + box.height);
+  context.lineTo(edge, box.top + box.height);
+  context.closePath();
+  context.globalCompositeOperation = "multiply";
+  context.fillStyle = gradient;
+  context.fill();
+  context.globalCompositeOperation = "source-over";
+};
+
+// Soft pool of shadow under the bust, pushed away from the key light.
+const drawContactShadow = (
+  context: RenderContext2D,
+  surface: Surface,
+  centre: number,
+  top: number,
+  width: number,
+  depth: number,
+  strength: number
+) => {
+  if (strength <= 0) return;
+  const radiusX = width * 0.36;
+  const radiusY = Math.max(1, depth * 0.42);
+  const x = centre - surface.light[0] * width * 0.06;
+  const y = top + depth / 2 - surface.light[1] * depth * 0.1;
+
+  context.save();
+  context.translate(x, y);
+  context.scale(1, radiusY / radiusX);
+  const gradient = context.createRadialGradient(0, 0, 0, 0, 0, radiusX);
+  gradient.addColorStop(0, `rgba(0,0,0,${0.4 * strength})`);
+  gradient.addColorStop(0.6, `rgba(0,0,0,${0.16 * strength})`);
+  gradient.addColorStop(1, "rgba(0,0,0,0)");
+  context.globalCompositeOperation = "multiply";
+  context.fillStyle = gradient;
+  context.fillRect(-radiusX, -radiusX, radiusX * 2, radiusX * 2);
+  context.restore();
+};
+
+export const drawPedestal = (
+  context: RenderContext2D,
+  width: number,
+  height: number,
+  pedestal: PedestalSettings,
+  keyLight: LightSettings
+) => {
+  if (pedestal.shape === "none") return;
+
+  const surface: Surface = {
+    material: getMaterial(pedestal.material),
+    light: lightVector(keyLight),
+    intensity: clamp(keyLight.intensity, 0, 100) / 100
+  };
+  const totalHeight = height * (clamp(pedestal.height, 10, 45) / 100);
+  // Sized against a 3:4 frame so wide formats do not stretch the pedestal.
+  const pedestalWidth = Math.min(width, height * 0.75) * (clamp(pedestal.width, 20, 80) / 100);
+  const centre = width / 2;
+  const top = height - totalHeight;
+  const depth = pedestalWidth * 0.16;
+  const outline: Box = { centre, top, width: pedestalWidth, height: totalHeight, depth };
+  const contact = clamp(pedestal.contactShadow, 0, 100) / 100;
+
+  if (pedestal.shape === "slab") {
+    drawSlab(context, outline);
+    return;
+  }
+  drawCastShadow(context, surface, outline);
+
+  switch (pedestal.shape) {
+    case "cube":
+      drawBox(context, surface, outline);
+      drawContactShadow(context, surface, centre, top, pedestalWidth, depth, contact);
+      break;
+    case "cylinder":
+      drawCylinder(context, surface, outline);
+      drawContactShadow(context, surface, centre, top, pedestalWidth, depth, contact);
+      break;
+    case "plinth": {
+      const capHeight = totalHeight * 0.16;
+      const stepHeight = totalHeight * 0.2;
+      const stepTop = height - stepHeight - depth * 1.1;
+      drawBox(context, surface, {
+        centre,
+        top: stepTop,
+        width: pedestalWidth * 1.12,
+        height: height - stepTop,
+        depth: depth * 1.1
+      });
+      drawBox(
+        context,
+        surface,
+        {
+          centre,
+          top: top + capHeight - depth * 0.9,
+          width: pedestalWidth * 0.86,
+          height: stepTop + depth * 0.55 - (top + capHeight - depth * 0.9),
+          depth: depth * 0.9
+        },
+        false
+      );
+      drawBox(context, surface, { ...outline, height: capHeight + depth });
+      drawContactShadow(context, surface, centre, top, pedestalWidth, depth, contact);
+      break;
+    }
+    case "column": {
+      const capitalHeight = totalHeight * 0.12;
+      const shaftWidth = pedestalWidth * 0.78;
+      drawCylinder(
+        context,
+        surface,
+        {
+          centre,
+          top: top + capitalHeight,
+          width: shaftWidth,
+          height: totalHeight - capitalHeight,
+          depth: depth * 0.78
+        },
+        12,
+        false
+      );
+      drawBox(context, surface, { ...outline, height: capitalHeight + depth });
+      drawContactShadow(context, surface, centre, top, pedestalWidth, depth, contact);
+      break;
+    }
+  }
+};
@@ -0,0 +1,278 @@
+import { resolutionScale } from "./output-format";
+import type { DetectedFace } from "./face-detection";
+import type { EffectSettings, RenderContext2D } from "./plaster-effect";
+import type { FrameCrop, MaskRefinement } from "./segmentation";
+
+export interface PipelineState {
+  context: RenderContext2D;
+  source: CanvasImageSource;
+  width: number;
+  height: number;
+  scale: number; // output long edge relative to the reference preview size
+  cache: RenderCache | null; // intermediates kept from earlier renders
+  key: string; // the source, size and every stage's settings so far
+  luminanceKey: string | null; // the key that produced luminance, null if unknown
+  smoothedKey: string | null; // ... and smoothed
+  pixels: ImageData | null;
+  luminance: Float32Array | null; // grayscale of the composed frame
+  smoothed: Float32Array | null; // base map for detail and contour passes
+  tone: Float32Array | null; // working value written back on flush
+  face: DetectedFace | null; // detected face, in source fractions
+  crop: FrameCrop | null; // source region the frame was drawn from
+  refinement: MaskRefinement | null; // brushed keep/remove hints, source space
+  subjectMask: Float32Array | null; // foreground coverage 0-1 per pixel
+  subject: ImageData | null; // cut-out subject waiting to be laid back on top
+}
+
+// "canvas" stages draw through the 2D context, "tone" stages edit the
+// working value map. The runner converts between the two as needed.
+export type StageTarget = "canvas" | "tone";
+
+export interface EffectStage<K extends keyof EffectSettings = keyof EffectSettings> {
+  id: string;
+  label: string;
+  target: StageTarget;
+  settingKeys: readonly K[];
+  run(state: PipelineState, settings: Pick<EffectSettings, K>): void;
+}
+
+// Lets another device (e.g. the GPU) take over a run of consecutive tone
+// stages. Returns how many leading stages it handled: all of them means the
+// result is already on the canvas, fewer means it left the working maps in
+// the state for the CPU to continue from.
+export interface ToneAccelerator {
+  run(
+    state: PipelineState,
+    stages: readonly EffectStage[],
+    settings: EffectSettings
+  ): number;
+}
+
+// Expensive intermediates kept between renders, each under the key of the
+// pipeline prefix that produced it. A slot holds a couple of entries so a
+// draft and a full-size preview do not evict each other.
+export interface RenderCache {
+  get: (slot: string, key: string) => unknown;
+  set: (slot: string, key: string, value: unknown) => void;
+  clear: () => void;
+}
+
+export const createRenderCache = (entriesPerSlot = 2): RenderCache => {
+  const slots = new Map<string, { key: string; value: unknown }[]>();
+  return {
+    get: (slot, key) => slots.get(slot)?.find((entry) => entry.key === key)?.value,
+    set: (slot, key, value) => {
+      const entries = (slots.get(slot) ?? []).filter((entry) => entry.key !== key);
+      slots.set(slot, [{ key, value }, ...entries].slice(0, entriesPerSlot));
+    },
+    clear: () => slots.clear()
+  };
+};
+
+// Cached values are shared between renders, so callers must treat them as
+// read-only. A null key means the inputs are unknown and nothing is kept.
+export const memoise = <T>(
+  state: PipelineState,
+  slot: string,
+  key: string | null,
+  compute: () => T
+): T => {
+  if (!state.cache || key === null) return compute();
+  const cached = state.cache.get(slot, key);
+  if (cached !== undefined) return cached as T;
+  const value = compute();
+  state.cache.set(slot, key, value);
+  return value;
+};
+
+// Sources and refinements are keyed by identity rather than content.
+const identities = new WeakMap<object, number>();
+let nextIdentity = 1;
+
+const identify = (value: object | null) => {
+  if (!value) return 0;
+  let identity = identities.get(value);
+  if (identity === undefined) {
+    identity = nextIdentity++;
+    identities.set(value, identity);
+  }
+  return identity;
+};
+
+export interface PipelineEntry {
+  id: string;
+  enabled: boolean;
+}
+
+const registry = new Map<string, EffectStage>();
+
+export const defineStage = <K extends keyof EffectSettings>(
+  stage: EffectStage<K>
+) => stage;
+
+// Registers into this module instance only. The page and the render worker
+// each have one, so app stages belong in custom-stages.ts, which both load.
+export const registerStage = (stage: EffectStage) => {
+  registry.set(stage.id, stage);
+};
+
+export const getStage = (id: string) => registry.get(id);
+
+export const listStages = () => Array.from(registry.values());
+
+// Brings a pipeline saved by an older build in line with the current
+// defaults: unknown stages are dropped and new ones slot in after the stage
+// they follow by default, keeping the saved order and toggles otherwise.
+export const reconcilePipeline = (
+  stored: readonly PipelineEntry[],
+  defaults: readonly PipelineEntry[]
+) => {
+  const result = stored
+    .filter((entry) => defaults.some((item) => item.id === entry.id))
+    .map(({ id, enabled }) => ({ id, enabled: enabled !== false }));
+
+  defaults.forEach((entry, index) => {
+    if (result.some((item) => item.id === entry.id)) return;
+    const previous = defaults[index - 1];
+    const at = previous ? result.findIndex((item) => item.id === previous.id) + 1 : 0;
+    result.splice(at, 0, { ...entry });
+  });
+
+  return result;
+};
+
+export const createPipelineState = (
+  context: RenderContext2D,
+  source: CanvasImageSource,
+  width: number,
+  height: number,
+  refinement: MaskRefinement | null = null,
+  cache: RenderCache | null = null
+): PipelineState => ({
+  context,
+  source,
+  width,
+  height,
+  scale: resolutionScale(width, height),
+  cache,
+  key: `${identify(source)}:${identify(refinement)}:${width}x${height}`,
+  luminanceKey: null,
+  smoothedKey: null,
+  pixels: null,
+  luminance: null,
+  smoothed: null,
+  tone: null,
+  face: null,
+  crop: null,
+  refinement,
+  subjectMask: null,
+  subject: null
+});
+
+export const readTone = (state: PipelineState) => {
+  if (state.tone) return state.tone;
+
+  const pixels = state.context.getImageData(0, 0, state.width, state.height);
+  const data = pixels.data;
+  const luminance = memoise(state, "luminance", state.key, () => {
+    const map = new Float32Array(state.width * state.height);
+    for (let i = 0; i < data.length; i += 4) {
+      const gray =
+        data[i] * 0.299 + data[i + 1] * 0.587 + data[i + 2] * 0.114;
+      map[i / 4] = gray;
+    }
+    return map;
+  });
+
+  state.pixels = pixels;
+  state.luminance = luminance;
+  state.smoothed = luminance;
+  state.tone = Float32Array.from(luminance);
+  state.luminanceKey = state.key;
+  state.smoothedKey = state.key;
+  return state.tone;
+};
+
+export const flushTone = (state: PipelineState) => {
+  const { pixels, tone } = state;
+  if (!pixels || !tone) return;
+
+  const data = pixels.data;
+  for (let i = 0; i < data.length; i += 4) {
+    const value = tone[i / 4];
+    data[i] = value;
+    data[i + 1] = value;
+    data[i + 2] = value;
+  }
+
+  state.context.putImageData(pixels, 0, 0);
+  state.pixels = null;
+  state.luminance = null;
+  state.smoothed = null;
+  state.tone = null;
+  state.luminanceKey = null;
+  state.smoothedKey = null;
+};
+
+const pickSettings = <K extends keyof EffectSettings>(
+  settings: EffectSettings,
+  keys: readonly K[]
+) => {
+  const slice = {} as Pick<EffectSettings, K>;
+  for (const key of keys) {
+    slice[key] = settings[key];
+  }
+  return slice;
+};
+
+// Extends the key before a stage runs, so it covers the stage's own settings.
+const appendKey = (state: PipelineState, stage: EffectStage, settings: EffectSettings) => {
+  state.key += `|${stage.id}${JSON.stringify(pickSettings(settings, stage.settingKeys))}`;
+};
+
+export const runPipeline = (
+  state: PipelineState,
+  entries: readonly PipelineEntry[],
+  settings: EffectSettings,
+  accelerator?: ToneAccelerator
+) => {
+  const stages = entries
+    .filter((entry) => entry.enabled)
+    .map((entry) => {
+      const stage = registry.get(entry.id);
+      if (!stage) {
+        throw new Error(`Unknown effect stage "${entry.id}"`);
+      }
+      return stage;
+    });
+
+  let index = 0;
+  while (index < stages.length) {
+    const stage = stages[index];
+
+    if (stage.target === "tone") {
+      if (accelerator && !state.tone) {
+        let end = index;
+        while (end < stages.length && stages[end].target === "tone") end++;
+        const handled = accelerator.run(state, stages.slice(index, end), settings);
+        if (handled > 0) {
+          // Maps read back from another device are not cached.
+          stages.slice(index, index + handled).forEach((done) => appendKey(state, done, settings));
+          state.luminanceKey = null;
+          state.smoothedKey = null;
+          index += handled;
+          continue;
+        }
+      }
+      readTone(state);
+    } else {
+      flushTone(state);
+    }
+
+    appendKey(state, stage, settings);
+    stage.run(state, pickSettings(settings, stage.settingKeys));
+    index++;
+  }
+
+  flushTone(state);
+};
@@ -0,0 +1,340 @@
+import {
+  ANIMATION_CANCELLED,
+  type AnimationJob,
+  type AnimationProgress,
+  renderAnimation
+} from "./animation";
+import {
+  DEFAULT_EXPORT_ENCODING,
+  type ExportEncoding,
+  encodeCanvas
+} from "./export-encoding";
+import { computeHistogram } from "./histogram";
+import type { DetectedFace } from "./face-detection";
+import type { EffectSettings } from "./plaster-effect";
+import { type PipelineEntry, createRenderCache } from "./pipeline";
+import { type RendererBackend, createRenderer } from "./renderer";
+import type { MaskRefinement } from "./segmentation";
+
+export interface RenderJob {
+  settings: EffectSettings;
+  pipeline: readonly PipelineEntry[];
+  width: number;
+  height: number;
+  refinement?: MaskRefinement | null;
+}
+
+// The histogram is taken where the frame is rendered, so the page never
+// reads pixels back for it.
+export interface RenderedFrame {
+  bitmap: ImageBitmap;
+  histogram: Uint32Array;
+  face: DetectedFace | null; // what the render's face stage found
+}
+
+export type WorkerRequest =
+  | { type: "source"; bitmap: ImageBitmap }
+  | { type: "render"; jobId: number; job: RenderJob }
+  | {
+      type: "export";
+      exportId: number;
+      bitmap: ImageBitmap;
+      job: RenderJob;
+      encoding: ExportEncoding;
+    }
+  | { type: "animate"; animationId: number; bitmap: ImageBitmap; job: AnimationJob }
+  | { type: "cancelAnimation"; animationId: number };
+
+export type WorkerResponse =
+  | { type: "backend"; backend: RendererBackend }
+  | { type: "rendered"; jobId: number; frame: RenderedFrame }
+  | { type: "error"; jobId: number; message: string }
+  | { type: "exported"; exportId: number; blob: Blob }
+  | { type: "exportFailed"; exportId: number; message: string }
+  | { type: "animationProgress"; animationId: number; progress: AnimationProgress }
+  | { type: "animated"; animationId: number; blob: Blob }
+  | { type: "animationFailed"; animationId: number; message: string };
+
+interface RenderClientHandlers {
+  onRendered: (frame: RenderedFrame) => void;
+  onError: (message: string) => void;
+  onBusyChange?: (busy: boolean) => void;
+  onBackend?: (backend: RendererBackend) => void;
+}
+
+export interface PlasterRenderClient {
+  setSource: (bitmap: ImageBitmap) => void;
+  render: (job: RenderJob) => void;
+  renderToBlob: (
+    bitmap: ImageBitmap,
+    job: RenderJob,
+    encoding?: ExportEncoding
+  ) => Promise<Blob>;
+  renderAnimation: (
+    bitmap: ImageBitmap,
+    job: AnimationJob,
+    onProgress?: (progress: AnimationProgress) => void
+  ) => Promise<Blob>;
+  cancelAnimation: () => void;
+  cancel: () => void;
+  dispose: () => void;
+}
+
+const supportsWorkerRendering = () =>
+  typeof Worker !== "undefined" && typeof OffscreenCanvas !== "undefined";
+
+// Main-thread fallback for browsers without OffscreenCanvas in workers.
+const createInlineClient = (handlers: RenderClientHandlers): PlasterRenderClient => {
+  const canvas = document.createElement("canvas");
+  const context = canvas.getContext("2d", { willReadFrequently: true });
+  const renderer = createRenderer();
+  const cache = createRenderCache();
+  let source: ImageBitmap | null = null;
+  let latestJob = 0;
+  let latestAnimation = 0;
+  handlers.onBackend?.(renderer.backend);
+
+  return {
+    setSource: (bitmap) => {
+      source?.close();
+      source = bitmap;
+      cache.clear();
+    },
+    render: (job) => {
+      const jobId = ++latestJob;
+      if (!source || !context) return;
+      canvas.width = job.width;
+      canvas.height = job.height;
+      handlers.onBusyChange?.(true);
+      let face: DetectedFace | null;
+      try {
+        face = renderer.render({ source, context, cache, ...job }).face;
+      } catch (error) {
+        handlers.onBusyChange?.(false);
+        handlers.onError(error instanceof Error ? error.message : "Processing failed");
+        return;
+      }
+      const histogram = computeHistogram(context.getImageData(0, 0, job.width, job.height).data);
+      createImageBitmap(canvas)
+        .then((bitmap) => {
+          if (jobId === latestJob) {
+            handlers.onRendered({ bitmap, histogram, face });
+          } else {
+            bitmap.close();
+          }
+        })
+        .catch(() => handlers.onError("Processing failed"))
+        .finally(() => handlers.onBusyChange?.(false));
+    },
+    renderToBlob: (bitmap, job, encoding = DEFAULT_EXPORT_ENCODING) => {
+      const exportCanvas = document.createElement("canvas");
+      exportCanvas.width = job.width;
+      exportCanvas.height = job.height;
+      const exportContext = exportCanvas.getContext("2d", { willReadFrequently: true });
+      if (!exportContext) {
+        bitmap.close();
+        return Promise.reject(new Error("Canvas rendering not supported"));
+      }
+
+      try {
+        renderer.render({ source: bitmap, context: exportContext, ...job });
+      } catch (error) {
+        return Promise.reject(error);
+      } finally {
+        bitmap.close();
+      }
+
+      return encodeCanvas(exportCanvas, exportContext, encoding);
+    },
+    renderAnimation: async (bitmap, job, onProgress) => {
+      const animationId = ++latestAnimation;
+      try {
+        return await renderAnimation(renderer, bitmap, job, {
+          onProgress,
+          isCancelled: () => animationId !== latestAnimation
+        });
+      } finally {
+        bitmap.close();
+      }
+    },
+    cancelAnimation: () => {
+      latestAnimation++;
+    },
+    cancel: () => {
+      latestJob++;
+    },
+    dispose: () => {
+      latestJob++;
+      latestAnimation++;
+      source?.close();
+      source = null;
+      cache.clear();
+      renderer.dispose();
+    }
+  };
+};
+
+export const createPlasterRenderClient = (
+  handlers: RenderClientHandlers
+): PlasterRenderClient => {
+  if (!supportsWorkerRendering()) {
+    return createInlineClient(handlers);
+  }
+
+  const worker = new Worker(
+    new URL("../workers/plaster-effect.worker.ts", import.meta.url)
+  );
+  let latestJob = 0;
+  let inFlight: number | null = null;
+  // Jobs dispatched before the latest source swap must never be shown.
+  let firstCurrentJob = 1;
+  // Only the most recent request waits behind the running job; anything
+  // older is superseded before it ever reaches the worker.
+  let queued: RenderJob | null = null;
+  let latestExport = 0;
+  const exports = new Map<
+    number,
+    { resolve: (blob: Blob) => void; reject: (error: Error) => void }
+  >();
+
+  let latestAnimation = 0;
+  let animation: {
+    animationId: number;
+    resolve: (blob: Blob) => void;
+    reject: (error: Error) => void;
+    onProgress?: (progress: AnimationProgress) => void;
+  } | null = null;
+
+  const post = (message: WorkerRequest, transfer: Transferable[] = []) =>
+    worker.postMessage(message, transfer);
+
+  const abandonAnimation = (message: string) => {
+    animation?.reject(new Error(message));
+    animation = null;
+  };
+
+  const dispatch = (job: RenderJob) => {
+    inFlight = ++latestJob;
+    handlers.onBusyChange?.(true);
+    post({ type: "render", jobId: inFlight, job });
+  };
+
+  const settle = () => {
+    inFlight = null;
+    if (queued) {
+      const next = queued;
+      queued = null;
+      dispatch(next);
+    } else {
+      handlers.onBusyChange?.(false);
+    }
+  };
+
+  worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+    const message = event.data;
+    if (message.type === "backend") {
+      handlers.onBackend?.(message.backend);
+      return;
+    }
+    if (message.type === "exported" || message.type === "exportFailed") {
+      const pending = exports.get(message.exportId);
+      exports.delete(message.exportId);
+      if (message.type === "exported") {
+        pending?.resolve(message.blob);
+      } else {
+        pending?.reject(new Error(message.message));
+      }
+      return;
+    }
+    if (
+      message.type === "animationProgress" ||
+      message.type === "animated" ||
+      message.type === "animationFailed"
+    ) {
+      if (message.animationId !== animation?.animationId) return;
+      if (message.type === "animationProgress") {
+        animation.onProgress?.(message.progress);
+      } else if (message.type === "animated") {
+        animation.resolve(message.blob);
+        animation = null;
+      } else {
+        abandonAnimation(message.message);
+      }
+      return;
+    }
+
+    const current = message.jobId >= firstCurrentJob;
+
+    if (message.type === "rendered") {
+      if (current) {
+        handlers.onRendered(message.frame);
+      } else {
+        message.frame.bitmap.close();
+      }
+    } else if (current) {
+      handlers.onError(message.message);
+    }
+
+    if (message.jobId === inFlight) settle();
+  };
+
+  worker.onerror = (event) => {
+    event.preventDefault();
+    handlers.onError("Render worker crashed");
+    inFlight = null;
+    queued = null;
+    exports.forEach(({ reject }) => reject(new Error("Render worker crashed")));
+    exports.clear();
+    abandonAnimation("Render worker crashed");
+    handlers.onBusyChange?.(false);
+  };
+
+  return {
+    setSource: (bitmap) => {
+      firstCurrentJob = latestJob + 1;
+      post({ type: "source", bitmap }, [bitmap]);
+    },
+    render: (job) => {
+      if (inFlight !== null) {
+        queued = job;
+        return;
+      }
+      dispatch(job);
+    },
+    renderToBlob: (bitmap, job, encoding = DEFAULT_EXPORT_ENCODING) =>
+      new Promise<Blob>((resolve, reject) => {
+        const exportId = ++latestExport;
+        exports.set(exportId, { resolve, reject });
+        post({ type: "export", exportId, bitmap, job, encoding }, [bitmap]);
+      }),
+    // One clip at a time; starting another abandons the one in progress.
+    renderAnimation: (bitmap, job, onProgress) =>
+      new Promise<Blob>((resolve, reject) => {
+        if (animation) {
+          post({ type: "cancelAnimation", animationId: animation.animationId });
+          abandonAnimation(ANIMATION_CANCELLED);
+        }
+        const animationId = ++latestAnimation;
+        animation = { animationId, resolve, reject, onProgress };
+        post({ type: "animate", animationId, bitmap, job }, [bitmap]);
+      }),
+    // Settles straight away; the worker stops at its next frame.
+    cancelAnimation: () => {
+      if (!animation) return;
+      post({ type: "cancelAnimation", animationId: animation.animationId });
+      abandonAnimation(ANIMATION_CANCELLED);
+    },
+    cancel: () => {
+      firstCurrentJob = latestJob + 1;
+      queued = null;
+    },
+    dispose: () => {
+      queued = null;
+      inFlight = null;
+      exports.forEach(({ reject }) => reject(new Error("Renderer disposed")));
+      exports.clear();
+      abandonAnimation("Renderer disposed");
+      worker.terminate();
+    }
+  };
+};
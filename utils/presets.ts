@@ -0,0 +1,203 @@
+import { DEFAULT_FACE } from "./face";
+import { DEFAULT_LIGHTS } from "./lighting";
+import { DEFAULT_LOCAL_TONE } from "./local-tone";
+import { DEFAULT_PEDESTAL } from "./pedestal";
+import type { EffectSettings } from "./plaster-effect";
+import { DEFAULT_SETTINGS, parseSettings } from "./settings-schema";
+import { DEFAULT_SMOOTHING } from "./smoothing";
+import { DEFAULT_TEXTURE } from "./texture";
+import { DEFAULT_TONE_CURVE } from "./tone-curve";
+
+export interface EffectPreset {
+  id: string;
+  name: string;
+  settings: EffectSettings;
+  builtIn?: boolean;
+}
+
+const STORAGE_KEY = "plaster-studio.presets";
+const FILE_FORMAT = "plaster-studio-presets";
+export const PRESET_FILE_VERSION = 1;
+
+export const BUILT_IN_PRESETS: readonly EffectPreset[] = [
+  {
+    id: "builtin-studio",
+    name: "Studio Default",
+    settings: DEFAULT_SETTINGS,
+    builtIn: true
+  },
+  {
+    id: "builtin-museum-marble",
+    name: "Museum Marble",
+    settings: {
+      depth: 48,
+      luminosity: 14,
+      sheen: 82,
+      matte: 22,
+      smoothing: { ...DEFAULT_SMOOTHING, mode: "guided", guidedStrength: 58 },
+      microDetail: 30,
+      backgroundLift: 86,
+      macroZoom: 12,
+      focusX: 50,
+      focusY: 50,
+      pedestal: { ...DEFAULT_PEDESTAL, shape: "plinth", height: 28, width: 40 },
+      vignette: 24,
+      material: "plaster",
+      lighting: "contour",
+      lights: DEFAULT_LIGHTS,
+      toneCurve: DEFAULT_TONE_CURVE,
+      localTone: DEFAULT_LOCAL_TONE,
+      texture: DEFAULT_TEXTURE,
+      face: DEFAULT_FACE,
+      subjectMask: "off",
+      maskTolerance: 35,
+      maskFeather: 3
+    },
+    builtIn: true
+  },
+  {
+    id: "builtin-chalk-matte",
+    name: "Chalk Matte",
+    settings: {
+      depth: 40,
+      luminosity: 20,
+      sheen: 18,
+      matte: 78,
+      smoothing: { ...DEFAULT_SMOOTHING, mode: "bilateral", bilateralStrength: 44 },
+      microDetail: 62,
+      backgroundLift: 64,
+      macroZoom: 18,
+      focusX: 50,
+      focusY: 50,
+      pedestal: { ...DEFAULT_PEDESTAL, height: 22, width: 39 },
+      vignette: 30,
+      material: "plaster",
+      lighting: "contour",
+      lights: DEFAULT_LIGHTS,
+      toneCurve: DEFAULT_TONE_CURVE,
+      localTone: { ...DEFAULT_LOCAL_TONE, mode: "clahe", strength: 35 },
+      texture: { ...DEFAULT_TEXTURE, pattern: "stipple", strength: 30 },
+      face: { ...DEFAULT_FACE, skinDetail: 90, hairDetail: 150 },
+      subjectMask: "off",
+      maskTolerance: 35,
+      maskFeather: 3
+    },
+    builtIn: true
+  },
+  {
+    id: "builtin-high-sheen-couture",
+    name: "High Sheen Couture",
+    settings: {
+      depth: 84,
+      luminosity: 4,
+      sheen: 100,
+      matte: 28,
+      smoothing: { ...DEFAULT_SMOOTHING, mode: "domain", domainStrength: 26, domainEdges: 70 },
+      microDetail: 54,
+      backgroundLift: 92,
+      macroZoom: 30,
+      focusX: 50,
+      focusY: 50,
+      pedestal: { ...DEFAULT_PEDESTAL, shape: "column", height: 18, width: 43 },
+      vignette: 48,
+      material: "plaster",
+      lighting: "contour",
+      lights: DEFAULT_LIGHTS,
+      toneCurve: {
+        ...DEFAULT_TONE_CURVE,
+        points: [
+          [0, 0],
+          [64, 52],
+          [192, 206],
+          [255, 255]
+        ]
+      },
+      localTone: DEFAULT_LOCAL_TONE,
+      texture: DEFAULT_TEXTURE,
+      face: { ...DEFAULT_FACE, framingSize: 34, skinSmoothing: 170 },
+      subjectMask: "off",
+      maskTolerance: 35,
+      maskFeather: 3
+    },
+    builtIn: true
+  }
+];
+
+export const createPresetId = () =>
+  `preset-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const parsePresetEntry = (raw: unknown, index: number): EffectPreset => {
+  const label = `presets[${index}]`;
+  if (typeof raw !== "object" || raw === null) {
+    throw new Error(`${label} must be an object`);
+  }
+
+  const { id, name, settings } = raw as {
+    id?: unknown;
+    name?: unknown;
+    settings?: unknown;
+  };
+  if (typeof name !== "string" || name.trim().length === 0) {
+    throw new Error(`${label}.name must be a non-empty string`);
+  }
+
+  return {
+    id: typeof id === "string" && id.length > 0 ? id : createPresetId(),
+    name: name.trim(),
+    settings: parseSettings(settings, `${label}.settings`)
+  };
+};
+
+export const serializePresets = (presets: readonly EffectPreset[]) =>
+  JSON.stringify(
+    {
+      format: FILE_FORMAT,
+      version: PRESET_FILE_VERSION,
+      presets: presets.map(({ id, name, settings }) => ({ id, name, settings }))
+    },
+    null,
+    2
+  );
+
+export const parsePresetFile = (text: string) => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error("Preset file is not valid JSON");
+  }
+
+  const file = raw as { format?: unknown; version?: unknown; presets?: unknown };
+  if (typeof raw !== "object" || raw === null || file.format !== FILE_FORMAT) {
+    throw new Error("Not a plaster studio preset file");
+  }
+  if (typeof file.version !== "number" || file.version > PRESET_FILE_VERSION) {
+    throw new Error(`Unsupported preset file version ${String(file.version)}`);
+  }
+  if (!Array.isArray(file.presets)) {
+    throw new Error("Preset file has no presets list");
+  }
+
+  return file.presets.map(parsePresetEntry);
+};
+
+export const loadStoredPresets = (): EffectPreset[] => {
+  if (typeof localStorage === "undefined") return [];
+  const stored = localStorage.getItem(STORAGE_KEY);
+  if (!stored) return [];
+
+  try {
+    return parsePresetFile(stored);
+  } catch (error) {
+    console.error(error);
+    return [];
+  }
+};
+
+export const storePresets = (presets: readonly EffectPreset[]) => {
+  if (typeof localStorage === "undefined") return;
+  localStorage.setItem(
+    STORAGE_KEY,
+    serializePresets(presets.filter((preset) => !preset.builtIn))
+  );
+};
@@ -0,0 +1,157 @@
+import { readRecipeText } from "./image-metadata";
+import { OUTPUT_FORMATS, type OutputFormat, validateOutputFormat } from "./output-format";
+import type { EffectSettings } from "./plaster-effect";
+import { DEFAULT_SETTINGS, diffSettings, parseSettings } from "./settings-schema";
+
+export const APP_NAME = "Macro Plaster Studio";
+export const APP_VERSION = "1.0.0";
+export const APP_SOFTWARE = `${APP_NAME} ${APP_VERSION}`;
+
+const RECIPE_FORMAT = "plaster-studio-recipe";
+
+// The look an image was rendered with, as embedded in exported files.
+export interface EffectRecipe {
+  version: string;
+  settings: EffectSettings;
+}
+
+export const serializeRecipe = (settings: EffectSettings) =>
+  JSON.stringify({ format: RECIPE_FORMAT, version: APP_VERSION, settings });
+
+export const parseRecipe = (text: string): EffectRecipe => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error("Recipe is not valid JSON");
+  }
+
+  const recipe = raw as { format?: unknown; version?: unknown; settings?: unknown };
+  if (typeof raw !== "object" || raw === null || recipe.format !== RECIPE_FORMAT) {
+    throw new Error("Not a plaster studio recipe");
+  }
+
+  return {
+    version: typeof recipe.version === "string" ? recipe.version : "unknown",
+    settings: parseSettings(recipe.settings, "recipe.settings")
+  };
+};
+
+export const readImageRecipe = async (blob: Blob) => {
+  const text = readRecipeText(new Uint8Array(await blob.arrayBuffer()));
+  return text ? parseRecipe(text) : null;
+};
+
+// Shareable links carry the look in the URL fragment as
+// `#look=<version>.<base64url JSON>`. Only settings that differ from
+// DEFAULT_SETTINGS are written, so changing a default means bumping
+// RECIPE_URL_VERSION with a migration that restores the old value.
+export const RECIPE_URL_VERSION = 1;
+const FRAGMENT_KEY = "look";
+
+export interface SharedLook {
+  settings: EffectSettings;
+  outputFormat: OutputFormat | null;
+}
+
+type LookPayload = Record<string, unknown>;
+
+const isPayload = (value: unknown): value is LookPayload =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// Spells out settings that a version left implicit because they matched
+// its defaults, so a later migration or parseSettings can map them across.
+// Groups merge field by field, since a link keeps only a group's changes.
+const withOldDefaults = (payload: LookPayload, defaults: LookPayload) => {
+  const settings = payload.s ?? {};
+  if (!isPayload(settings)) return payload;
+  const merged: LookPayload = { ...defaults, ...settings };
+  for (const [key, value] of Object.entries(defaults)) {
+    if (isPayload(value) && isPayload(settings[key])) {
+      merged[key] = { ...value, ...settings[key] };
+    }
+  }
+  return { ...payload, s: merged };
+};
+
+// MIGRATIONS[n] upgrades a version-n payload to version n + 1. Version 1
+// is the first link format, so there is nothing to upgrade yet.
+const MIGRATIONS: Record<number, (payload: LookPayload) => LookPayload> = {};
+
+const toBase64Url = (text: string) =>
+  btoa(
+    Array.from(new TextEncoder().encode(text), (byte) => String.fromCharCode(byte)).join("")
+  )
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+
+const fromBase64Url = (encoded: string) => {
+  const binary = atob(encoded.replace(/-/g, "+").replace(/_/g, "/"));
+  return new TextDecoder().decode(Uint8Array.from(binary, (char) => char.charCodeAt(0)));
+};
+
+export const encodeLookFragment = (settings: EffectSettings, outputFormat: OutputFormat) => {
+  const preset = OUTPUT_FORMATS.some((format) => format.id === outputFormat.id);
+  const payload: LookPayload = {
+    s: diffSettings(settings, DEFAULT_SETTINGS),
+    f: preset ? outputFormat.id : [outputFormat.width, outputFormat.height, outputFormat.dpi]
+  };
+  return `${FRAGMENT_KEY}=${RECIPE_URL_VERSION}.${toBase64Url(JSON.stringify(payload))}`;
+};
+
+const parseFormat = (raw: unknown): OutputFormat | null => {
+  if (raw === undefined) return null;
+  if (typeof raw === "string") {
+    const preset = OUTPUT_FORMATS.find((format) => format.id === raw);
+    if (!preset) throw new Error(`Unknown output format "${raw}"`);
+    return preset;
+  }
+  if (!Array.isArray(raw) || raw.length !== 3) {
+    throw new Error("Output format must be a preset id or [width, height, dpi]");
+  }
+  const [width, height, dpi] = raw.map(Number);
+  const custom: OutputFormat = { id: "custom", label: "Custom", width, height, dpi };
+  const problem = validateOutputFormat(custom);
+  if (problem) throw new Error(problem);
+  return custom;
+};
+
+// Returns null when the fragment carries no look; throws when it carries
+// one that cannot be read.
+export const decodeLookFragment = (hash: string): SharedLook | null => {
+  const encoded = new URLSearchParams(hash.replace(/^#/, "")).get(FRAGMENT_KEY);
+  if (!encoded) return null;
+
+  const match = /^(\d+)\.([A-Za-z0-9_-]+)$/.exec(encoded);
+  if (!match) {
+    throw new Error("Shared look link is malformed");
+  }
+  const version = Number(match[1]);
+  if (version > RECIPE_URL_VERSION) {
+    throw new Error("Shared look was made with a newer version of the studio");
+  }
+
+  let payload: unknown;
+  try {
+    payload = JSON.parse(fromBase64Url(match[2]));
+  } catch {
+    throw new Error("Shared look link is corrupted");
+  }
+  if (!isPayload(payload)) {
+    throw new Error("Shared look link is corrupted");
+  }
+
+  let migrated = payload;
+  for (let from = version; from < RECIPE_URL_VERSION; from++) {
+    migrated = MIGRATIONS[from]?.(migrated) ?? migrated;
+  }
+  // Links leave out a face group that matches the default, which
+  // parseSettings would otherwise read as a look from before face detection.
+  migrated = withOldDefaults(migrated, { face: {} });
+
+  return {
+    settings: parseSettings(migrated.s ?? {}, "look", "clamp"),
+    outputFormat: parseFormat(migrated.f)
+  };
+};
@@ -0,0 +1,26 @@
+import { type RenderConfig, type RenderResult, renderPlasterEffect } from "./plaster-effect";
+import { createWebGLRenderer } from "./webgl-renderer";
+
+export type RendererBackend = "canvas2d" | "webgl2";
+
+export interface PlasterRenderer {
+  readonly backend: RendererBackend;
+  render: (config: RenderConfig) => RenderResult;
+  dispose: () => void;
+}
+
+export const createCanvas2DRenderer = (): PlasterRenderer => ({
+  backend: "canvas2d",
+  render: (config) => renderPlasterEffect(config),
+  dispose: () => {}
+});
+
+export const createRenderer = (
+  preference: RendererBackend | "auto" = "auto"
+): PlasterRenderer => {
+  if (preference !== "canvas2d") {
+    const renderer = createWebGLRenderer();
+    if (renderer) return renderer;
+  }
+  return createCanvas2DRenderer();
+};
@@ -0,0 +1,274 @@
+import type { CropRect } from "./crop";
+import { clamp, gaussianBlur } from "./image-filters";
+
+export type SubjectMaskMode = "off" | "auto";
+
+export const SUBJECT_MASK_MODES: readonly SubjectMaskMode[] = ["off", "auto"];
+
+// Brush strokes live in source-image space so they survive re-framing.
+export const REFINE_AUTO = 0;
+export const REFINE_KEEP = 1;
+export const REFINE_REMOVE = 2;
+
+export interface MaskRefinement {
+  width: number;
+  height: number;
+  data: Uint8Array;
+}
+
+export interface FrameCrop extends CropRect {
+  sourceWidth: number;
+  sourceHeight: number;
+}
+
+export const REFINEMENT_LONG_EDGE = 512;
+// Segmentation runs at a fixed working size, so preview and export agree
+// on the mask regardless of output resolution.
+const WORKING_LONG_EDGE = 480;
+const BACKGROUND_CLUSTERS = 4;
+
+export const createRefinement = (sourceWidth: number, sourceHeight: number) => {
+  const scale = REFINEMENT_LONG_EDGE / Math.max(sourceWidth, sourceHeight);
+  const width = Math.max(1, Math.round(sourceWidth * scale));
+  const height = Math.max(1, Math.round(sourceHeight * scale));
+  return { width, height, data: new Uint8Array(width * height) };
+};
+
+export const paintRefinement = (
+  refinement: MaskRefinement,
+  x: number,
+  y: number,
+  radius: number,
+  value: number
+) => {
+  const { width, height, data } = refinement;
+  const r2 = radius * radius;
+  for (let py = Math.max(0, Math.floor(y - radius)); py <= Math.min(height - 1, y + radius); py++) {
+    for (let px = Math.max(0, Math.floor(x - radius)); px <= Math.min(width - 1, x + radius); px++) {
+      if ((px - x) ** 2 + (py - y) ** 2 <= r2) data[py * width + px] = value;
+    }
+  }
+};
+
+const downsample = (data: Uint8ClampedArray, width: number, height: number) => {
+  const scale = Math.min(1, WORKING_LONG_EDGE / Math.max(width, height));
+  const workWidth = Math.max(1, Math.round(width * scale));
+  const workHeight = Math.max(1, Math.round(height * scale));
+  const rgb = new Float32Array(workWidth * workHeight * 3);
+
+  for (let y = 0; y < workHeight; y++) {
+    const y0 = Math.floor((y / workHeight) * height);
+    const y1 = Math.max(y0 + 1, Math.floor(((y + 1) / workHeight) * height));
+    for (let x = 0; x < workWidth; x++) {
+      const x0 = Math.floor((x / workWidth) * width);
+      const x1 = Math.max(x0 + 1, Math.floor(((x + 1) / workWidth) * width));
+      let r = 0;
+      let g = 0;
+      let b = 0;
+      for (let sy = y0; sy < y1; sy++) {
+        for (let sx = x0; sx < x1; sx++) {
+          const index = (sy * width + sx) * 4;
+          r += data[index];
+          g += data[index + 1];
+          b += data[index + 2];
+        }
+      }
+      const count = (y1 - y0) * (x1 - x0);
+      const target = (y * workWidth + x) * 3;
+      rgb[target] = r / count;
+      rgb[target + 1] = g / count;
+      rgb[target + 2] = b / count;
+    }
+  }
+
+  return { rgb, workWidth, workHeight };
+};
+
+const colourDistance = (rgb: Float32Array, index: number, centre: Float32Array, offset: number) =>
+  Math.hypot(
+    rgb[index * 3] - centre[offset],
+    rgb[index * 3 + 1] - centre[offset + 1],
+    rgb[index * 3 + 2] - centre[offset + 2]
+  );
+
+// A handful of k-means clusters over the frame border approximate the
+// backdrop, which is rarely a single flat colour.
+const backgroundModel = (rgb: Float32Array, border: readonly number[]) => {
+  const centres = new Float32Array(BACKGROUND_CLUSTERS * 3);
+  for (let k = 0; k < BACKGROUND_CLUSTERS; k++) {
+    const seed = border[Math.floor(((k + 0.5) / BACKGROUND_CLUSTERS) * border.length)];
+    centres.set(rgb.subarray(seed * 3, seed * 3 + 3), k * 3);
+  }
+
+  const sums = new Float64Array(BACKGROUND_CLUSTERS * 4);
+  for (let iteration = 0; iteration < 6; iteration++) {
+    sums.fill(0);
+    for (const index of border) {
+      let best = 0;
+      let bestDistance = Infinity;
+      for (let k = 0; k < BACKGROUND_CLUSTERS; k++) {
+        const distance = colourDistance(rgb, index, centres, k * 3);
+        if (distance < bestDistance) {
+          bestDistance = distance;
+          best = k;
+        }
+      }
+      sums[best * 4] += rgb[index * 3];
+      sums[best * 4 + 1] += rgb[index * 3 + 1];
+      sums[best * 4 + 2] += rgb[index * 3 + 2];
+      sums[best * 4 + 3]++;
+    }
+    for (let k = 0; k < BACKGROUND_CLUSTERS; k++) {
+      const count = sums[k * 4 + 3];
+      if (count === 0) continue;
+      centres[k * 3] = sums[k * 4] / count;
+      centres[k * 3 + 1] = sums[k * 4 + 1] / count;
+      centres[k * 3 + 2] = sums[k * 4 + 2] / count;
+    }
+  }
+
+  return (index: number) => {
+    let nearest = Infinity;
+    for (let k = 0; k < BACKGROUND_CLUSTERS; k++) {
+      nearest = Math.min(nearest, colourDistance(rgb, index, centres, k * 3));
+    }
+    return nearest;
+  };
+};
+
+// Maps the brush layer onto the working grid of the cropped frame.
+const sampleRefinement = (
+  refinement: MaskRefinement,
+  crop: FrameCrop,
+  workWidth: number,
+  workHeight: number
+) => {
+  const constraint = new Uint8Array(workWidth * workHeight);
+  for (let y = 0; y < workHeight; y++) {
+    const sourceY = crop.offsetY + ((y + 0.5) / workHeight) * crop.cropHeight;
+    const ry = clamp(
+      Math.floor((sourceY / crop.sourceHeight) * refinement.height),
+      0,
+      refinement.height - 1
+    );
+    for (let x = 0; x < workWidth; x++) {
+      const sourceX = crop.offsetX + ((x + 0.5) / workWidth) * crop.cropWidth;
+      const rx = clamp(
+        Math.floor((sourceX / crop.sourceWidth) * refinement.width),
+        0,
+        refinement.width - 1
+      );
+      constraint[y * workWidth + x] = refinement.data[ry * refinement.width + rx];
+    }
+  }
+  return constraint;
+};
+
+const upsample = (
+  mask: Float32Array,
+  workWidth: number,
+  workHeight: number,
+  width: number,
+  height: number
+) => {
+  const result = new Float32Array(width * height);
+  for (let y = 0; y < height; y++) {
+    const fy = clamp(((y + 0.5) / height) * workHeight - 0.5, 0, workHeight - 1);
+    const y0 = Math.floor(fy);
+    const y1 = Math.min(workHeight - 1, y0 + 1);
+    const ty = fy - y0;
+    for (let x = 0; x < width; x++) {
+      const fx = clamp(((x + 0.5) / width) * workWidth - 0.5, 0, workWidth - 1);
+      const x0 = Math.floor(fx);
+      const x1 = Math.min(workWidth - 1, x0 + 1);
+      const tx = fx - x0;
+      const top = mask[y0 * workWidth + x0] * (1 - tx) + mask[y0 * workWidth + x1] * tx;
+      const bottom = mask[y1 * workWidth + x0] * (1 - tx) + mask[y1 * workWidth + x1] * tx;
+      result[y * width + x] = top * (1 - ty) + bottom * ty;
+    }
+  }
+  return result;
+};
+
+// Colour-distance region growing seeded from the frame edges: anything
+// reachable from them through backdrop-coloured pixels is background,
+// everything else is the subject. Returns per-pixel coverage in 0-1.
+export const estimateSubjectMask = (
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  tolerance: number,
+  feather: number,
+  refinement: MaskRefinement | null = null,
+  crop: FrameCrop | null = null
+) => {
+  const { rgb, workWidth, workHeight } = downsample(data, width, height);
+  const total = workWidth * workHeight;
+  const constraint =
+    refinement && crop ? sampleRefinement(refinement, crop, workWidth, workHeight) : null;
+
+  // Busts run off the bottom of the frame, so only the top edge and the
+  // upper two thirds of the sides seed the backdrop.
+  const border: number[] = [];
+  for (let x = 0; x < workWidth; x++) border.push(x);
+  for (let y = 1; y < Math.round(workHeight * 0.66); y++) {
+    border.push(y * workWidth, y * workWidth + workWidth - 1);
+  }
+
+  const distanceToBackground = backgroundModel(rgb, border);
+  const threshold = 8 + clamp(tolerance, 0, 100) * 0.8;
+  // Stops the fill leaking across soft edges between similar colours.
+  const stepThreshold = threshold * 0.4;
+
+  const background = new Uint8Array(total);
+  const queue = new Int32Array(total);
+  let head = 0;
+  let tail = 0;
+  const admit = (index: number) => {
+    background[index] = 1;
+    queue[tail++] = index;
+  };
+
+  for (const index of border) {
+    if (background[index] || constraint?.[index] === REFINE_KEEP) continue;
+    if (distanceToBackground(index) < threshold) admit(index);
+  }
+  if (constraint) {
+    for (let index = 0; index < total; index++) {
+      if (constraint[index] === REFINE_REMOVE && !background[index]) admit(index);
+    }
+  }
+
+  while (head < tail) {
+    const index = queue[head++];
+    const x = index % workWidth;
+    const y = (index - x) / workWidth;
+    const neighbours = [
+      x > 0 ? index - 1 : -1,
+      x < workWidth - 1 ? index + 1 : -1,
+      y > 0 ? index - workWidth : -1,
+      y < workHeight - 1 ? index + workWidth : -1
+    ];
+    for (const next of neighbours) {
+      if (next < 0 || background[next] || constraint?.[next] === REFINE_KEEP) continue;
+      const step = Math.hypot(
+        rgb[next * 3] - rgb[index * 3],
+        rgb[next * 3 + 1] - rgb[index * 3 + 1],
+        rgb[next * 3 + 2] - rgb[index * 3 + 2]
+      );
+      if (step < stepThreshold && distanceToBackground(next) < threshold) admit(next);
+    }
+  }
+
+  let mask: Float32Array = new Float32Array(total);
+  for (let index = 0; index < total; index++) {
+    mask[index] = background[index] ? 0 : 1;
+  }
+
+  const featherRadius = Math.round(clamp(feather, 0, 20));
+  if (featherRadius > 0) {
+    mask = gaussianBlur(mask, workWidth, workHeight, featherRadius);
+  }
+
+  return upsample(mask, workWidth, workHeight, width, height);
+};
@@ -0,0 +1,120 @@
+import type { EditHistory, HistoryEntry } from "./edit-history";
+import { DEFAULT_PIPELINE } from "./effect-stages";
+import {
+  DEFAULT_OUTPUT_FORMAT,
+  type OutputFormat,
+  validateOutputFormat
+} from "./output-format";
+import type { EffectSettings } from "./plaster-effect";
+import { type PipelineEntry, reconcilePipeline } from "./pipeline";
+import type { MaskRefinement } from "./segmentation";
+import { parseSettings } from "./settings-schema";
+
+export interface EditSnapshot {
+  settings: EffectSettings;
+  pipeline: readonly PipelineEntry[];
+}
+
+export interface EditSession {
+  id: string;
+  name: string;
+  image: Blob;
+  thumbnail: Blob | null;
+  history: readonly Omit<HistoryEntry<EditSnapshot>, "id">[];
+  historyIndex: number;
+  outputFormat: OutputFormat;
+  refinement: MaskRefinement | null;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type SessionSummary = Pick<EditSession, "id" | "name" | "thumbnail" | "updatedAt">;
+
+const DB_NAME = "plaster-studio";
+const DB_VERSION = 1;
+const STORE = "sessions";
+
+export const createSessionId = () =>
+  `session-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const request = <T>(req: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error ?? new Error("IndexedDB request failed"));
+  });
+
+let database: Promise<IDBDatabase> | null = null;
+
+const openDatabase = () => {
+  if (typeof indexedDB === "undefined") {
+    return Promise.reject(new Error("Saved sessions need IndexedDB"));
+  }
+  database ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const open = indexedDB.open(DB_NAME, DB_VERSION);
+    open.onupgradeneeded = () => {
+      if (!open.result.objectStoreNames.contains(STORE)) {
+        open.result.createObjectStore(STORE, { keyPath: "id" });
+      }
+    };
+    open.onsuccess = () => resolve(open.result);
+    open.onerror = () => {
+      database = null;
+      reject(open.error ?? new Error("Unable to open session storage"));
+    };
+  });
+  return database;
+};
+
+const withStore = async <T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+) => {
+  const db = await openDatabase();
+  return request(run(db.transaction(STORE, mode).objectStore(STORE)));
+};
+
+export const toStoredHistory = (history: EditHistory<EditSnapshot>) =>
+  history.entries.map(({ label, value, timestamp, coalesceKey }) => ({
+    label,
+    value,
+    timestamp,
+    coalesceKey
+  }));
+
+export const saveSession = (session: EditSession) =>
+  withStore("readwrite", (store) => store.put(session)).then(() => undefined);
+
+export const deleteSession = (id: string) =>
+  withStore("readwrite", (store) => store.delete(id)).then(() => undefined);
+
+export const listSessions = async (): Promise<SessionSummary[]> => {
+  const sessions = await withStore<EditSession[]>("readonly", (store) => store.getAll());
+  return sessions
+    .map(({ id, name, thumbnail, updatedAt }) => ({ id, name, thumbnail, updatedAt }))
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+// Sessions outlive schema changes, so stored settings go through the same
+// lenient validation as shared look links.
+export const loadSession = async (id: string): Promise<EditSession> => {
+  const session = await withStore<EditSession | undefined>("readonly", (store) =>
+    store.get(id)
+  );
+  if (!session) {
+    throw new Error("Session not found");
+  }
+
+  return {
+    ...session,
+    history: session.history.map((entry, index) => ({
+      ...entry,
+      value: {
+        settings: parseSettings(entry.value.settings, `history[${index}].settings`, "clamp"),
+        pipeline: reconcilePipeline(entry.value.pipeline, DEFAULT_PIPELINE)
+      }
+    })),
+    outputFormat: validateOutputFormat(session.outputFormat)
+      ? DEFAULT_OUTPUT_FORMAT
+      : session.outputFormat
+  };
+};
@@ -0,0 +1,483 @@
+import {
+  DEFAULT_FACE,
+  FACE_FRAMINGS,
+  FACE_MODES,
+  type FaceSettings,
+  VIGNETTE_ANCHORS
+} from "./face";
+import {
+  DEFAULT_LIGHTS,
+  LIGHTING_MODES,
+  LIGHT_ROLES,
+  type LightRig,
+  type LightSettings
+} from "./lighting";
+import { DEFAULT_LOCAL_TONE, LOCAL_TONE_MODES, type LocalToneSettings } from "./local-tone";
+import { MATERIAL_IDS } from "./materials";
+import {
+  DEFAULT_PEDESTAL,
+  PEDESTAL_SHAPES,
+  type PedestalSettings,
+  legacyPedestal
+} from "./pedestal";
+import {
+  DEFAULT_SMOOTHING,
+  SMOOTHING_MODES,
+  type SmoothingSettings,
+  legacySmoothing
+} from "./smoothing";
+import { DEFAULT_TEXTURE, TEXTURE_PATTERNS, type TextureSettings } from "./texture";
+import {
+  type CurvePoint,
+  DEFAULT_TONE_CURVE,
+  MAX_CURVE_POINTS,
+  type ToneCurveSettings
+} from "./tone-curve";
+import type { EffectSettings } from "./plaster-effect";
+import { SUBJECT_MASK_MODES } from "./segmentation";
+
+export interface SettingRange {
+  min: number;
+  max: number;
+}
+
+type KeysOfType<T, V> = { [K in keyof T]: T[K] extends V ? K : never }[keyof T];
+
+export type NumericSettingKey = KeysOfType<EffectSettings, number>;
+
+export type ChoiceSettingKey = KeysOfType<EffectSettings, string>;
+
+// Ranges offered by the sidebar sliders. They sit inside the clamps the
+// renderer applies, so anything that validates here renders as previewed.
+export const SETTING_RANGES: Record<NumericSettingKey, SettingRange> = {
+  depth: { min: 0, max: 100 },
+  luminosity: { min: -50, max: 50 },
+  sheen: { min: 0, max: 100 },
+  matte: { min: 0, max: 100 },
+  microDetail: { min: 0, max: 100 },
+  backgroundLift: { min: 0, max: 100 },
+  macroZoom: { min: 0, max: 40 },
+  focusX: { min: 0, max: 100 },
+  focusY: { min: 0, max: 100 },
+  vignette: { min: 0, max: 60 },
+  maskTolerance: { min: 0, max: 100 },
+  maskFeather: { min: 0, max: 20 }
+};
+
+// The clamps the render stages apply to each setting. Lenient parsing pulls
+// values into these, so a clamped value renders exactly like the original.
+export const RENDER_CLAMPS: Record<NumericSettingKey, SettingRange> = {
+  depth: { min: 0, max: 100 },
+  luminosity: { min: -50, max: 50 },
+  sheen: { min: 0, max: 100 },
+  matte: { min: 0, max: 100 },
+  microDetail: { min: 0, max: 100 },
+  backgroundLift: { min: 0, max: 100 },
+  macroZoom: { min: 0, max: 60 },
+  focusX: { min: 0, max: 100 },
+  focusY: { min: 0, max: 100 },
+  vignette: { min: 0, max: 100 },
+  maskTolerance: { min: 0, max: 100 },
+  maskFeather: { min: 0, max: 20 }
+};
+
+export const DEFAULT_SETTINGS: EffectSettings = {
+  depth: 62,
+  luminosity: 8,
+  sheen: 68,
+  matte: 40,
+  smoothing: DEFAULT_SMOOTHING,
+  microDetail: 48,
+  backgroundLift: 72,
+  macroZoom: 18,
+  focusX: 50,
+  focusY: 50,
+  pedestal: DEFAULT_PEDESTAL,
+  vignette: 36,
+  material: "plaster",
+  lighting: "contour",
+  lights: DEFAULT_LIGHTS,
+  toneCurve: DEFAULT_TONE_CURVE,
+  localTone: DEFAULT_LOCAL_TONE,
+  texture: DEFAULT_TEXTURE,
+  face: DEFAULT_FACE,
+  subjectMask: "off",
+  maskTolerance: 35,
+  maskFeather: 3
+};
+
+export const LIGHT_RANGES: Record<keyof LightSettings, SettingRange> = {
+  azimuth: { min: 0, max: 360 },
+  elevation: { min: 0, max: 90 },
+  intensity: { min: 0, max: 100 },
+  softness: { min: 0, max: 100 }
+};
+
+// Nested setting groups such as the pedestal: slider ranges, render clamps
+// and choice lists for their fields.
+interface SettingGroupSchema<T> {
+  ranges: Record<KeysOfType<T, number>, SettingRange>;
+  clamps: Record<KeysOfType<T, number>, SettingRange>;
+  choices: { [K in KeysOfType<T, string>]: readonly T[K][] };
+}
+
+export const PEDESTAL_SCHEMA: SettingGroupSchema<PedestalSettings> = {
+  ranges: {
+    height: { min: 10, max: 40 },
+    width: { min: 20, max: 70 },
+    contactShadow: { min: 0, max: 100 }
+  },
+  clamps: {
+    height: { min: 10, max: 45 },
+    width: { min: 20, max: 80 },
+    contactShadow: { min: 0, max: 100 }
+  },
+  choices: {
+    shape: PEDESTAL_SHAPES,
+    material: MATERIAL_IDS
+  }
+};
+
+const SMOOTHING_RANGES = {
+  gaussianStrength: { min: 0, max: 100 },
+  bilateralStrength: { min: 0, max: 100 },
+  bilateralEdges: { min: 0, max: 100 },
+  guidedStrength: { min: 0, max: 100 },
+  guidedEdges: { min: 0, max: 100 },
+  domainStrength: { min: 0, max: 100 },
+  domainEdges: { min: 0, max: 100 }
+};
+
+export const SMOOTHING_SCHEMA: SettingGroupSchema<SmoothingSettings> = {
+  ranges: SMOOTHING_RANGES,
+  clamps: SMOOTHING_RANGES,
+  choices: {
+    mode: SMOOTHING_MODES
+  }
+};
+
+const TONE_CURVE_RANGES = {
+  shadowSplit: { min: 0, max: 160 },
+  highlightSplit: { min: 120, max: 255 },
+  shadows: { min: -50, max: 50 },
+  midtones: { min: -50, max: 50 },
+  highlights: { min: -50, max: 50 }
+};
+
+// The curve's points are parsed separately; see parseCurvePoints.
+export const TONE_CURVE_SCHEMA: SettingGroupSchema<ToneCurveSettings> = {
+  ranges: TONE_CURVE_RANGES,
+  clamps: TONE_CURVE_RANGES,
+  choices: {}
+};
+
+const LOCAL_TONE_RANGES = {
+  strength: { min: 0, max: 100 },
+  clipLimit: { min: 0, max: 100 },
+  scale: { min: 0, max: 100 }
+};
+
+export const LOCAL_TONE_SCHEMA: SettingGroupSchema<LocalToneSettings> = {
+  ranges: LOCAL_TONE_RANGES,
+  clamps: LOCAL_TONE_RANGES,
+  choices: {
+    mode: LOCAL_TONE_MODES
+  }
+};
+
+const TEXTURE_RANGES = {
+  scale: { min: 0, max: 100 },
+  strength: { min: 0, max: 100 },
+  directionality: { min: 0, max: 100 },
+  angle: { min: 0, max: 180 },
+  seed: { min: 0, max: 99999 }
+};
+
+export const TEXTURE_SCHEMA: SettingGroupSchema<TextureSettings> = {
+  ranges: TEXTURE_RANGES,
+  clamps: TEXTURE_RANGES,
+  choices: {
+    pattern: TEXTURE_PATTERNS
+  }
+};
+
+const FACE_RANGES = {
+  framingSize: { min: 10, max: 60 },
+  featureDetail: { min: 0, max: 200 },
+  featureSmoothing: { min: 0, max: 200 },
+  skinDetail: { min: 0, max: 200 },
+  skinSmoothing: { min: 0, max: 200 },
+  hairDetail: { min: 0, max: 200 },
+  hairSmoothing: { min: 0, max: 200 }
+};
+
+export const FACE_SCHEMA: SettingGroupSchema<FaceSettings> = {
+  ranges: FACE_RANGES,
+  clamps: { ...FACE_RANGES, framingSize: { min: 10, max: 80 } },
+  choices: {
+    mode: FACE_MODES,
+    framing: FACE_FRAMINGS,
+    vignette: VIGNETTE_ANCHORS
+  }
+};
+
+// Settings picked from a fixed list rather than a slider.
+export const SETTING_CHOICES: { [K in ChoiceSettingKey]: readonly EffectSettings[K][] } = {
+  material: MATERIAL_IDS,
+  lighting: LIGHTING_MODES,
+  subjectMask: SUBJECT_MASK_MODES
+};
+
+const numericKeys = Object.keys(SETTING_RANGES) as NumericSettingKey[];
+const choiceKeys = Object.keys(SETTING_CHOICES) as ChoiceSettingKey[];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// Strict parsing rejects out-of-range numbers; clamp parsing accepts them
+// and pulls them into the renderer's clamps instead.
+export type ParseMode = "strict" | "clamp";
+
+const readNumber = (
+  value: unknown,
+  { min, max }: SettingRange,
+  label: string,
+  mode: ParseMode = "strict"
+) => {
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    throw new Error(`${label} must be a number`);
+  }
+  if (mode === "clamp") {
+    return Math.min(max, Math.max(min, value));
+  }
+  if (value < min || value > max) {
+    throw new Error(`${label} must be between ${min} and ${max}`);
+  }
+  return value;
+};
+
+const parseLights = (raw: unknown, label: string, mode: ParseMode): LightRig => {
+  if (!isRecord(raw)) {
+    throw new Error(`${label} must be an object`);
+  }
+
+  const rig = { ...DEFAULT_LIGHTS };
+  for (const role of LIGHT_ROLES) {
+    if (!(role in raw)) continue;
+    const light = raw[role];
+    if (!isRecord(light)) {
+      throw new Error(`${label}.${role} must be an object`);
+    }
+    const parsed = { ...DEFAULT_LIGHTS[role] };
+    for (const key of Object.keys(LIGHT_RANGES) as (keyof LightSettings)[]) {
+      if (!(key in light)) continue;
+      const value = light[key];
+      // Azimuth only feeds sin/cos, so the renderer effectively wraps it.
+      const wrapped =
+        mode === "clamp" && key === "azimuth" && typeof value === "number"
+          ? ((value % 360) + 360) % 360
+          : value;
+      parsed[key] = readNumber(wrapped, LIGHT_RANGES[key], `${label}.${role}.${key}`, mode);
+    }
+    rig[role] = parsed;
+  }
+  return rig;
+};
+
+const readChoice = (value: unknown, choices: readonly unknown[], label: string) => {
+  if (!choices.includes(value)) {
+    throw new Error(`${label} must be one of ${choices.join(", ")}`);
+  }
+  return value;
+};
+
+const parseGroup = <T extends object>(
+  raw: unknown,
+  base: T,
+  schema: SettingGroupSchema<T>,
+  label: string,
+  mode: ParseMode
+): T => {
+  if (!isRecord(raw)) {
+    throw new Error(`${label} must be an object`);
+  }
+
+  const group: Record<string, unknown> = { ...(base as Record<string, unknown>) };
+  const ranges: Record<string, SettingRange> = mode === "clamp" ? schema.clamps : schema.ranges;
+  for (const [key, range] of Object.entries(ranges)) {
+    if (!(key in raw)) continue;
+    group[key] = readNumber(raw[key], range, `${label}.${key}`, mode);
+  }
+  for (const [key, choices] of Object.entries<readonly unknown[]>(schema.choices)) {
+    if (!(key in raw)) continue;
+    group[key] = readChoice(raw[key], choices, `${label}.${key}`);
+  }
+  return group as T;
+};
+
+// At least the two end points, inputs strictly ascending. Clamp mode
+// pulls values into 0-255, sorts, and drops repeated inputs and extras.
+const parseCurvePoints = (raw: unknown, label: string, mode: ParseMode): CurvePoint[] => {
+  if (!Array.isArray(raw)) {
+    throw new Error(`${label} must be an array`);
+  }
+  const range = { min: 0, max: 255 };
+  let points = raw.map((point, index): CurvePoint => {
+    if (!Array.isArray(point) || point.length !== 2) {
+      throw new Error(`${label}[${index}] must be an [input, output] pair`);
+    }
+    return [
+      readNumber(point[0], range, `${label}[${index}][0]`, mode),
+      readNumber(point[1], range, `${label}[${index}][1]`, mode)
+    ];
+  });
+
+  if (mode === "clamp") {
+    points = points
+      .sort((a, b) => a[0] - b[0])
+      .filter((point, index, all) => index === 0 || point[0] !== all[index - 1][0])
+      .slice(0, MAX_CURVE_POINTS);
+  }
+  if (points.length < 2 || points.length > MAX_CURVE_POINTS) {
+    throw new Error(`${label} must have between 2 and ${MAX_CURVE_POINTS} points`);
+  }
+  if (points.some((point, index) => index > 0 && point[0] <= points[index - 1][0])) {
+    throw new Error(`${label} inputs must be strictly ascending`);
+  }
+  return points;
+};
+
+// Strict parse: every present field must be a finite number within its
+// slider range, or one of its listed choices. Missing fields fall back to
+// the defaults, except a missing face group, which means a look from
+// before face detection. In clamp mode numbers are pulled into RENDER_CLAMPS.
+export const parseSettings = (
+  raw: unknown,
+  label = "settings",
+  mode: ParseMode = "strict"
+): EffectSettings => {
+  if (!isRecord(raw)) {
+    throw new Error(`${label} must be an object`);
+  }
+
+  const settings = { ...DEFAULT_SETTINGS };
+  for (const key of numericKeys) {
+    if (!(key in raw)) continue;
+    const range = mode === "clamp" ? RENDER_CLAMPS[key] : SETTING_RANGES[key];
+    settings[key] = readNumber(raw[key], range, `${label}.${key}`, mode);
+  }
+
+  for (const key of choiceKeys) {
+    if (!(key in raw)) continue;
+    Object.assign(settings, {
+      [key]: readChoice(raw[key], SETTING_CHOICES[key], `${label}.${key}`)
+    });
+  }
+
+  if ("lights" in raw) {
+    settings.lights = parseLights(raw.lights, `${label}.lights`, mode);
+  }
+
+  // Settings saved before the smoothing modes carry a single `smoothness`.
+  if ("smoothness" in raw) {
+    const range = SMOOTHING_SCHEMA.ranges.gaussianStrength;
+    settings.smoothing = legacySmoothing(
+      readNumber(raw.smoothness, range, `${label}.smoothness`, mode)
+    );
+  }
+  if ("smoothing" in raw) {
+    const base = settings.smoothing;
+    const field = `${label}.smoothing`;
+    settings.smoothing = parseGroup(raw.smoothing, base, SMOOTHING_SCHEMA, field, mode);
+  }
+
+  // Settings saved before the pedestal carry a flat `standHeight` instead.
+  if ("standHeight" in raw) {
+    const range = mode === "clamp" ? PEDESTAL_SCHEMA.clamps.height : PEDESTAL_SCHEMA.ranges.height;
+    const standHeight = readNumber(raw.standHeight, range, `${label}.standHeight`, mode);
+    settings.pedestal = legacyPedestal(standHeight, settings.depth);
+  }
+  if ("pedestal" in raw) {
+    const base = settings.pedestal;
+    settings.pedestal = parseGroup(raw.pedestal, base, PEDESTAL_SCHEMA, `${label}.pedestal`, mode);
+  }
+  if ("toneCurve" in raw) {
+    const field = `${label}.toneCurve`;
+    const curve = parseGroup(raw.toneCurve, DEFAULT_TONE_CURVE, TONE_CURVE_SCHEMA, field, mode);
+    const points = isRecord(raw.toneCurve) ? raw.toneCurve.points : undefined;
+    if (points !== undefined) {
+      curve.points = parseCurvePoints(points, `${field}.points`, mode);
+    }
+    // Each split clamps into its own range, and those ranges overlap, so a
+    // clamped curve lifts its highlight split clear of the shadow one.
+    if (curve.highlightSplit <= curve.shadowSplit) {
+      if (mode !== "clamp") {
+        throw new Error(`${field}.highlightSplit must be above shadowSplit`);
+      }
+      curve.highlightSplit = Math.min(TONE_CURVE_RANGES.highlightSplit.max, curve.shadowSplit + 1);
+    }
+    settings.toneCurve = curve;
+  }
+  if ("localTone" in raw) {
+    const base = DEFAULT_LOCAL_TONE;
+    const field = `${label}.localTone`;
+    settings.localTone = parseGroup(raw.localTone, base, LOCAL_TONE_SCHEMA, field, mode);
+  }
+  if ("texture" in raw) {
+    const base = DEFAULT_TEXTURE;
+    settings.texture = parseGroup(raw.texture, base, TEXTURE_SCHEMA, `${label}.texture`, mode);
+  }
+  // Settings saved before face detection were framed and vignetted by the
+  // manual geometry alone, so they keep it off.
+  settings.face =
+    "face" in raw
+      ? parseGroup(raw.face, DEFAULT_FACE, FACE_SCHEMA, `${label}.face`, mode)
+      : { ...DEFAULT_FACE, mode: "off" };
+
+  return settings;
+};
+
+type Overrides<T> = {
+  [K in keyof T]?: T[K] extends readonly unknown[]
+    ? T[K]
+    : T[K] extends object
+      ? Overrides<T[K]>
+      : T[K];
+};
+
+// Only the fields a look changes relative to another; groups such as the
+// light rig keep just their changed fields.
+export type SettingsOverrides = Overrides<EffectSettings>;
+
+// Lists such as curve points are one value: compared and replaced whole.
+const sameValue = (a: unknown, b: unknown) =>
+  a === b || (Array.isArray(a) && Array.isArray(b) && JSON.stringify(a) === JSON.stringify(b));
+
+const diffGroup = (value: Record<string, unknown>, base: Record<string, unknown>) => {
+  const changed: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) {
+    const fallback = base[key];
+    if (isRecord(item) && isRecord(fallback)) {
+      const nested = diffGroup(item, fallback);
+      if (Object.keys(nested).length > 0) changed[key] = nested;
+    } else if (!sameValue(item, fallback)) {
+      changed[key] = item;
+    }
+  }
+  return changed;
+};
+
+const mergeGroup = (base: Record<string, unknown>, overrides: Record<string, unknown>) => {
+  const merged = { ...base };
+  for (const [key, item] of Object.entries(overrides)) {
+    const fallback = base[key];
+    merged[key] = isRecord(item) && isRecord(fallback) ? mergeGroup(fallback, item) : item;
+  }
+  return merged;
+};
+
+export const diffSettings = (settings: EffectSettings, base: EffectSettings) =>
+  diffGroup({ ...settings }, { ...base }) as SettingsOverrides;
+
+export const applyOverrides = (base: EffectSettings, overrides: SettingsOverrides) =>
+  mergeGroup({ ...base }, { ...overrides }) as unknown as EffectSettings;
@@ -0,0 +1,125 @@
+import { type SobelGradients, clamp } from "./image-filters";
+import { hash, turbulence, valueNoise } from "./noise";
+
+export type TexturePattern = "off" | "pore" | "stipple" | "brushed" | "rasp";
+
+export interface TextureSettings {
+  pattern: TexturePattern;
+  scale: number; // grain size, fine to coarse
+  strength: number;
+  directionality: number; // how far the grain is drawn out along `angle`
+  angle: number; // stroke direction in degrees clockwise from horizontal
+  seed: number;
+}
+
+export const TEXTURE_PATTERNS: readonly TexturePattern[] = [
+  "off",
+  "pore",
+  "stipple",
+  "brushed",
+  "rasp"
+];
+
+export const DEFAULT_TEXTURE: TextureSettings = {
+  pattern: "off",
+  scale: 30,
+  strength: 40,
+  directionality: 50,
+  angle: 30,
+  seed: 1
+};
+
+// Scattered round marks, one candidate per grain cell. `density` is the
+// share of cells that get one; `signed` lets some marks lighten instead.
+const dots = (u: number, v: number, seed: number, density: number, signed: boolean) => {
+  const cellX = Math.floor(u);
+  const cellY = Math.floor(v);
+  if (hash(cellX, cellY, seed) > density) return 0;
+  const centreX = cellX + 0.4 + 0.2 * hash(cellX, cellY, seed + 1);
+  const centreY = cellY + 0.4 + 0.2 * hash(cellX, cellY, seed + 2);
+  const radius = 0.2 + 0.2 * hash(cellX, cellY, seed + 3);
+  const distance = Math.hypot(u - centreX, v - centreY);
+  if (distance >= radius) return 0;
+  const depth = 1 - (distance / radius) ** 2;
+  const sign = signed && hash(cellX, cellY, seed + 4) > 0.5 ? 1 : -1;
+  return depth * sign;
+};
+
+// Signed grain value, roughly -1 to 1, at grain-space coordinates where
+// `u` runs along the stroke direction.
+type GrainFunction = (u: number, v: number, seed: number) => number;
+
+const PATTERNS: Record<Exclude<TexturePattern, "off">, GrainFunction> = {
+  pore: (u, v, seed) => dots(u, v, seed, 0.35, false),
+  stipple: (u, v, seed) => dots(u * 1.5, v * 1.5, seed, 0.8, true) * 0.7,
+  brushed: (u, v, seed) => (turbulence(u * 0.5, v * 2, seed) - 0.47) * 2.5,
+  // Parallel file grooves, broken into strokes of uneven length.
+  rasp: (u, v, seed) => {
+    const wobble = turbulence(u * 0.3, v * 0.3, seed) * 2;
+    const groove = (1 - Math.abs(Math.sin((v + wobble) * Math.PI))) ** 3;
+    const stroke = valueNoise(u * 0.15, Math.floor(v), seed + 7) > 0.45 ? 1 : 0;
+    return -groove * stroke;
+  }
+};
+
+// Laplacian of the smoothed tone from its Sobel gradients, scaled so 1 is a
+// few times the frame's mean curvature. Positive values are valleys, where
+// recesses catch less light and texture reads strongest.
+const recessMap = (
+  { gradientX, gradientY }: SobelGradients,
+  width: number,
+  height: number
+) => {
+  const recess = new Float32Array(width * height);
+  let total = 0;
+
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const curvature =
+        (gradientX[i + 1] - gradientX[i - 1] + gradientY[i + width] - gradientY[i - width]) / 2;
+      recess[i] = curvature;
+      total += Math.abs(curvature);
+    }
+  }
+
+  const unit = (total / Math.max(1, (width - 2) * (height - 2))) * 4 || 1;
+  for (let i = 0; i < recess.length; i++) {
+    recess[i] = clamp(recess[i] / unit, 0, 1);
+  }
+  return recess;
+};
+
+// Adds seeded grain to the tone map in place. Coordinates are divided by
+// the resolution scale so exports share the preview's grain.
+export const applyTexture = (
+  tone: Float32Array,
+  gradients: SobelGradients, // of the smoothed tone
+  width: number,
+  height: number,
+  texture: TextureSettings,
+  scale: number
+) => {
+  if (texture.pattern === "off") return;
+  const strength = clamp(texture.strength, 0, 100) / 100;
+  if (strength <= 0) return;
+
+  const pattern = PATTERNS[texture.pattern];
+  const seed = Math.round(texture.seed);
+  const grain = (1.5 + (clamp(texture.scale, 0, 100) / 100) * 14.5) * scale;
+  const stretch = 1 + (clamp(texture.directionality, 0, 100) / 100) * 7;
+  const angle = (texture.angle * Math.PI) / 180;
+  const cos = Math.cos(angle) / grain;
+  const sin = Math.sin(angle) / grain;
+  const recess = recessMap(gradients, width, height);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      const u = (x * cos + y * sin) / stretch;
+      const v = -x * sin + y * cos;
+      const weight = 0.5 + 0.5 * recess[i];
+      tone[i] = clamp(tone[i] + pattern(u, v, seed) * weight * strength * 60, 0, 255);
+    }
+  }
+};
@@ -0,0 +1,208 @@
+export type TiffValue =
+  | { type: "byte"; bytes: Uint8Array }
+  | { type: "ascii"; text: string }
+  | { type: "short"; values: readonly number[] }
+  | { type: "long"; values: readonly number[] }
+  | { type: "rational"; values: readonly (readonly [number, number])[] };
+
+export interface TiffTag {
+  tag: number;
+  value: TiffValue;
+}
+
+export const TIFF_TAGS = {
+  imageWidth: 256,
+  imageLength: 257,
+  bitsPerSample: 258,
+  compression: 259,
+  photometric: 262,
+  orientation: 274,
+  stripOffsets: 273,
+  samplesPerPixel: 277,
+  rowsPerStrip: 278,
+  stripByteCounts: 279,
+  xResolution: 282,
+  yResolution: 283,
+  planarConfiguration: 284,
+  resolutionUnit: 296,
+  software: 305,
+  xmp: 700
+} as const;
+
+const TYPE_CODES = { byte: 1, ascii: 2, short: 3, long: 4, rational: 5 } as const;
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1 };
+const ENTRY_SIZE = 12;
+
+export const isTiff = (bytes: Uint8Array) =>
+  (bytes[0] === 0x49 && bytes[1] === 0x49 && bytes[2] === 42 && bytes[3] === 0) ||
+  (bytes[0] === 0x4d && bytes[1] === 0x4d && bytes[2] === 0 && bytes[3] === 42);
+
+const valueCount = (value: TiffValue) => {
+  switch (value.type) {
+    case "byte":
+      return value.bytes.length;
+    case "ascii":
+      return value.text.length + 1;
+    default:
+      return value.values.length;
+  }
+};
+
+const writeValue = (view: DataView, offset: number, value: TiffValue, little: boolean) => {
+  switch (value.type) {
+    case "byte":
+      new Uint8Array(view.buffer, view.byteOffset + offset, value.bytes.length).set(value.bytes);
+      break;
+    case "ascii":
+      for (let i = 0; i < value.text.length; i++) {
+        view.setUint8(offset + i, value.text.charCodeAt(i) & 0x7f);
+      }
+      view.setUint8(offset + value.text.length, 0);
+      break;
+    case "short":
+      value.values.forEach((item, i) => view.setUint16(offset + i * 2, item, little));
+      break;
+    case "long":
+      value.values.forEach((item, i) => view.setUint32(offset + i * 4, item, little));
+      break;
+    case "rational":
+      value.values.forEach(([numerator, denominator], i) => {
+        view.setUint32(offset + i * 8, numerator, little);
+        view.setUint32(offset + i * 8 + 4, denominator, little);
+      });
+      break;
+  }
+};
+
+// Serialises an IFD that will sit at `base` in the file. `kept` holds raw
+// 12-byte entries carried over from an existing IFD; their value offsets
+// stay valid because the data they point at is not moved.
+const buildIfd = (
+  tags: readonly TiffTag[],
+  kept: readonly Uint8Array[],
+  base: number,
+  little: boolean,
+  nextIfd: number
+) => {
+  const entryCount = tags.length + kept.length;
+  const headerSize = 2 + entryCount * ENTRY_SIZE + 4;
+  const overflowSize = tags.reduce((sum, { value }) => {
+    const size = valueCount(value) * TYPE_SIZES[TYPE_CODES[value.type]];
+    return size > 4 ? sum + size + (size % 2) : sum;
+  }, 0);
+
+  const ifd = new Uint8Array(headerSize + overflowSize);
+  const view = new DataView(ifd.buffer);
+  const entries: { tag: number; bytes: Uint8Array }[] = kept.map((bytes) => ({
+    tag: new DataView(bytes.buffer, bytes.byteOffset, 2).getUint16(0, little),
+    bytes
+  }));
+
+  let overflow = headerSize;
+  for (const { tag, value } of tags) {
+    const entry = new Uint8Array(ENTRY_SIZE);
+    const entryView = new DataView(entry.buffer);
+    const type = TYPE_CODES[value.type];
+    const count = valueCount(value);
+    const size = count * TYPE_SIZES[type];
+    entryView.setUint16(0, tag, little);
+    entryView.setUint16(2, type, little);
+    entryView.setUint32(4, count, little);
+    if (size <= 4) {
+      writeValue(entryView, 8, value, little);
+    } else {
+      entryView.setUint32(8, base + overflow, little);
+      writeValue(view, overflow, value, little);
+      overflow += size + (size % 2);
+    }
+    entries.push({ tag, bytes: entry });
+  }
+
+  // Readers expect entries in ascending tag order.
+  entries.sort((a, b) => a.tag - b.tag);
+  view.setUint16(0, entryCount, little);
+  entries.forEach(({ bytes }, index) => ifd.set(bytes, 2 + index * ENTRY_SIZE));
+  view.setUint32(2 + entryCount * ENTRY_SIZE, nextIfd, little);
+  return ifd;
+};
+
+// Baseline little-endian RGB TIFF with 16 bits per sample in one strip,
+// uncompressed for print workflows. Canvas pixels are 8-bit, so each sample
+// is widened (v * 257) to span the full 16-bit range; alpha is dropped.
+export const encodeTiff16 = (
+  rgba: Uint8ClampedArray,
+  width: number,
+  height: number,
+  extraTags: readonly TiffTag[] = []
+) => {
+  const pixelBytes = width * height * 6;
+  const stripOffset = 8;
+  const ifdOffset = stripOffset + pixelBytes + (pixelBytes % 2);
+  const tags: TiffTag[] = [
+    { tag: TIFF_TAGS.imageWidth, value: { type: "long", values: [width] } },
+    { tag: TIFF_TAGS.imageLength, value: { type: "long", values: [height] } },
+    { tag: TIFF_TAGS.bitsPerSample, value: { type: "short", values: [16, 16, 16] } },
+    { tag: TIFF_TAGS.compression, value: { type: "short", values: [1] } },
+    { tag: TIFF_TAGS.photometric, value: { type: "short", values: [2] } },
+    { tag: TIFF_TAGS.stripOffsets, value: { type: "long", values: [stripOffset] } },
+    { tag: TIFF_TAGS.samplesPerPixel, value: { type: "short", values: [3] } },
+    { tag: TIFF_TAGS.rowsPerStrip, value: { type: "long", values: [height] } },
+    { tag: TIFF_TAGS.stripByteCounts, value: { type: "long", values: [pixelBytes] } },
+    { tag: TIFF_TAGS.planarConfiguration, value: { type: "short", values: [1] } },
+    ...extraTags
+  ];
+  const ifd = buildIfd(tags, [], ifdOffset, true, 0);
+
+  const result = new Uint8Array(ifdOffset + ifd.length);
+  const view = new DataView(result.buffer);
+  result.set([0x49, 0x49, 42, 0]);
+  view.setUint32(4, ifdOffset, true);
+  for (let pixel = 0, target = stripOffset; pixel < width * height; pixel++) {
+    for (let channel = 0; channel < 3; channel++, target += 2) {
+      view.setUint16(target, rgba[pixel * 4 + channel] * 257, true);
+    }
+  }
+  result.set(ifd, ifdOffset);
+  return result;
+};
+
+const readFirstIfd = (bytes: Uint8Array) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const little = bytes[0] === 0x49;
+  const offset = view.getUint32(4, little);
+  const count = view.getUint16(offset, little);
+  const entries = Array.from({ length: count }, (_, index) => {
+    const start = offset + 2 + index * ENTRY_SIZE;
+    return { tag: view.getUint16(start, little), start };
+  });
+  const nextIfd = view.getUint32(offset + 2 + count * ENTRY_SIZE, little);
+  return { view, little, entries, nextIfd };
+};
+
+// Sets tags on the first IFD by appending a rewritten copy of it and
+// pointing the header there; image data is left untouched.
+export const withTiffTags = (bytes: Uint8Array, tags: readonly TiffTag[]) => {
+  const { little, entries, nextIfd } = readFirstIfd(bytes);
+  const replaced = new Set(tags.map(({ tag }) => tag));
+  const kept = entries
+    .filter(({ tag }) => !replaced.has(tag))
+    .map(({ start }) => bytes.subarray(start, start + ENTRY_SIZE));
+  const base = bytes.length + (bytes.length % 2);
+  const ifd = buildIfd(tags, kept, base, little, nextIfd);
+
+  const result = new Uint8Array(base + ifd.length);
+  result.set(bytes);
+  result.set(ifd, base);
+  new DataView(result.buffer).setUint32(4, base, little);
+  return result;
+};
+
+export const readTiffTagBytes = (bytes: Uint8Array, tag: number) => {
+  const { view, little, entries } = readFirstIfd(bytes);
+  const entry = entries.find((item) => item.tag === tag);
+  if (!entry) return null;
+  const type = view.getUint16(entry.start + 2, little);
+  const size = view.getUint32(entry.start + 4, little) * (TYPE_SIZES[type] ?? 1);
+  const offset = size <= 4 ? entry.start + 8 : view.getUint32(entry.start + 8, little);
+  return bytes.subarray(offset, offset + size);
+};
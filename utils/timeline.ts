@@ -0,0 +1,130 @@
+import type { EffectSettings } from "./plaster-effect";
+
+export type Easing = "linear" | "easeIn" | "easeOut" | "easeInOut";
+
+export const EASINGS: readonly Easing[] = ["linear", "easeIn", "easeOut", "easeInOut"];
+
+const easingCurves: Record<Easing, (t: number) => number> = {
+  linear: (t) => t,
+  easeIn: (t) => t * t * t,
+  easeOut: (t) => 1 - (1 - t) ** 3,
+  easeInOut: (t) => (t < 0.5 ? 4 * t * t * t : 1 - (-2 * t + 2) ** 3 / 2)
+};
+
+export interface Keyframe {
+  time: number; // seconds from the start of the clip
+  easing: Easing; // how values travel from this keyframe to the next
+  reveal: number; // 0 shows the source photo, 100 the finished plaster
+  settings: EffectSettings;
+}
+
+export interface Timeline {
+  duration: number; // seconds
+  fps: number;
+  keyframes: readonly Keyframe[];
+}
+
+export const TIMELINE_RANGES = {
+  duration: { min: 1, max: 20 },
+  fps: { min: 6, max: 30 }
+};
+
+export const DEFAULT_TIMELINE: Timeline = { duration: 4, fps: 24, keyframes: [] };
+
+// Angles travel the short way round, so 350° to 10° is a small move.
+const ANGLE_KEYS = new Set(["azimuth"]);
+// Seeds pick a grain pattern rather than measure anything, so they step.
+const STEPPED_KEYS = new Set(["seed"]);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// Numbers blend, nested groups and equal-length lists blend field by field,
+// and everything else (modes, materials, shapes) holds until the next
+// keyframe is reached.
+const interpolate = (from: unknown, to: unknown, t: number, key = ""): unknown => {
+  if (typeof from === "number" && typeof to === "number" && !STEPPED_KEYS.has(key)) {
+    if (ANGLE_KEYS.has(key)) {
+      const delta = ((((to - from) % 360) + 540) % 360) - 180;
+      return (((from + delta * t) % 360) + 360) % 360;
+    }
+    return from + (to - from) * t;
+  }
+  if (Array.isArray(from) && Array.isArray(to) && from.length === to.length) {
+    return from.map((value, index) => interpolate(value, to[index], t));
+  }
+  if (isRecord(from) && isRecord(to)) {
+    return Object.fromEntries(
+      Object.entries(from).map(([name, value]) => [name, interpolate(value, to[name], t, name)])
+    );
+  }
+  return t < 1 ? from : to;
+};
+
+export const sortKeyframes = (keyframes: readonly Keyframe[]) =>
+  [...keyframes].sort((a, b) => a.time - b.time);
+
+export const frameCount = ({ duration, fps }: Timeline) => Math.max(1, Math.round(duration * fps));
+
+// The look at `time` seconds; before the first keyframe and after the last
+// the nearest one holds.
+export const sampleTimeline = (timeline: Timeline, time: number) => {
+  const keyframes = sortKeyframes(timeline.keyframes);
+  if (keyframes.length === 0) throw new Error("The timeline has no keyframes");
+  const next = keyframes.findIndex((keyframe) => keyframe.time > time);
+  if (next === 0) return keyframes[0];
+  if (next === -1) return keyframes[keyframes.length - 1];
+
+  const from = keyframes[next - 1];
+  const to = keyframes[next];
+  const t = easingCurves[from.easing]((time - from.time) / (to.time - from.time));
+  return {
+    time,
+    easing: from.easing,
+    reveal: from.reveal + (to.reveal - from.reveal) * t,
+    settings: interpolate(from.settings, to.settings, t) as EffectSettings
+  };
+};
+
+export const validateTimeline = ({ duration, fps, keyframes }: Timeline) => {
+  if (keyframes.length === 0) return "Add at least one keyframe";
+  const { duration: durations, fps: rates } = TIMELINE_RANGES;
+  if (!(duration >= durations.min && duration <= durations.max)) {
+    return `Clips run between ${durations.min} and ${durations.max} seconds`;
+  }
+  if (!Number.isInteger(fps) || fps < rates.min || fps > rates.max) {
+    return `Frame rate must be a whole number between ${rates.min} and ${rates.max}`;
+  }
+  if (keyframes.some((keyframe) => keyframe.time < 0 || keyframe.time > duration)) {
+    return "Every keyframe must fall within the clip";
+  }
+  return null;
+};
+
+// The source photo dissolving into plaster, then holding on the result.
+export const revealTimeline = (settings: EffectSettings, duration = 4): Timeline => ({
+  ...DEFAULT_TIMELINE,
+  duration,
+  keyframes: [
+    { time: 0, easing: "easeInOut", reveal: 0, settings },
+    { time: duration * 0.6, easing: "linear", reveal: 100, settings }
+  ]
+});
+
+// The key light swings over the top of the bust from left to right.
+export const lightSweepTimeline = (settings: EffectSettings, duration = 4): Timeline => {
+  const lit = (azimuth: number): EffectSettings => ({
+    ...settings,
+    lighting: "directional",
+    lights: { ...settings.lights, key: { ...settings.lights.key, azimuth } }
+  });
+  return {
+    ...DEFAULT_TIMELINE,
+    duration,
+    keyframes: [
+      { time: 0, easing: "easeIn", reveal: 100, settings: lit(250) },
+      { time: duration / 2, easing: "easeOut", reveal: 100, settings: lit(0) },
+      { time: duration, easing: "linear", reveal: 100, settings: lit(110) }
+    ]
+  };
+};
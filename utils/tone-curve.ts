@@ -0,0 +1,127 @@
+import { clamp } from "./image-filters";
+
+export type CurvePoint = readonly [number, number]; // [input, output], 0-255
+
+export interface ToneCurveSettings {
+  points: readonly CurvePoint[]; // ascending input, ends included
+  shadowSplit: number; // tone below which the matte lift and shadow zone act
+  highlightSplit: number; // tone above which the sheen boost and highlight zone act
+  shadows: number; // per-zone offsets layered over the spline
+  midtones: number;
+  highlights: number;
+}
+
+export const MAX_CURVE_POINTS = 16;
+
+export const DEFAULT_TONE_CURVE: ToneCurveSettings = {
+  points: [
+    [0, 0],
+    [255, 255]
+  ],
+  shadowSplit: 80,
+  highlightSplit: 210,
+  shadows: 0,
+  midtones: 0,
+  highlights: 0
+};
+
+// Monotone cubic (Fritsch–Carlson) through the points, so dragging one
+// point never makes the curve overshoot or reverse between its neighbours.
+// Inputs outside the first and last points hold their outputs.
+export const curveSpline = (points: readonly CurvePoint[]) => {
+  const count = points.length;
+  const xs = points.map(([x]) => x);
+  const ys = points.map(([, y]) => y);
+  const slopes = xs.slice(1).map((x, i) => (ys[i + 1] - ys[i]) / (x - xs[i] || 1));
+  const tangents = xs.map((_, i) => {
+    if (i === 0) return slopes[0] ?? 0;
+    if (i === count - 1) return slopes[count - 2] ?? 0;
+    const before = slopes[i - 1];
+    const after = slopes[i];
+    return before * after <= 0 ? 0 : (before + after) / 2;
+  });
+  for (let i = 0; i < count - 1; i++) {
+    if (slopes[i] === 0) {
+      tangents[i] = 0;
+      tangents[i + 1] = 0;
+      continue;
+    }
+    const a = tangents[i] / slopes[i];
+    const b = tangents[i + 1] / slopes[i];
+    const length = Math.hypot(a, b);
+    if (length > 3) {
+      tangents[i] = (3 * a * slopes[i]) / length;
+      tangents[i + 1] = (3 * b * slopes[i]) / length;
+    }
+  }
+
+  return (x: number) => {
+    if (count === 0) return x;
+    if (x <= xs[0]) return ys[0];
+    if (x >= xs[count - 1]) return ys[count - 1];
+    let i = 0;
+    while (x > xs[i + 1]) i++;
+    const span = xs[i + 1] - xs[i];
+    const t = (x - xs[i]) / span;
+    const t2 = t * t;
+    const t3 = t2 * t;
+    return (
+      (2 * t3 - 3 * t2 + 1) * ys[i] +
+      (t3 - 2 * t2 + t) * span * tangents[i] +
+      (-2 * t3 + 3 * t2) * ys[i + 1] +
+      (t3 - t2) * span * tangents[i + 1]
+    );
+  };
+};
+
+const smoothstep = (edge0: number, edge1: number, value: number) => {
+  const t = clamp((value - edge0) / (edge1 - edge0), 0, 1);
+  return t * t * (3 - 2 * t);
+};
+
+const ZONE_FEATHER = 16;
+
+// Shadow, midtone and highlight shares of a tone; they always sum to 1.
+export const zoneWeights = (value: number, shadowSplit: number, highlightSplit: number) => {
+  const shadow = 1 - smoothstep(shadowSplit - ZONE_FEATHER, shadowSplit + ZONE_FEATHER, value);
+  const highlight = smoothstep(
+    highlightSplit - ZONE_FEATHER,
+    highlightSplit + ZONE_FEATHER,
+    value
+  );
+  return { shadow, highlight, midtone: Math.max(0, 1 - shadow - highlight) };
+};
+
+export const isNeutralCurve = ({ points, shadows, midtones, highlights }: ToneCurveSettings) =>
+  shadows === 0 &&
+  midtones === 0 &&
+  highlights === 0 &&
+  points.every(([x, y]) => x === y);
+
+// 256-entry lookup of the spline plus zone offsets.
+export const toneCurveLut = (curve: ToneCurveSettings) => {
+  const spline = curveSpline(curve.points);
+  const lut = new Float32Array(256);
+  for (let value = 0; value < 256; value++) {
+    const { shadow, midtone, highlight } = zoneWeights(
+      value,
+      curve.shadowSplit,
+      curve.highlightSplit
+    );
+    const offset =
+      (curve.shadows * shadow + curve.midtones * midtone + curve.highlights * highlight) * 0.6;
+    lut[value] = clamp(spline(value) + offset, 0, 255);
+  }
+  return lut;
+};
+
+export const applyToneCurve = (values: Float32Array, curve: ToneCurveSettings) => {
+  if (isNeutralCurve(curve)) return;
+  const lut = toneCurveLut(curve);
+  for (let i = 0; i < values.length; i++) {
+    const value = clamp(values[i], 0, 255);
+    const index = Math.min(254, Math.floor(value));
+    const t = value - index;
+    values[i] = lut[index] + (lut[index + 1] - lut[index]) * t;
+  }
+};
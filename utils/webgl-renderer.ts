@@ -0,0 +1,592 @@
+import {
+  blurStage,
+  contourStage,
+  curveStage,
+  detailStage,
+  finishStage,
+  frameFace,
+  localToneStage,
+  relightStage,
+  toneStage
+} from "./effect-stages";
+import { hasRegionScaling, regionScales } from "./face";
+import { clamp, gaussianKernel } from "./image-filters";
+import type { EffectStage, PipelineState, ToneAccelerator } from "./pipeline";
+import type { EffectSettings } from "./plaster-effect";
+import { renderPlasterEffect } from "./plaster-effect";
+import type { PlasterRenderer } from "./renderer";
+import { smoothingRadius } from "./smoothing";
+import { isNeutralCurve } from "./tone-curve";
+
+const MAX_BLUR_RADIUS = 64;
+
+const VERTEX_SHADER = `#version 300 es
+void main() {
+  vec2 corner = vec2(float((gl_VertexID << 1) & 2), float(gl_VertexID & 2));
+  gl_Position = vec4(corner * 2.0 - 1.0, 0.0, 1.0);
+}`;
+
+// Every pass works in pixel space with texelFetch so the GPU samples exactly
+// the neighbours the Canvas2D loops read, including their edge clamping.
+const FRAGMENT_PRELUDE = `#version 300 es
+precision highp float;
+precision highp int;
+precision highp sampler2D;
+uniform ivec2 u_size;
+out vec4 outColor;
+
+ivec2 pixel() {
+  return ivec2(gl_FragCoord.xy);
+}
+
+float fetch(sampler2D map, ivec2 coord) {
+  return texelFetch(map, clamp(coord, ivec2(0), u_size - 1), 0).r;
+}
+
+void emit(float value) {
+  outColor = vec4(value, 0.0, 0.0, 1.0);
+}
+`;
+
+const SHADERS = {
+  luminance: `
+uniform sampler2D u_source;
+void main() {
+  vec3 color = texelFetch(u_source, pixel(), 0).rgb * 255.0;
+  emit(dot(color, vec3(0.299, 0.587, 0.114)));
+}`,
+  blur: `
+uniform sampler2D u_map;
+uniform ivec2 u_direction;
+uniform int u_radius;
+uniform float u_kernel[${MAX_BLUR_RADIUS * 2 + 1}];
+void main() {
+  ivec2 coord = pixel();
+  float accum = 0.0;
+  for (int k = -u_radius; k <= u_radius; k++) {
+    accum += fetch(u_map, coord + u_direction * k) * u_kernel[k + u_radius];
+  }
+  emit(accum);
+}`,
+  difference: `
+uniform sampler2D u_luminance;
+uniform sampler2D u_smoothed;
+void main() {
+  emit(fetch(u_luminance, pixel()) - fetch(u_smoothed, pixel()));
+}`,
+  sobel: `
+uniform sampler2D u_map;
+void main() {
+  ivec2 c = pixel();
+  if (c.x == 0 || c.y == 0 || c.x == u_size.x - 1 || c.y == u_size.y - 1) {
+    emit(0.0);
+    return;
+  }
+  float tl = fetch(u_map, c + ivec2(-1, -1));
+  float tm = fetch(u_map, c + ivec2(0, -1));
+  float tr = fetch(u_map, c + ivec2(1, -1));
+  float ml = fetch(u_map, c + ivec2(-1, 0));
+  float mr = fetch(u_map, c + ivec2(1, 0));
+  float bl = fetch(u_map, c + ivec2(-1, 1));
+  float bm = fetch(u_map, c + ivec2(0, 1));
+  float br = fetch(u_map, c + ivec2(1, 1));
+  float gx = -tl + tr - 2.0 * ml + 2.0 * mr - bl + br;
+  float gy = -tl - 2.0 * tm - tr + bl + 2.0 * bm + br;
+  emit(sqrt(gx * gx + gy * gy));
+}`,
+  reduce: `
+uniform sampler2D u_map;
+uniform bool u_seed;
+void main() {
+  ivec2 base = pixel() * 2;
+  vec2 range = vec2(3.0e38, -3.0e38);
+  for (int dy = 0; dy < 2; dy++) {
+    for (int dx = 0; dx < 2; dx++) {
+      vec4 texel = texelFetch(u_map, clamp(base + ivec2(dx, dy), ivec2(0), u_size - 1), 0);
+      vec2 value = u_seed ? texel.rr : texel.rg;
+      range = vec2(min(range.x, value.x), max(range.y, value.y));
+    }
+  }
+  outColor = vec4(range, 0.0, 1.0);
+}`,
+  contrast: `
+uniform sampler2D u_tone;
+uniform float u_contrast;
+uniform float u_shift;
+void main() {
+  float factor = (259.0 * (u_contrast + 255.0)) / (255.0 * (259.0 - u_contrast));
+  float value = clamp(factor * (fetch(u_tone, pixel()) - 128.0) + 128.0, 0.0, 255.0);
+  emit(clamp(value + u_shift, 0.0, 255.0));
+}`,
+  normalisedOffset: `
+uniform sampler2D u_tone;
+uniform sampler2D u_map;
+uniform sampler2D u_stats;
+uniform float u_pivot;
+uniform float u_scale;
+void main() {
+  vec2 range = texelFetch(u_stats, ivec2(0), 0).rg;
+  float span = range.y - range.x;
+  if (span == 0.0) span = 1.0;
+  float normalised = (fetch(u_map, pixel()) - range.x) / span;
+  emit(clamp(fetch(u_tone, pixel()) + (normalised - u_pivot) * u_scale, 0.0, 255.0));
+}`,
+  finish: `
+uniform sampler2D u_tone;
+uniform float u_sheen;
+uniform float u_matte;
+uniform float u_shadowSplit;
+uniform float u_highlightSplit;
+float softLight(float base, float blend) {
+  float b = base / 255.0;
+  float c = blend / 255.0;
+  float result = c < 0.5 ? 2.0 * b * c + b * b * (1.0 - 2.0 * c) :
+    2.0 * b * (1.0 - c) + sqrt(b) * (2.0 * c - 1.0);
+  return clamp(result * 255.0, 0.0, 255.0);
+}
+void main() {
+  float value = fetch(u_tone, pixel());
+  if (value > u_highlightSplit) {
+    float boost = (value - u_highlightSplit) * 0.8 * u_sheen;
+    value = clamp(softLight(value, value + boost), 0.0, 255.0);
+  }
+  if (value < u_shadowSplit) {
+    value = clamp(value + (u_shadowSplit - value) * 0.6 * u_matte, 0.0, 255.0);
+  }
+  emit(value);
+}`,
+  present: `
+uniform sampler2D u_tone;
+uniform sampler2D u_source;
+void main() {
+  ivec2 coord = ivec2(int(gl_FragCoord.x), u_size.y - 1 - int(gl_FragCoord.y));
+  float value = fetch(u_tone, coord) / 255.0;
+  outColor = vec4(vec3(value), texelFetch(u_source, coord, 0).a);
+}`,
+  pack: `
+uniform sampler2D u_tone;
+uniform sampler2D u_luminance;
+uniform sampler2D u_smoothed;
+void main() {
+  ivec2 c = pixel();
+  outColor = vec4(fetch(u_tone, c), fetch(u_luminance, c), fetch(u_smoothed, c), 1.0);
+}`
+};
+
+type ShaderName = keyof typeof SHADERS;
+
+interface Pass {
+  program: WebGLProgram;
+  uniforms: Map<string, WebGLUniformLocation | null>;
+}
+
+interface Target {
+  texture: WebGLTexture;
+  width: number;
+  height: number;
+}
+
+interface Surfaces {
+  width: number;
+  height: number;
+  source: WebGLTexture;
+  luminance: Target;
+  scratch: Target;
+  smoothed: Target;
+  toneA: Target;
+  toneB: Target;
+  map: Target;
+  pack: Target;
+  reduction: Target[];
+}
+
+export interface WebGLAccelerator extends ToneAccelerator {
+  dispose: () => void;
+}
+
+const compileShader = (gl: WebGL2RenderingContext, type: number, source: string) => {
+  const shader = gl.createShader(type);
+  if (!shader) throw new Error("Unable to allocate shader");
+  gl.shaderSource(shader, source);
+  gl.compileShader(shader);
+  if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+    const log = gl.getShaderInfoLog(shader);
+    gl.deleteShader(shader);
+    throw new Error(`Shader compilation failed: ${log}`);
+  }
+  return shader;
+};
+
+const createPass = (gl: WebGL2RenderingContext, fragment: string): Pass => {
+  const program = gl.createProgram();
+  if (!program) throw new Error("Unable to allocate shader program");
+  gl.attachShader(program, compileShader(gl, gl.VERTEX_SHADER, VERTEX_SHADER));
+  gl.attachShader(
+    program,
+    compileShader(gl, gl.FRAGMENT_SHADER, FRAGMENT_PRELUDE + fragment)
+  );
+  gl.linkProgram(program);
+  if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+    throw new Error(`Shader link failed: ${gl.getProgramInfoLog(program)}`);
+  }
+  return { program, uniforms: new Map() };
+};
+
+const createGLCanvas = () => {
+  if (typeof OffscreenCanvas !== "undefined") return new OffscreenCanvas(1, 1);
+  if (typeof document !== "undefined") return document.createElement("canvas");
+  return null;
+};
+
+// Per-region scaling around a detected face needs the CPU's pixel maps.
+const scalesFace = (
+  state: PipelineState,
+  settings: EffectSettings,
+  kind: "Detail" | "Smoothing"
+) =>
+  frameFace(state, settings.face) !== null && hasRegionScaling(regionScales(settings.face, kind));
+
+// Which tone stages the accelerator can run for these settings; it takes
+// over the leading run of stages this accepts.
+export const supportsStage = (
+  stage: EffectStage,
+  settings: EffectSettings,
+  state: PipelineState
+) => {
+  if (stage === blurStage) {
+    const { mode, gaussianStrength } = settings.smoothing;
+    return (
+      mode === "gaussian" &&
+      smoothingRadius(gaussianStrength, state.scale) <= MAX_BLUR_RADIUS &&
+      !scalesFace(state, settings, "Smoothing")
+    );
+  }
+  if (stage === detailStage) {
+    return !scalesFace(state, settings, "Detail");
+  }
+  // Contour and relight each do nothing in the other lighting mode; the
+  // directional rig itself still runs on the CPU.
+  if (stage === contourStage) {
+    return settings.lighting === "contour";
+  }
+  if (stage === relightStage) {
+    return settings.lighting !== "directional";
+  }
+  // Likewise local contrast and the curve only hand over when they are
+  // no-ops; their real work stays on the CPU.
+  if (stage === localToneStage) {
+    return settings.localTone.mode === "off";
+  }
+  if (stage === curveStage) {
+    return isNeutralCurve(settings.toneCurve);
+  }
+  return stage === toneStage || stage === finishStage;
+};
+
+export const createWebGLAccelerator = (): WebGLAccelerator | null => {
+  const canvas = createGLCanvas();
+  const gl = canvas?.getContext("webgl2", {
+    alpha: true,
+    antialias: false,
+    depth: false,
+    stencil: false,
+    premultipliedAlpha: false,
+    preserveDrawingBuffer: true
+  }) as WebGL2RenderingContext | null | undefined;
+  if (!canvas || !gl || !gl.getExtension("EXT_color_buffer_float")) return null;
+
+  let passes: Record<ShaderName, Pass>;
+  try {
+    passes = Object.fromEntries(
+      (Object.keys(SHADERS) as ShaderName[]).map((name) => [
+        name,
+        createPass(gl, SHADERS[name])
+      ])
+    ) as Record<ShaderName, Pass>;
+  } catch (error) {
+    console.warn(error);
+    return null;
+  }
+
+  const framebuffer = gl.createFramebuffer();
+  let surfaces: Surfaces | null = null;
+
+  const createTexture = () => {
+    const texture = gl.createTexture();
+    if (!texture) throw new Error("Unable to allocate texture");
+    gl.bindTexture(gl.TEXTURE_2D, texture);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.NEAREST);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.NEAREST);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+    return texture;
+  };
+
+  const createTarget = (
+    width: number,
+    height: number,
+    internalFormat: number,
+    format: number
+  ): Target => {
+    const texture = createTexture();
+    gl.texImage2D(gl.TEXTURE_2D, 0, internalFormat, width, height, 0, format, gl.FLOAT, null);
+    return { texture, width, height };
+  };
+
+  const releaseSurfaces = () => {
+    if (!surfaces) return;
+    const { source, luminance, scratch, smoothed, toneA, toneB, map, pack, reduction } =
+      surfaces;
+    gl.deleteTexture(source);
+    [luminance, scratch, smoothed, toneA, toneB, map, pack, ...reduction].forEach(
+      (target) => gl.deleteTexture(target.texture)
+    );
+    surfaces = null;
+  };
+
+  const ensureSurfaces = (width: number, height: number) => {
+    if (surfaces && surfaces.width === width && surfaces.height === height) {
+      return surfaces;
+    }
+    releaseSurfaces();
+
+    const single = () => createTarget(width, height, gl.R32F, gl.RED);
+    const reduction: Target[] = [];
+    let levelWidth = width;
+    let levelHeight = height;
+    while (levelWidth > 1 || levelHeight > 1) {
+      levelWidth = Math.ceil(levelWidth / 2);
+      levelHeight = Math.ceil(levelHeight / 2);
+      reduction.push(createTarget(levelWidth, levelHeight, gl.RG32F, gl.RG));
+    }
+
+    surfaces = {
+      width,
+      height,
+      source: createTexture(),
+      luminance: single(),
+      scratch: single(),
+      smoothed: single(),
+      toneA: single(),
+      toneB: single(),
+      map: single(),
+      pack: createTarget(width, height, gl.RGBA32F, gl.RGBA),
+      reduction
+    };
+    return surfaces;
+  };
+
+  const uniform = (pass: Pass, name: string) => {
+    if (!pass.uniforms.has(name)) {
+      pass.uniforms.set(name, gl.getUniformLocation(pass.program, name));
+    }
+    return pass.uniforms.get(name) ?? null;
+  };
+
+  const draw = (
+    pass: Pass,
+    target: Target | null,
+    inputSize: { width: number; height: number },
+    textures: Record<string, WebGLTexture>,
+    setUniforms?: (location: (name: string) => WebGLUniformLocation | null) => void
+  ) => {
+    gl.useProgram(pass.program);
+    gl.bindFramebuffer(gl.FRAMEBUFFER, target ? framebuffer : null);
+    if (target) {
+      gl.framebufferTexture2D(
+        gl.FRAMEBUFFER,
+        gl.COLOR_ATTACHMENT0,
+        gl.TEXTURE_2D,
+        target.texture,
+        0
+      );
+      gl.viewport(0, 0, target.width, target.height);
+    } else {
+      gl.viewport(0, 0, inputSize.width, inputSize.height);
+    }
+
+    Object.entries(textures).forEach(([name, texture], unit) => {
+      gl.activeTexture(gl.TEXTURE0 + unit);
+      gl.bindTexture(gl.TEXTURE_2D, texture);
+      gl.uniform1i(uniform(pass, name), unit);
+    });
+    gl.uniform2i(uniform(pass, "u_size"), inputSize.width, inputSize.height);
+    setUniforms?.((name) => uniform(pass, name));
+    gl.drawArrays(gl.TRIANGLES, 0, 3);
+  };
+
+  const reduceRange = (map: Target, chain: Target[]) => {
+    let input = map;
+    chain.forEach((level, index) => {
+      draw(passes.reduce, level, input, { u_map: input.texture }, (location) =>
+        gl.uniform1i(location("u_seed"), index === 0 ? 1 : 0)
+      );
+      input = level;
+    });
+    return input;
+  };
+
+  const run = (
+    state: PipelineState,
+    stages: readonly EffectStage[],
+    settings: EffectSettings
+  ) => {
+    if (gl.isContextLost()) return 0;
+
+    let count = 0;
+    while (count < stages.length && supportsStage(stages[count], settings, state)) {
+      count++;
+    }
+    if (count === 0) return 0;
+
+    const { width, height } = state;
+    try {
+      const surface = ensureSurfaces(width, height);
+      const size = { width, height };
+
+      gl.bindTexture(gl.TEXTURE_2D, surface.source);
+      gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, false);
+      gl.pixelStorei(gl.UNPACK_PREMULTIPLY_ALPHA_WEBGL, false);
+      gl.texImage2D(
+        gl.TEXTURE_2D,
+        0,
+        gl.RGBA,
+        gl.RGBA,
+        gl.UNSIGNED_BYTE,
+        state.context.canvas
+      );
+
+      draw(passes.luminance, surface.luminance, size, { u_source: surface.source });
+      let tone = surface.luminance;
+      let smoothed = surface.luminance;
+      const nextTone = () => (tone === surface.toneA ? surface.toneB : surface.toneA);
+
+      const applyNormalised = (pivot: number, scale: number) => {
+        const stats = reduceRange(surface.map, surface.reduction);
+        const target = nextTone();
+        draw(
+          passes.normalisedOffset,
+          target,
+          size,
+          { u_tone: tone.texture, u_map: surface.map.texture, u_stats: stats.texture },
+          (location) => {
+            gl.uniform1f(location("u_pivot"), pivot);
+            gl.uniform1f(location("u_scale"), scale);
+          }
+        );
+        tone = target;
+      };
+
+      for (const stage of stages.slice(0, count)) {
+        if (stage === blurStage) {
+          const radius = smoothingRadius(settings.smoothing.gaussianStrength, state.scale);
+          const kernel = new Float32Array(MAX_BLUR_RADIUS * 2 + 1);
+          kernel.set(radius > 0 ? gaussianKernel(radius) : [1]);
+          const blurPass = (input: Target, output: Target, direction: [number, number]) =>
+            draw(passes.blur, output, size, { u_map: input.texture }, (location) => {
+              gl.uniform2i(location("u_direction"), direction[0], direction[1]);
+              gl.uniform1i(location("u_radius"), radius);
+              gl.uniform1fv(location("u_kernel"), kernel);
+            });
+          blurPass(tone, surface.scratch, [1, 0]);
+          blurPass(surface.scratch, surface.smoothed, [0, 1]);
+          smoothed = surface.smoothed;
+          tone = surface.smoothed;
+        } else if (stage === toneStage) {
+          const target = nextTone();
+          draw(passes.contrast, target, size, { u_tone: tone.texture }, (location) => {
+            gl.uniform1f(
+              location("u_contrast"),
+              30 + (clamp(settings.depth, 0, 100) / 100) * 90
+            );
+            gl.uniform1f(
+              location("u_shift"),
+              (clamp(settings.luminosity, -50, 50) / 50) * 15
+            );
+          });
+          tone = target;
+        } else if (stage === detailStage) {
+          draw(passes.difference, surface.map, size, {
+            u_luminance: surface.luminance.texture,
+            u_smoothed: smoothed.texture
+          });
+          applyNormalised(0.5, 80 * (clamp(settings.microDetail, 0, 100) / 100));
+        } else if (stage === contourStage) {
+          draw(passes.sobel, surface.map, size, { u_map: smoothed.texture });
+          applyNormalised(0.4, 140 * (clamp(settings.depth, 0, 100) / 100));
+        } else if (stage === finishStage) {
+          const target = nextTone();
+          draw(passes.finish, target, size, { u_tone: tone.texture }, (location) => {
+            gl.uniform1f(location("u_sheen"), clamp(settings.sheen, 0, 100) / 100);
+            gl.uniform1f(location("u_matte"), clamp(settings.matte, 0, 100) / 100);
+            gl.uniform1f(location("u_shadowSplit"), settings.toneCurve.shadowSplit);
+            gl.uniform1f(location("u_highlightSplit"), settings.toneCurve.highlightSplit);
+          });
+          tone = target;
+        }
+      }
+
+      if (count < stages.length) {
+        draw(passes.pack, surface.pack, size, {
+          u_tone: tone.texture,
+          u_luminance: surface.luminance.texture,
+          u_smoothed: smoothed.texture
+        });
+        const packed = new Float32Array(width * height * 4);
+        gl.readPixels(0, 0, width, height, gl.RGBA, gl.FLOAT, packed);
+
+        const toneMap = new Float32Array(width * height);
+        const luminanceMap = new Float32Array(width * height);
+        const smoothedMap = new Float32Array(width * height);
+        for (let i = 0; i < toneMap.length; i++) {
+          toneMap[i] = packed[i * 4];
+          luminanceMap[i] = packed[i * 4 + 1];
+          smoothedMap[i] = packed[i * 4 + 2];
+        }
+
+        state.pixels = state.context.getImageData(0, 0, width, height);
+        state.tone = toneMap;
+        state.luminance = luminanceMap;
+        state.smoothed = smoothedMap;
+        return count;
+      }
+
+      if (canvas.width !== width || canvas.height !== height) {
+        canvas.width = width;
+        canvas.height = height;
+      }
+      draw(passes.present, null, size, {
+        u_tone: tone.texture,
+        u_source: surface.source
+      });
+
+      state.context.save();
+      state.context.globalCompositeOperation = "copy";
+      state.context.drawImage(canvas, 0, 0);
+      state.context.restore();
+      return count;
+    } catch (error) {
+      console.warn("WebGL2 pass failed, continuing on the CPU", error);
+      return 0;
+    }
+  };
+
+  return {
+    run,
+    dispose: () => {
+      releaseSurfaces();
+      gl.getExtension("WEBGL_lose_context")?.loseContext();
+    }
+  };
+};
+
+export const createWebGLRenderer = (): PlasterRenderer | null => {
+  const accelerator = createWebGLAccelerator();
+  if (!accelerator) return null;
+
+  return {
+    backend: "webgl2",
+    render: (config) => renderPlasterEffect({ ...config, accelerator }),
+    dispose: accelerator.dispose
+  };
+};
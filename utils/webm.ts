@@ -0,0 +1,163 @@
+import { concatBytes, latin1Bytes } from "./image-metadata";
+
+export type WebmCodec = "V_VP8" | "V_VP9";
+
+export interface WebmFrame {
+  data: Uint8Array;
+  timestamp: number; // milliseconds
+  key: boolean;
+}
+
+export interface WebmVideo {
+  codec: WebmCodec;
+  width: number;
+  height: number;
+  duration: number; // milliseconds
+  frames: readonly WebmFrame[];
+  software: string; // recorded as the muxing and writing application
+}
+
+// Element IDs from the Matroska specification; each already carries its
+// length marker bits.
+const IDS = {
+  ebml: 0x1a45dfa3,
+  ebmlVersion: 0x4286,
+  ebmlReadVersion: 0x42f7,
+  ebmlMaxIdLength: 0x42f2,
+  ebmlMaxSizeLength: 0x42f3,
+  docType: 0x4282,
+  docTypeVersion: 0x4287,
+  docTypeReadVersion: 0x4285,
+  segment: 0x18538067,
+  info: 0x1549a966,
+  timecodeScale: 0x2ad7b1,
+  duration: 0x4489,
+  muxingApp: 0x4d80,
+  writingApp: 0x5741,
+  tracks: 0x1654ae6b,
+  trackEntry: 0xae,
+  trackNumber: 0xd7,
+  trackUid: 0x73c5,
+  trackType: 0x83,
+  codecId: 0x86,
+  video: 0xe0,
+  pixelWidth: 0xb0,
+  pixelHeight: 0xba,
+  cluster: 0x1f43b675,
+  timecode: 0xe7,
+  simpleBlock: 0xa3
+};
+
+// Block timecodes are 16-bit offsets from their cluster's.
+const MAX_CLUSTER_SPAN = 30_000;
+
+const bigEndian = (value: number, length: number) => {
+  const bytes = new Uint8Array(length);
+  for (let index = length - 1, rest = value; index >= 0; index--) {
+    bytes[index] = rest % 256;
+    rest = Math.floor(rest / 256);
+  }
+  return bytes;
+};
+
+const byteLength = (value: number) => {
+  let length = 1;
+  while (value >= 256 ** length) length++;
+  return length;
+};
+
+// EBML variable-length size: the position of the leading 1 bit gives the
+// length. All ones is reserved for "unknown", hence the - 1.
+const encodeSize = (size: number) => {
+  let length = 1;
+  while (size >= 2 ** (7 * length) - 1) length++;
+  const bytes = bigEndian(size, length);
+  bytes[0] |= 0x80 >> (length - 1);
+  return bytes;
+};
+
+const element = (id: number, data: Uint8Array) =>
+  concatBytes([bigEndian(id, byteLength(id)), encodeSize(data.length), data]);
+
+const uintElement = (id: number, value: number) =>
+  element(id, bigEndian(value, byteLength(value)));
+
+const floatElement = (id: number, value: number) => {
+  const data = new Uint8Array(8);
+  new DataView(data.buffer).setFloat64(0, value);
+  return element(id, data);
+};
+
+const stringElement = (id: number, text: string) => element(id, latin1Bytes(text));
+
+const masterElement = (id: number, children: readonly Uint8Array[]) =>
+  element(id, concatBytes(children));
+
+const simpleBlock = (frame: WebmFrame, clusterTime: number) => {
+  const header = new Uint8Array(4);
+  header[0] = 0x81; // track 1
+  new DataView(header.buffer).setInt16(1, frame.timestamp - clusterTime);
+  header[3] = frame.key ? 0x80 : 0;
+  return element(IDS.simpleBlock, concatBytes([header, frame.data]));
+};
+
+// A new cluster starts at every key frame, so players can seek to any of
+// them without a cue index.
+const buildClusters = (frames: readonly WebmFrame[]) => {
+  const clusters: Uint8Array[] = [];
+  let start = 0;
+  while (start < frames.length) {
+    const clusterTime = frames[start].timestamp;
+    let end = start + 1;
+    while (
+      end < frames.length &&
+      !frames[end].key &&
+      frames[end].timestamp - clusterTime < MAX_CLUSTER_SPAN
+    ) {
+      end++;
+    }
+    clusters.push(
+      masterElement(IDS.cluster, [
+        uintElement(IDS.timecode, clusterTime),
+        ...frames.slice(start, end).map((frame) => simpleBlock(frame, clusterTime))
+      ])
+    );
+    start = end;
+  }
+  return clusters;
+};
+
+// Minimal single-track WebM, written once every frame is encoded.
+export const muxWebm = ({ codec, width, height, duration, frames, software }: WebmVideo) => {
+  const header = masterElement(IDS.ebml, [
+    uintElement(IDS.ebmlVersion, 1),
+    uintElement(IDS.ebmlReadVersion, 1),
+    uintElement(IDS.ebmlMaxIdLength, 4),
+    uintElement(IDS.ebmlMaxSizeLength, 8),
+    stringElement(IDS.docType, "webm"),
+    uintElement(IDS.docTypeVersion, 2),
+    uintElement(IDS.docTypeReadVersion, 2)
+  ]);
+  const segment = masterElement(IDS.segment, [
+    masterElement(IDS.info, [
+      uintElement(IDS.timecodeScale, 1_000_000), // timecodes in milliseconds
+      floatElement(IDS.duration, duration),
+      stringElement(IDS.muxingApp, software),
+      stringElement(IDS.writingApp, software)
+    ]),
+    masterElement(IDS.tracks, [
+      masterElement(IDS.trackEntry, [
+        uintElement(IDS.trackNumber, 1),
+        uintElement(IDS.trackUid, 1),
+        uintElement(IDS.trackType, 1), // video
+        stringElement(IDS.codecId, codec),
+        masterElement(IDS.video, [
+          uintElement(IDS.pixelWidth, width),
+          uintElement(IDS.pixelHeight, height)
+        ])
+      ])
+    ]),
+    ...buildClusters(frames)
+  ]);
+  return concatBytes([header, segment]);
+};
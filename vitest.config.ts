@@ -0,0 +1,20 @@
+import { fileURLToPath } from "node:url";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      // The app serves libheif-js's bundle from a copy in public/; tests
+      // load the package's own.
+      "/vendor/libheif/libheif-bundle.mjs": fileURLToPath(
+        new URL("./node_modules/libheif-js/libheif-wasm/libheif-bundle.mjs", import.meta.url)
+      )
+    }
+  },
+  test: {
+    include: ["tests/**/*.test.ts"],
+    environment: "node",
+    // SwiftShader draws every shader pass on one CPU core in CI.
+    testTimeout: 120_000
+  }
+});
@@ -0,0 +1,143 @@
+import { type AnimationJob, renderAnimation } from "../utils/animation";
+import { type ExportEncoding, encodeCanvas } from "../utils/export-encoding";
+import { computeHistogram } from "../utils/histogram";
+import { createRenderCache } from "../utils/pipeline";
+import { createRenderer } from "../utils/renderer";
+import type {
+  RenderJob,
+  WorkerRequest,
+  WorkerResponse
+} from "../utils/plaster-worker-client";
+
+const scope = self as unknown as Worker;
+
+interface Surface {
+  canvas: OffscreenCanvas;
+  context: OffscreenCanvasRenderingContext2D;
+}
+
+const renderer = createRenderer();
+// Previews of one source share intermediates; exports never touch them.
+const previewCache = createRenderCache();
+let source: ImageBitmap | null = null;
+let previewSurface: Surface | null = null;
+const runningAnimations = new Set<number>();
+const cancelledAnimations = new Set<number>();
+
+const post = (message: WorkerResponse, transfer: Transferable[] = []) =>
+  scope.postMessage(message, transfer);
+
+const describeError = (error: unknown) =>
+  error instanceof Error ? error.message : "Processing failed";
+
+const createSurface = (width: number, height: number): Surface => {
+  const canvas = new OffscreenCanvas(width, height);
+  const context = canvas.getContext("2d", { willReadFrequently: true });
+  if (!context) {
+    throw new Error("Canvas rendering not supported");
+  }
+  return { canvas, context };
+};
+
+const resizeSurface = (surface: Surface, width: number, height: number) => {
+  if (surface.canvas.width !== width || surface.canvas.height !== height) {
+    surface.canvas.width = width;
+    surface.canvas.height = height;
+  }
+  return surface;
+};
+
+const renderPreview = (jobId: number, job: RenderJob) => {
+  if (!source) {
+    post({ type: "error", jobId, message: "No source image loaded" });
+    return;
+  }
+
+  try {
+    previewSurface = previewSurface
+      ? resizeSurface(previewSurface, job.width, job.height)
+      : createSurface(job.width, job.height);
+    const { canvas, context } = previewSurface;
+    const { face } = renderer.render({ source, context, cache: previewCache, ...job });
+    const histogram = computeHistogram(context.getImageData(0, 0, job.width, job.height).data);
+    const bitmap = canvas.transferToImageBitmap();
+    post({ type: "rendered", jobId, frame: { bitmap, histogram, face } }, [
+      bitmap,
+      histogram.buffer
+    ]);
+  } catch (error) {
+    post({ type: "error", jobId, message: describeError(error) });
+  }
+};
+
+// Exports carry their own source and are never superseded, so batch and
+// download renders cannot be dropped by live slider traffic. Each gets a
+// throwaway surface so a print-size backing store is not kept alive.
+const renderExport = async (
+  exportId: number,
+  bitmap: ImageBitmap,
+  job: RenderJob,
+  encoding: ExportEncoding
+) => {
+  let surface: Surface | null = null;
+  try {
+    surface = createSurface(job.width, job.height);
+    renderer.render({ source: bitmap, context: surface.context, ...job });
+    const blob = await encodeCanvas(surface.canvas, surface.context, encoding);
+    post({ type: "exported", exportId, blob });
+  } catch (error) {
+    post({ type: "exportFailed", exportId, message: describeError(error) });
+  } finally {
+    bitmap.close();
+    if (surface) resizeSurface(surface, 1, 1);
+  }
+};
+
+// Clips yield between frames, so previews and cancels still get through
+// while one renders.
+const renderClip = async (animationId: number, bitmap: ImageBitmap, job: AnimationJob) => {
+  runningAnimations.add(animationId);
+  try {
+    const blob = await renderAnimation(renderer, bitmap, job, {
+      onProgress: (progress) => post({ type: "animationProgress", animationId, progress }),
+      isCancelled: () => cancelledAnimations.has(animationId)
+    });
+    post({ type: "animated", animationId, blob });
+  } catch (error) {
+    post({ type: "animationFailed", animationId, message: describeError(error) });
+  } finally {
+    bitmap.close();
+    runningAnimations.delete(animationId);
+    cancelledAnimations.delete(animationId);
+  }
+};
+
+post({ type: "backend", backend: renderer.backend });
+
+scope.onmessage = (event: MessageEvent<WorkerRequest>) => {
+  const message = event.data;
+
+  switch (message.type) {
+    case "source":
+      source?.close();
+      source = message.bitmap;
+      previewCache.clear();
+      break;
+    case "render":
+      renderPreview(message.jobId, message.job);
+      break;
+    case "export":
+      void renderExport(message.exportId, message.bitmap, message.job, message.encoding);
+      break;
+    case "animate":
+      void renderClip(message.animationId, message.bitmap, message.job);
+      break;
+    case "cancelAnimation":
+      // A cancel can cross the clip's own result; once it has finished
+      // there is nothing to stop, and nothing would clear the entry.
+      if (runningAnimations.has(message.animationId)) {
+        cancelledAnimations.add(message.animationId);
+      }
+      break;
+  }
+};